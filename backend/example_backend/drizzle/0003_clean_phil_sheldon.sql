@@ -0,0 +1,16 @@
+CREATE TABLE "payment_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"event_id" text NOT NULL,
+	"type" text NOT NULL,
+	"payment_intent_id" text,
+	"order_id" text,
+	"status" text DEFAULT 'received' NOT NULL,
+	"payload" jsonb NOT NULL,
+	"processed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_events_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "idempotency_keys" (
+	"id" text PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"scope" text NOT NULL,
+	"subject" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"status" text DEFAULT 'in_progress' NOT NULL,
+	"response" jsonb,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idempotency_keys_key_scope_subject_idx" ON "idempotency_keys" USING btree ("key","scope","subject");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "otps" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "otps" ADD COLUMN "last_sent_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
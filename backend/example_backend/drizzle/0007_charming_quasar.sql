@@ -0,0 +1,14 @@
+CREATE TABLE "email_outbox" (
+	"id" text PRIMARY KEY NOT NULL,
+	"from" text NOT NULL,
+	"to" text NOT NULL,
+	"subject" text NOT NULL,
+	"html" text NOT NULL,
+	"text" text,
+	"template" text,
+	"data" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "email_outbox_to_idx" ON "email_outbox" USING btree ("to");
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Trigram matching backs the typo-tolerant product name search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
@@ -0,0 +1,21 @@
+CREATE TABLE "promo_redemptions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"promo_code_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"order_id" text NOT NULL,
+	"discount_amount" numeric(10, 2) NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"released_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "promo_codes" ADD COLUMN "per_user_limit" integer;--> statement-breakpoint
+ALTER TABLE "promo_codes" ADD COLUMN "stackable" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "promo_codes" ADD COLUMN "buy_quantity" integer;--> statement-breakpoint
+ALTER TABLE "promo_codes" ADD COLUMN "get_quantity" integer;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promo_code_id_promo_codes_id_fk" FOREIGN KEY ("promo_code_id") REFERENCES "public"."promo_codes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "promo_redemptions_promo_order_idx" ON "promo_redemptions" USING btree ("promo_code_id","order_id");--> statement-breakpoint
+CREATE INDEX "promo_redemptions_promo_user_idx" ON "promo_redemptions" USING btree ("promo_code_id","user_id");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "shipping_rates" (
+	"id" text PRIMARY KEY NOT NULL,
+	"zone_id" text NOT NULL,
+	"min_value" numeric(10, 3) DEFAULT '0' NOT NULL,
+	"max_value" numeric(10, 3),
+	"price" numeric(10, 2) NOT NULL,
+	"price_per_unit" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_zones" (
+	"id" text PRIMARY KEY NOT NULL,
+	"vendor_id" text NOT NULL,
+	"name" text NOT NULL,
+	"countries" text[],
+	"states" text[],
+	"postal_code_prefixes" text[],
+	"rate_type" text DEFAULT 'quantity' NOT NULL,
+	"free_shipping_threshold" numeric(10, 2),
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product_variants" ADD COLUMN "weight" numeric(10, 3);--> statement-breakpoint
+ALTER TABLE "order_vendor_tracking" ADD COLUMN "shipping_cost" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_zone_id_shipping_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "public"."shipping_zones"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_zones" ADD CONSTRAINT "shipping_zones_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "public"."vendors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "shipping_rates_zone_id_idx" ON "shipping_rates" USING btree ("zone_id");--> statement-breakpoint
+CREATE INDEX "shipping_zones_vendor_id_idx" ON "shipping_zones" USING btree ("vendor_id");
\ No newline at end of file
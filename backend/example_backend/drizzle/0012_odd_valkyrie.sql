@@ -0,0 +1,20 @@
+CREATE TABLE "tax_rules" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"country" text NOT NULL,
+	"region" text,
+	"tax_class" text DEFAULT 'standard' NOT NULL,
+	"rate" numeric(6, 4) NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "tax_class" text DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_includes_tax" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_name" text;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_rate" numeric(6, 4) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "price_includes_tax" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "tax_rules_country_class_idx" ON "tax_rules" USING btree ("country","tax_class");
\ No newline at end of file
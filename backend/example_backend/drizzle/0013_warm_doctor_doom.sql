@@ -0,0 +1,17 @@
+CREATE TABLE "exchange_rates" (
+	"id" text PRIMARY KEY NOT NULL,
+	"base_currency" text NOT NULL,
+	"quote_currency" text NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"source" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vendors" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "exchange_rates" jsonb;--> statement-breakpoint
+ALTER TABLE "promo_codes" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipping_zones" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "exchange_rates_pair_idx" ON "exchange_rates" USING btree ("base_currency","quote_currency");
\ No newline at end of file
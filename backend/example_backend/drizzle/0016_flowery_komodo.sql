@@ -0,0 +1,41 @@
+CREATE TABLE "return_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"return_request_id" text NOT NULL,
+	"order_item_id" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"reason" text NOT NULL,
+	"refund_amount" numeric(10, 2) NOT NULL,
+	"restocked_quantity" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "return_requests" (
+	"id" text PRIMARY KEY NOT NULL,
+	"rma_number" text NOT NULL,
+	"order_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"vendor_id" text NOT NULL,
+	"status" text DEFAULT 'requested' NOT NULL,
+	"description" text,
+	"photos" text[],
+	"vendor_note" text,
+	"refund_amount" numeric(10, 2) NOT NULL,
+	"currency" text NOT NULL,
+	"refund_id" text,
+	"decided_at" timestamp,
+	"received_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "return_requests_rma_number_unique" UNIQUE("rma_number")
+);
+--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_return_request_id_return_requests_id_fk" FOREIGN KEY ("return_request_id") REFERENCES "public"."return_requests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "public"."vendors"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_refund_id_refunds_id_fk" FOREIGN KEY ("refund_id") REFERENCES "public"."refunds"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "return_items_order_item_id_idx" ON "return_items" USING btree ("order_item_id");--> statement-breakpoint
+CREATE INDEX "return_requests_order_id_idx" ON "return_requests" USING btree ("order_id");--> statement-breakpoint
+CREATE INDEX "return_requests_vendor_id_idx" ON "return_requests" USING btree ("vendor_id");
\ No newline at end of file
@@ -0,0 +1,45 @@
+CREATE TABLE "role_permissions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"role_id" text NOT NULL,
+	"permission" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "roles" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"is_built_in" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "roles_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "role_permissions_role_permission_idx" ON "role_permissions" USING btree ("role_id","permission");--> statement-breakpoint
+INSERT INTO "roles" ("id", "name", "description", "is_built_in") VALUES
+	('role_user', 'user', 'Buyers', true),
+	('role_vendor', 'vendor', 'Vendors selling on the marketplace', true),
+	('role_admin', 'admin', 'Marketplace administrators', true),
+	('role_superadmin', 'superadmin', 'Holds every permission', true)
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "role_permissions" ("id", "role_id", "permission")
+SELECT gen_random_uuid()::text, "roles"."id", "grants"."permission"
+FROM (VALUES
+	('user', 'user'),
+	('vendor', 'vendor'),
+	('vendor', 'vendor:product:rw'),
+	('vendor', 'vendor:order:r'),
+	('admin', 'admin'),
+	('admin', 'admin:product:rw'),
+	('admin', 'admin:category:rw'),
+	('admin', 'admin:order:rw'),
+	('admin', 'admin:review:rw'),
+	('admin', 'admin:promo:rw'),
+	('admin', 'admin:promotional:rw'),
+	('admin', 'admin:vendor:rw'),
+	('superadmin', 'superadmin')
+) AS "grants" ("role", "permission")
+INNER JOIN "roles" ON "roles"."name" = "grants"."role"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,20 @@
+CREATE TABLE "admin_audit_logs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"actor_id" text,
+	"action" text NOT NULL,
+	"target_type" text NOT NULL,
+	"target_id" text NOT NULL,
+	"metadata" jsonb,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "admin_audit_logs" ADD CONSTRAINT "admin_audit_logs_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "admin_audit_logs_target_idx" ON "admin_audit_logs" USING btree ("target_type","target_id");--> statement-breakpoint
+CREATE INDEX "admin_audit_logs_actor_id_idx" ON "admin_audit_logs" USING btree ("actor_id");--> statement-breakpoint
+INSERT INTO "role_permissions" ("id", "role_id", "permission")
+SELECT gen_random_uuid()::text, "roles"."id", 'admin:user:rw'
+FROM "roles"
+WHERE "roles"."name" = 'admin'
+ON CONFLICT DO NOTHING;
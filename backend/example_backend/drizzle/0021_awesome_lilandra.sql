@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "deletion_requested_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deletion_scheduled_for" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "fake_payment_intents" (
+	"id" text PRIMARY KEY NOT NULL,
+	"client_secret" text NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"status" text DEFAULT 'requires_payment_method' NOT NULL,
+	"metadata" jsonb NOT NULL,
+	"idempotency_key" text,
+	"refunded_amount" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "fake_payment_intents_idempotency_key_unique" UNIQUE("idempotency_key")
+);
@@ -0,0 +1 @@
+ALTER TABLE "auths" ADD COLUMN "logged_out_at" timestamp;
\ No newline at end of file
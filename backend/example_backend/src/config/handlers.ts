@@ -5,9 +5,9 @@ import { OpenAPIGenerator } from "@orpc/openapi";
 import { CORSPlugin } from "@orpc/server/plugins";
 import { ZodSmartCoercionPlugin, ZodToJsonSchemaConverter } from "@orpc/zod";
 
-import { appRouter } from "../router";
+import { appRouter, rpcRouter } from "../router";
 
-export const rpcHandler = new RPCHandler(appRouter, {
+export const rpcHandler = new RPCHandler(rpcRouter, {
   plugins: [new CORSPlugin(), new ZodSmartCoercionPlugin()],
   interceptors: [
     onError((error) => {
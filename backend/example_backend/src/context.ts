@@ -8,10 +8,19 @@ export type Env = {
   POSTGRES_CONNECTION_STRING: string;
   JWT_SECRET: string;
   RESEND_API_KEY: string;
+  EMAIL_TRANSPORT?: string;
+  EMAIL_FROM?: string;
   TEST_EMAIL: string;
   TEST_OTP: string;
   R2_BUCKET: R2Bucket;
   R2_PUBLIC_URL: string;
+  PAYMENT_PROVIDER?: string;
+  STRIPE_SECRET_KEY?: string;
+  PAYMENT_WEBHOOK_SECRET?: string;
+  // JSON object of per-role overrides for the session policies in session.utils
+  SESSION_POLICIES?: string;
+  // Signs account export download links; derived from JWT_SECRET when unset
+  ACCOUNT_EXPORT_SECRET?: string;
 };
 
 export type HonoTypes = {
@@ -22,8 +31,10 @@ export type HonoTypes = {
     authUser?: AuthUser;
     authSession?: AuthSession;
     authUserRoles?: string[];
+    authUserPermissions?: string[];
     authIsAdmin?: boolean;
     authIsSuperAdmin?: boolean;
+    rawBody?: string;
   };
 };
 
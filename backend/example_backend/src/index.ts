@@ -1,13 +1,25 @@
 import { Hono } from "hono";
-import type { HonoTypes } from "./context";
+import type { Env, HonoTypes } from "./context";
 import { rpcHandler, openAPIHandler } from "./config/handlers";
 import { setupContext, getContextForHandler } from "./middleware/setup.middleware";
 import docsRouter from "./routes/docs.route";
+import { getDb } from "./utils/db.utils";
+import { releaseExpiredReservations } from "./utils/order-cancellation.utils";
+import { retryFailedRefunds } from "./utils/payment.utils";
+import { cleanupExpiredCarts } from "./repositories/cart.repository";
+import { cleanupExpiredIdempotencyKeys } from "./repositories/idempotency.repository";
+import { deleteDueAccounts, deleteExpiredAccountExports } from "./utils/account.utils";
 
 const app = new Hono<HonoTypes>();
 
 app.use("*", setupContext);
 
+// Webhook signatures are computed over the exact bytes sent, so keep a copy before oRPC parses the body
+app.use("/api/payment/webhook", async (c, next) => {
+  c.set("rawBody", await c.req.raw.clone().text());
+  await next();
+});
+
 app.use("/api/*", async (c, next) => {
   const context = getContextForHandler(c);
 
@@ -40,4 +52,32 @@ app.use("/rpc/*", async (c, next) => {
 
 app.route("/", docsRouter);
 
-export default app;
+// Cron triggers are configured in wrangler.jsonc
+async function scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+  const db = getDb(env);
+
+  ctx.waitUntil(
+    (async () => {
+      // Jobs are independent, so one failing must not skip the others
+      const results = await Promise.allSettled([
+        releaseExpiredReservations(env, db),
+        retryFailedRefunds(env, db),
+        cleanupExpiredCarts(db),
+        cleanupExpiredIdempotencyKeys(db),
+        deleteDueAccounts(env, db),
+        deleteExpiredAccountExports(env),
+      ]);
+
+      const errors = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+      if (errors.length > 0) {
+        // Rethrown so the Workers runtime reports the failed cron run
+        throw new AggregateError(errors, `${errors.length} scheduled jobs failed`);
+      }
+    })()
+  );
+}
+
+export default {
+  fetch: app.fetch,
+  scheduled,
+};
@@ -0,0 +1,169 @@
+import { os, ORPCError } from '@orpc/server';
+import type { TRPCContext } from '../context';
+import {
+  createIdempotencyKey,
+  findIdempotencyKey,
+  completeIdempotencyKey,
+  deleteIdempotencyKey,
+  reclaimIdempotencyKey,
+} from '../repositories/idempotency.repository';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+// An in-progress key older than this belongs to a request that died, so a retry may take it over
+const IDEMPOTENCY_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+// Responses carrying any of these are never stored, so a replayed key cannot hand out credentials
+const CREDENTIAL_FIELDS = new Set(['accessToken', 'refreshToken']);
+
+function containsCredentials(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  if (Array.isArray(value)) {
+    return value.some((item) => containsCredentials(item));
+  }
+
+  return Object.entries(value as Record<string, unknown>).some(
+    ([key, entryValue]) =>
+      (CREDENTIAL_FIELDS.has(key) && entryValue !== undefined) || containsCredentials(entryValue)
+  );
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entryValue]) => entryValue !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+async function hashRequest(input: unknown): Promise<string> {
+  const buffer = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(stableStringify(input))
+  );
+
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Honors the `Idempotency-Key` header on mutating procedures.
+ * The first response per key, procedure and caller is stored and replayed for retries;
+ * reusing a key with a different body is rejected. Requests without the header run as usual.
+ * Anonymous callers are identified by their request body, so a key only replays for
+ * someone sending exactly the same request. Responses that carry tokens are not stored:
+ * the key is released and a retry runs the procedure again.
+ *
+ * Chain it after `publicProcedure` or `protectedProcedure(...)` so the caller is known:
+ * `protectedProcedure({ anyOf: ['user'] }).use(idempotencyMiddleware)`
+ */
+export const idempotencyMiddleware = os.middleware(
+  async ({ context, next, path, procedure }, input, output) => {
+    const ctx = context as TRPCContext;
+    const { c } = ctx;
+    const key = c.req.header(IDEMPOTENCY_KEY_HEADER)?.trim();
+
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new ORPCError('BAD_REQUEST', {
+        message: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+      });
+    }
+
+    const db = c.get('db');
+    const scope = path.join('.');
+    const requestHash = await hashRequest(input);
+    const subject = c.get('authUser')?.id ?? `anonymous:${requestHash}`;
+    const newRecord = () => ({
+      key,
+      scope,
+      subject,
+      requestHash,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+    });
+
+    let record = await createIdempotencyKey(db, newRecord());
+
+    if (!record) {
+      const existing = await findIdempotencyKey(db, key, scope, subject);
+
+      if (existing && existing.expiresAt < new Date()) {
+        await deleteIdempotencyKey(db, existing.id);
+        record = await createIdempotencyKey(db, newRecord());
+      } else if (existing && existing.requestHash !== requestHash) {
+        throw new ORPCError('UNPROCESSABLE_CONTENT', {
+          message: 'Idempotency-Key was already used with a different request body',
+        });
+      } else if (existing && existing.status === 'completed') {
+        // Stored responses went through JSON, so run them back through the output schema to restore dates
+        const outputSchema = procedure['~orpc'].outputSchema;
+        if (outputSchema) {
+          const result = await outputSchema['~standard'].validate(existing.response);
+          if (!result.issues) {
+            return output(result.value);
+          }
+        }
+
+        return output(existing.response);
+      } else if (existing) {
+        // Still running, unless the request holding it died
+        record = await reclaimIdempotencyKey(
+          db,
+          existing.id,
+          new Date(Date.now() - IDEMPOTENCY_LOCK_TIMEOUT_MS),
+          newRecord().expiresAt
+        );
+      }
+
+      if (!record) {
+        throw new ORPCError('CONFLICT', {
+          message: 'A request with this Idempotency-Key is already in progress',
+        });
+      }
+    }
+
+    let result: Awaited<ReturnType<typeof next>>;
+    try {
+      result = await next();
+    } catch (error) {
+      // Let the client retry with the same key after a failure
+      await deleteIdempotencyKey(db, record.id);
+      throw error;
+    }
+
+    if (containsCredentials(result.output)) {
+      await deleteIdempotencyKey(db, record.id);
+      return result;
+    }
+
+    try {
+      await completeIdempotencyKey(db, record.id, result.output);
+    } catch {
+      // The handler's work is done, so the key must not be freed for a rerun.
+      // Retries see it in progress until the lock times out.
+    }
+
+    return result;
+  }
+);
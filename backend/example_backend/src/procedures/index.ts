@@ -1,3 +1,3 @@
 export * from './public.procedure';
 export * from './protected.procedure';
-
+export * from './idempotency.procedure';
@@ -3,11 +3,8 @@ import { verify } from 'hono/jwt';
 import type { TRPCContext } from '../context';
 import type { PermissionString } from '../utils/permission.utils';
 import { checkPermissions, getAuthHeader, authIsAdmin, authIsSuperAdmin } from '../utils/auth.utils';
-import { userRole } from '../schemas/user.schema';
-import { users } from '../schemas/user.schema';
-import { eq } from 'drizzle-orm';
-import { findAuthByUserId } from '../repositories/auth.repository';
-import { isUserBanned } from '../repositories/user.repository';
+import { findAuthContext } from '../repositories/auth.repository';
+import { checkUserBanStatus } from '../repositories/user.repository';
 
 export type ProcedurePermissions =
   | {
@@ -48,53 +45,56 @@ export function protectedProcedure(permissions: ProcedurePermissions) {
 
     const jwtSecret = ctx.env.JWT_SECRET;
 
-    let payload: { userId: string; email: string };
+    let payload: { userId: string; email: string; sid?: string; type?: string };
     try {
       const verified = await verify(token, jwtSecret, 'HS256');
-      payload = verified as { userId: string; email: string };
+      payload = verified as typeof payload;
     } catch (error) {
       throw new ORPCError('UNAUTHORIZED', {
         message: 'Invalid or expired token',
       });
     }
 
-    const [foundUser] = await db.select().from(users).where(eq(users.id, payload.userId)).limit(1);
+    // Only access tokens bound to a session authenticate API calls
+    if (payload.type !== 'access' || !payload.sid) {
+      throw new ORPCError('UNAUTHORIZED', {
+        message: 'Invalid or expired token',
+      });
+    }
+
+    const authContext = await findAuthContext(db, payload.userId, payload.sid);
 
-    if (!foundUser) {
+    if (!authContext) {
       throw new ORPCError('UNAUTHORIZED', {
         message: 'User not found',
       });
     }
 
-    const banned = await isUserBanned(db, payload.userId);
+    const { user: foundUser, roles: userRolesList, permissions: userPermissions } = authContext;
+
+    // No extra query unless a timed ban has run out and is lifted here
+    const banned = await checkUserBanStatus(db, foundUser);
     if (banned) {
       throw new ORPCError('FORBIDDEN', {
         message: 'User account is banned',
       });
     }
 
-    const authSession = await findAuthByUserId(db, payload.userId);
-
-    if (!authSession) {
+    // Tokens are bound to their session, so logging out (which deletes the session or, for a
+    // trusted device, marks it logged out) or revoking it invalidates them immediately
+    if (!authContext.authId) {
       throw new ORPCError('UNAUTHORIZED', {
         message: 'Session not found or expired',
       });
     }
 
-    const foundUserRoles = await db
-      .select()
-      .from(userRole)
-      .where(eq(userRole.userId, payload.userId));
-
-    if (!foundUserRoles.length) {
+    if (!userRolesList.length) {
       throw new ORPCError('UNAUTHORIZED', {
         message: 'No roles assigned',
       });
     }
 
-    const userRolesList = foundUserRoles.map((userRole) => userRole.role);
-
-    const hasPermission = checkPermissions(userRolesList, permissions);
+    const hasPermission = checkPermissions(userRolesList, userPermissions, permissions);
 
     if (!hasPermission) {
       throw new ORPCError('FORBIDDEN', {
@@ -109,11 +109,13 @@ export function protectedProcedure(permissions: ProcedurePermissions) {
     });
 
     c.set('authSession', {
+      authId: authContext.authId,
       userId: payload.userId,
       email: payload.email,
     });
 
     c.set('authUserRoles', userRolesList);
+    c.set('authUserPermissions', userPermissions);
     c.set('authIsAdmin', authIsAdmin(userRolesList));
     c.set('authIsSuperAdmin', authIsSuperAdmin(userRolesList));
 
@@ -0,0 +1,160 @@
+import { eq, and, asc, lte, isNull, isNotNull, inArray, notInArray, count } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
+import { users, userRole } from '../schemas/user.schema';
+import { auths } from '../schemas/auth.schema';
+import { devices } from '../schemas/device.schema';
+import { otps } from '../schemas/otp.schema';
+import { shippingAddresses } from '../schemas/address.schema';
+import { carts } from '../schemas/cart.schema';
+import { orders, orderItems } from '../schemas/order.schema';
+import { productReviews } from '../schemas/review.schema';
+import { returnRequests, returnItems } from '../schemas/return.schema';
+import { emailChangeRequests } from '../schemas/profile.schema';
+
+// Everything stored about a user that belongs in their data export
+export async function getUserExportData(db: DB, userId: string) {
+  const [addresses, userOrders, reviews, returns, sessions] = await Promise.all([
+    db.select().from(shippingAddresses).where(eq(shippingAddresses.userId, userId)),
+    db.select().from(orders).where(eq(orders.userId, userId)).orderBy(asc(orders.createdAt)),
+    db.select().from(productReviews).where(eq(productReviews.userId, userId)),
+    db.select().from(returnRequests).where(eq(returnRequests.userId, userId)),
+    db.select().from(auths).where(eq(auths.userId, userId)),
+  ]);
+
+  const orderIds = userOrders.map((order) => order.id);
+  const returnIds = returns.map((returnRequest) => returnRequest.id);
+  const deviceIds = Array.from(new Set(sessions.map((session) => session.deviceId)));
+
+  const [items, returnedItems, userDevices] = await Promise.all([
+    orderIds.length > 0 ? db.select().from(orderItems).where(inArray(orderItems.orderId, orderIds)) : [],
+    returnIds.length > 0
+      ? db.select().from(returnItems).where(inArray(returnItems.returnRequestId, returnIds))
+      : [],
+    deviceIds.length > 0 ? db.select().from(devices).where(inArray(devices.id, deviceIds)) : [],
+  ]);
+
+  return {
+    addresses,
+    orders: userOrders.map((order) => ({
+      ...order,
+      items: items.filter((item) => item.orderId === order.id),
+    })),
+    reviews,
+    returns: returns.map((returnRequest) => ({
+      ...returnRequest,
+      items: returnedItems.filter((item) => item.returnRequestId === returnRequest.id),
+    })),
+    sessions,
+    devices: userDevices,
+  };
+}
+
+export async function scheduleAccountDeletion(db: DB, userId: string, scheduledFor: Date) {
+  const [user] = await db
+    .update(users)
+    .set({ deletionRequestedAt: new Date(), deletionScheduledFor: scheduledFor, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+    .returning();
+  return user || null;
+}
+
+export async function cancelAccountDeletion(db: DB, userId: string) {
+  const [user] = await db
+    .update(users)
+    .set({ deletionRequestedAt: null, deletionScheduledFor: null, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), isNull(users.deletedAt), isNotNull(users.deletionScheduledFor)))
+    .returning();
+  return user || null;
+}
+
+export async function listAccountsDueForDeletion(db: DB, now: Date = new Date(), limit: number = 50) {
+  return await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(and(isNull(users.deletedAt), lte(users.deletionScheduledFor, now)))
+    .orderBy(asc(users.deletionScheduledFor))
+    .limit(limit);
+}
+
+/**
+ * Orders and returns that still need the buyer: the account is kept until they are settled.
+ */
+export async function countOpenUserActivity(db: DBExecutor, userId: string) {
+  const [[openOrders], [openReturns]] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(orders)
+      .where(and(eq(orders.userId, userId), notInArray(orders.status, ['delivered', 'cancelled']))),
+    db
+      .select({ count: count() })
+      .from(returnRequests)
+      .where(
+        and(
+          eq(returnRequests.userId, userId),
+          inArray(returnRequests.status, ['requested', 'approved', 'received'])
+        )
+      ),
+  ]);
+
+  return { orders: openOrders?.count ?? 0, returns: openReturns?.count ?? 0 };
+}
+
+/**
+ * Strips a user's personal data while keeping the rows orders, returns and reviews point to,
+ * so order history and sales figures stay intact. The user row remains as an anonymous stub.
+ */
+export async function anonymizeUserAccount(db: DBExecutor, user: { id: string; email: string }) {
+  const orderAddressIds = db
+    .select({ id: orders.shippingAddressId })
+    .from(orders)
+    .where(eq(orders.userId, user.id));
+
+  // Addresses on orders are redacted down to what tax and shipping reports need
+  await db
+    .update(shippingAddresses)
+    .set({
+      fullName: 'Deleted user',
+      phoneNumber: '',
+      addressLine1: '',
+      addressLine2: null,
+      city: '',
+      isDefault: false,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(shippingAddresses.userId, user.id), inArray(shippingAddresses.id, orderAddressIds)));
+  await db
+    .delete(shippingAddresses)
+    .where(and(eq(shippingAddresses.userId, user.id), notInArray(shippingAddresses.id, orderAddressIds)));
+
+  await db.update(orders).set({ notes: null, updatedAt: new Date() }).where(eq(orders.userId, user.id));
+  await db
+    .update(returnRequests)
+    .set({ description: null, photos: null, updatedAt: new Date() })
+    .where(eq(returnRequests.userId, user.id));
+
+  await db.delete(carts).where(eq(carts.userId, user.id));
+  await db.delete(emailChangeRequests).where(eq(emailChangeRequests.userId, user.id));
+  await db.delete(otps).where(eq(otps.email, user.email));
+  // Refresh tokens go with their sessions
+  await db.delete(auths).where(eq(auths.userId, user.id));
+  await db.delete(userRole).where(eq(userRole.userId, user.id));
+
+  const [anonymized] = await db
+    .update(users)
+    .set({
+      email: `deleted-${user.id}@deleted.invalid`,
+      name: null,
+      phoneNumber: null,
+      avatarUrl: null,
+      isBanned: false,
+      bannedAt: null,
+      bannedUntil: null,
+      banReason: null,
+      deletionScheduledFor: null,
+      deletedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, user.id))
+    .returning();
+  return anonymized || null;
+}
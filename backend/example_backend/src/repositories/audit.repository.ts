@@ -0,0 +1,45 @@
+import { eq, and, desc, count } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
+import { adminAuditLogs } from '../schemas/audit.schema';
+import { PaginationParams, formatPaginatedResponse } from '../utils/pagination.utils';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createAdminAuditLog(db: DBExecutor, data: Omit<typeof adminAuditLogs.$inferInsert, 'id'>) {
+  const id = uuidv4();
+  const [entry] = await db
+    .insert(adminAuditLogs)
+    .values({
+      ...data,
+      id,
+    })
+    .returning();
+  return entry;
+}
+
+export async function listAdminAuditLogs(
+  db: DB,
+  target: { targetType: string; targetId: string },
+  pagination: PaginationParams
+) {
+  const whereClause = and(
+    eq(adminAuditLogs.targetType, target.targetType),
+    eq(adminAuditLogs.targetId, target.targetId)
+  );
+
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(adminAuditLogs)
+    .where(whereClause);
+
+  const total = totalResult?.count || 0;
+
+  const results = await db
+    .select()
+    .from(adminAuditLogs)
+    .where(whereClause)
+    .orderBy(desc(adminAuditLogs.createdAt))
+    .limit(pagination.limit)
+    .offset(pagination.offset);
+
+  return formatPaginatedResponse(results, total, pagination.page, pagination.limit);
+}
@@ -1,5 +1,8 @@
-import { eq, and } from 'drizzle-orm';
-import { auths } from '../schemas/auth.schema';
+import { eq, and, gt, sql, exists, isNull } from 'drizzle-orm';
+import { auths, refreshTokens } from '../schemas/auth.schema';
+import { users, userRole } from '../schemas/user.schema';
+import { devices } from '../schemas/device.schema';
+import { roles, rolePermissions } from '../schemas/role.schema';
 import type { DB } from '../utils/db.utils';
 
 export async function createAuthSession(
@@ -33,6 +36,55 @@ export async function findAuthById(db: DB, authId: string) {
 	});
 }
 
+/**
+ * Everything protectedProcedure needs about the caller, in a single round-trip: the user,
+ * the auth session the token is bound to, and the user's roles with their permission
+ * grants. Returns undefined when the user does not exist; `authId` is null when the
+ * session is gone.
+ * The ban fields are returned rather than checked so checkUserBanStatus can decide without
+ * another lookup; it only writes when clearing a timed ban that has run out.
+ */
+export async function findAuthContext(db: DB, userId: string, authId: string) {
+	const session = db
+		.select({ id: auths.id })
+		.from(auths)
+		.where(and(eq(auths.userId, users.id), eq(auths.id, authId), isNull(auths.loggedOutAt)))
+		.limit(1);
+
+	const rows = await db
+		.select({
+			user: {
+				id: users.id,
+				email: users.email,
+				name: users.name,
+				isBanned: users.isBanned,
+				bannedUntil: users.bannedUntil,
+			},
+			authId: sql<string | null>`(${session})`,
+			role: userRole.role,
+			permission: rolePermissions.permission,
+		})
+		.from(users)
+		.leftJoin(userRole, eq(userRole.userId, users.id))
+		.leftJoin(roles, eq(roles.name, userRole.role))
+		.leftJoin(rolePermissions, eq(rolePermissions.roleId, roles.id))
+		.where(eq(users.id, userId));
+
+	const [first] = rows;
+	if (!first) {
+		return undefined;
+	}
+
+	return {
+		user: first.user,
+		authId: first.authId,
+		roles: Array.from(new Set(rows.map((row) => row.role).filter((role): role is string => !!role))),
+		permissions: Array.from(
+			new Set(rows.map((row) => row.permission).filter((permission): permission is string => !!permission))
+		),
+	};
+}
+
 export async function findAuthByDeviceId(db: DB, deviceId: string) {
 	return db.query.auths.findFirst({
 		where: (auths, { eq }) => eq(auths.deviceId, deviceId),
@@ -65,6 +117,42 @@ export async function findAuthsByUserId(db: DB, userId: string) {
 	});
 }
 
+/**
+ * Sessions that can still be refreshed. Sessions whose refresh tokens all expired or were
+ * revoked (e.g. a trusted device after logout) do not hold a device slot.
+ */
+export async function findLiveAuthsByUserId(db: DB, userId: string) {
+	return db
+		.select()
+		.from(auths)
+		.where(
+			and(
+				eq(auths.userId, userId),
+				exists(
+					db
+						.select({ id: refreshTokens.id })
+						.from(refreshTokens)
+						.where(
+							and(
+								eq(refreshTokens.authId, auths.id),
+								eq(refreshTokens.status, 'active'),
+								gt(refreshTokens.expiresAt, new Date())
+							)
+						)
+				)
+			)
+		);
+}
+
+// The user's sessions with the device each one is on, for session listings
+export async function findAuthsWithDevicesByUserId(db: DB, userId: string) {
+	return db
+		.select({ session: auths, device: devices })
+		.from(auths)
+		.leftJoin(devices, eq(devices.id, auths.deviceId))
+		.where(eq(auths.userId, userId));
+}
+
 export async function markDeviceAsTrusted(db: DB, authId: string) {
 	await db.update(auths)
 		.set({
@@ -93,3 +181,57 @@ export async function findTrustedAuthByDeviceAndUser(db: DB, deviceId: string, u
 	});
 }
 
+export async function createRefreshToken(
+	db: DB,
+	id: string,
+	authId: string,
+	userId: string,
+	tokenHash: string,
+	expiresAt: Date
+) {
+	await db.insert(refreshTokens).values({
+		id,
+		authId,
+		userId,
+		tokenHash,
+		expiresAt,
+	});
+}
+
+export async function findRefreshTokenByHash(db: DB, tokenHash: string) {
+	return db.query.refreshTokens.findFirst({
+		where: (refreshTokens, { eq }) => eq(refreshTokens.tokenHash, tokenHash),
+	});
+}
+
+/**
+ * Marks an active token as rotated. Returns undefined when the token was already
+ * rotated or revoked, which callers must treat as token reuse.
+ */
+export async function markRefreshTokenRotated(db: DB, tokenId: string) {
+	const [rotated] = await db.update(refreshTokens)
+		.set({
+			status: 'rotated',
+			rotatedAt: new Date(),
+		})
+		.where(and(eq(refreshTokens.id, tokenId), eq(refreshTokens.status, 'active')))
+		.returning({ id: refreshTokens.id });
+
+	return rotated;
+}
+
+export async function revokeRefreshTokensByAuthId(db: DB, authId: string) {
+	await db.update(refreshTokens)
+		.set({
+			status: 'revoked',
+		})
+		.where(eq(refreshTokens.authId, authId));
+}
+
+export async function markAuthLoggedOut(db: DB, authId: string) {
+	await db.update(auths)
+		.set({
+			loggedOutAt: new Date(),
+		})
+		.where(eq(auths.id, authId));
+}
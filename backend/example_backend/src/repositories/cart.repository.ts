@@ -1,5 +1,5 @@
-import { eq, and, lt } from 'drizzle-orm';
-import { DB } from '../utils/db.utils';
+import { eq, and, lt, inArray } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
 import { carts, cartItems, InsertCart, InsertCartItem } from '../schemas/cart.schema';
 import { products, productVariants } from '../schemas/product.schema';
 import { v4 as uuidv4 } from 'uuid';
@@ -112,10 +112,17 @@ export async function removeCartItem(db: DB, id: string) {
   return item || null;
 }
 
-export async function clearCart(db: DB, cartId: string) {
+export async function clearCart(db: DBExecutor, cartId: string) {
   await db.delete(cartItems).where(eq(cartItems.cartId, cartId));
 }
 
+export async function removeCartItems(db: DBExecutor, cartId: string, itemIds: string[]) {
+  if (itemIds.length === 0) {
+    return;
+  }
+  await db.delete(cartItems).where(and(eq(cartItems.cartId, cartId), inArray(cartItems.id, itemIds)));
+}
+
 export async function getCartWithItems(db: DB, cartId: string) {
   const cartResult = await db
     .select()
@@ -0,0 +1,55 @@
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import { DB } from '../utils/db.utils';
+import { exchangeRates } from '../schemas/currency.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  source?: string;
+}
+
+export async function upsertExchangeRates(db: DB, rates: ExchangeRateInput[]) {
+  if (rates.length === 0) {
+    return [];
+  }
+
+  return await db
+    .insert(exchangeRates)
+    .values(rates.map((rate) => ({ ...rate, id: uuidv4() })))
+    .onConflictDoUpdate({
+      target: [exchangeRates.baseCurrency, exchangeRates.quoteCurrency],
+      set: {
+        rate: sql`excluded.rate`,
+        source: sql`excluded.source`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+}
+
+export async function listExchangeRates(db: DB, baseCurrency?: string) {
+  return await db
+    .select()
+    .from(exchangeRates)
+    .where(baseCurrency ? eq(exchangeRates.baseCurrency, baseCurrency) : undefined)
+    .orderBy(asc(exchangeRates.baseCurrency), asc(exchangeRates.quoteCurrency));
+}
+
+// Rates from each of `baseCurrencies` into `quoteCurrency`
+export async function listExchangeRatesTo(db: DB, baseCurrencies: string[], quoteCurrency: string) {
+  if (baseCurrencies.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(exchangeRates)
+    .where(
+      and(
+        inArray(exchangeRates.baseCurrency, baseCurrencies),
+        eq(exchangeRates.quoteCurrency, quoteCurrency)
+      )
+    );
+}
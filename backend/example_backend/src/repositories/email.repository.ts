@@ -0,0 +1,29 @@
+import { eq, desc } from 'drizzle-orm';
+import { DB } from '../utils/db.utils';
+import { emailOutbox } from '../schemas/email.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createOutboxEmail(db: DB, data: Omit<typeof emailOutbox.$inferInsert, 'id'>) {
+  const id = uuidv4();
+  const [email] = await db
+    .insert(emailOutbox)
+    .values({
+      ...data,
+      id,
+    })
+    .returning();
+  return email;
+}
+
+export async function listOutboxEmails(db: DB, filters: { to?: string; limit: number }) {
+  return db
+    .select()
+    .from(emailOutbox)
+    .where(filters.to ? eq(emailOutbox.to, filters.to) : undefined)
+    .orderBy(desc(emailOutbox.createdAt))
+    .limit(filters.limit);
+}
+
+export async function clearOutboxEmails(db: DB, to?: string) {
+  await db.delete(emailOutbox).where(to ? eq(emailOutbox.to, to) : undefined);
+}
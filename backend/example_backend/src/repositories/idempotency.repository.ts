@@ -0,0 +1,91 @@
+import { eq, and, lt } from 'drizzle-orm';
+import { DB } from '../utils/db.utils';
+import { idempotencyKeys } from '../schemas/idempotency.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Inserts a new in-progress key. Returns null when the key already exists,
+ * which is how concurrent retries find out they lost the race.
+ */
+export async function createIdempotencyKey(
+  db: DB,
+  data: Omit<typeof idempotencyKeys.$inferInsert, 'id'>
+) {
+  const id = uuidv4();
+  const [record] = await db
+    .insert(idempotencyKeys)
+    .values({
+      ...data,
+      id,
+    })
+    .onConflictDoNothing()
+    .returning();
+  return record || null;
+}
+
+export async function findIdempotencyKey(
+  db: DB,
+  key: string,
+  scope: string,
+  subject: string
+) {
+  const [record] = await db
+    .select()
+    .from(idempotencyKeys)
+    .where(
+      and(
+        eq(idempotencyKeys.key, key),
+        eq(idempotencyKeys.scope, scope),
+        eq(idempotencyKeys.subject, subject)
+      )
+    )
+    .limit(1);
+  return record || null;
+}
+
+/**
+ * Takes over an in-progress key whose request has not finished by `staleBefore`,
+ * on the assumption that it died. Returns null when another retry took it over first.
+ */
+export async function reclaimIdempotencyKey(
+  db: DB,
+  id: string,
+  staleBefore: Date,
+  expiresAt: Date
+) {
+  const [record] = await db
+    .update(idempotencyKeys)
+    .set({ expiresAt, updatedAt: new Date() })
+    .where(
+      and(
+        eq(idempotencyKeys.id, id),
+        eq(idempotencyKeys.status, 'in_progress'),
+        lt(idempotencyKeys.updatedAt, staleBefore)
+      )
+    )
+    .returning();
+  return record || null;
+}
+
+export async function completeIdempotencyKey(
+  db: DB,
+  id: string,
+  response: unknown
+) {
+  await db
+    .update(idempotencyKeys)
+    .set({
+      status: 'completed',
+      response,
+      updatedAt: new Date(),
+    })
+    .where(eq(idempotencyKeys.id, id));
+}
+
+export async function deleteIdempotencyKey(db: DB, id: string) {
+  await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+}
+
+export async function cleanupExpiredIdempotencyKeys(db: DB) {
+  await db.delete(idempotencyKeys).where(lt(idempotencyKeys.expiresAt, new Date()));
+}
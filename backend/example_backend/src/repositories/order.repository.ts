@@ -1,23 +1,32 @@
-import { eq, and, gte, lte, count, desc } from 'drizzle-orm';
-import { DB } from '../utils/db.utils';
+import { eq, and, asc, gte, lte, count, desc, inArray, sql, SQL } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
 import {
   orders,
   orderItems,
   orderVendorTracking,
+  orderStatusHistory,
   InsertOrder,
   InsertOrderItem,
   InsertOrderVendorTracking,
+  InsertOrderStatusHistory,
 } from '../schemas/order.schema';
 import { products, productVariants } from '../schemas/product.schema';
 import { shippingAddresses } from '../schemas/address.schema';
 import { users } from '../schemas/user.schema';
+import { summarizeOrderTaxes } from '../utils/tax.utils';
 import {
   PaginationParams,
   formatPaginatedResponse,
+  formatCursorPaginatedResponse,
+  encodeCursor,
+  decodeCursor,
+  buildKeysetCondition,
+  getKeysetOrderBy,
+  timestampSortExpression,
 } from '../utils/pagination.utils';
 import { v4 as uuidv4 } from 'uuid';
 
-export async function createOrder(db: DB, data: Omit<InsertOrder, 'id'>) {
+export async function createOrder(db: DBExecutor, data: Omit<InsertOrder, 'id'>) {
   const id = uuidv4();
   const [order] = await db
     .insert(orders)
@@ -30,7 +39,7 @@ export async function createOrder(db: DB, data: Omit<InsertOrder, 'id'>) {
 }
 
 export async function createOrderItem(
-  db: DB,
+  db: DBExecutor,
   data: Omit<InsertOrderItem, 'id'>
 ) {
   const id = uuidv4();
@@ -45,7 +54,7 @@ export async function createOrderItem(
 }
 
 export async function createOrderVendorTracking(
-  db: DB,
+  db: DBExecutor,
   data: Omit<InsertOrderVendorTracking, 'id'>
 ) {
   const id = uuidv4();
@@ -94,6 +103,7 @@ export async function getOrderById(db: DB, id: string) {
     ...order,
     items,
     vendorTracking: tracking,
+    taxBreakdown: summarizeOrderTaxes(items.map(({ item }) => item)),
     shippingAddress: address,
   };
 }
@@ -107,11 +117,58 @@ export async function getOrderByOrderNumber(db: DB, orderNumber: string) {
   return order || null;
 }
 
+export async function getOrderByPaymentIntentId(db: DB, paymentIntentId: string) {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.paymentIntentId, paymentIntentId))
+    .limit(1);
+  return order || null;
+}
+
+// Newest first, with the id as tiebreaker so cursor pages are stable
+const orderSortExpression = timestampSortExpression(orders.createdAt);
+const orderListOrderBy = getKeysetOrderBy(orderSortExpression, orders.id, 'desc');
+
+function getOrderCursor(key: string) {
+  return (order: typeof orders.$inferSelect) =>
+    encodeCursor({ key, value: order.createdAt.toISOString(), id: order.id });
+}
+
+async function listOrdersAfterCursor(
+  db: DB,
+  conditions: SQL[],
+  pagination: PaginationParams & { cursor: string },
+  cursorKey: string
+) {
+  const cursor = decodeCursor(pagination.cursor, cursorKey);
+
+  const results = await db
+    .select()
+    .from(orders)
+    .where(and(...conditions, buildKeysetCondition(orderSortExpression, orders.id, cursor, 'desc')))
+    .orderBy(...orderListOrderBy)
+    .limit(pagination.limit + 1);
+
+  return formatCursorPaginatedResponse(results, pagination.limit, getOrderCursor(cursorKey));
+}
+
 export async function listUserOrders(
   db: DB,
   userId: string,
   pagination: PaginationParams
 ) {
+  const cursorKey = 'orders:user';
+
+  if (pagination.cursor) {
+    return listOrdersAfterCursor(
+      db,
+      [eq(orders.userId, userId)],
+      { ...pagination, cursor: pagination.cursor },
+      cursorKey
+    );
+  }
+
   const [totalResult] = await db
     .select({ count: count() })
     .from(orders)
@@ -123,7 +180,7 @@ export async function listUserOrders(
     .select()
     .from(orders)
     .where(eq(orders.userId, userId))
-    .orderBy(desc(orders.createdAt))
+    .orderBy(...orderListOrderBy)
     .limit(pagination.limit)
     .offset(pagination.offset);
 
@@ -131,7 +188,8 @@ export async function listUserOrders(
     results,
     total,
     pagination.page,
-    pagination.limit
+    pagination.limit,
+    getOrderCursor(cursorKey)
   );
 }
 
@@ -177,7 +235,8 @@ export async function listAllOrders(
   },
   pagination: PaginationParams
 ) {
-  const conditions = [];
+  const conditions: SQL[] = [];
+  const cursorKey = 'orders:all';
 
   if (filters.status) {
     conditions.push(eq(orders.status, filters.status));
@@ -195,6 +254,15 @@ export async function listAllOrders(
     conditions.push(lte(orders.createdAt, filters.endDate));
   }
 
+  if (pagination.cursor) {
+    return listOrdersAfterCursor(
+      db,
+      conditions,
+      { ...pagination, cursor: pagination.cursor },
+      cursorKey
+    );
+  }
+
   const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
   const [totalResult] = await db
@@ -208,7 +276,7 @@ export async function listAllOrders(
     .select()
     .from(orders)
     .where(whereClause)
-    .orderBy(desc(orders.createdAt))
+    .orderBy(...orderListOrderBy)
     .limit(pagination.limit)
     .offset(pagination.offset);
 
@@ -216,25 +284,43 @@ export async function listAllOrders(
     results,
     total,
     pagination.page,
-    pagination.limit
+    pagination.limit,
+    getOrderCursor(cursorKey)
   );
 }
 
+/**
+ * Status updates take the status the caller validated the transition from, so a concurrent
+ * change makes the update match nothing instead of being overwritten.
+ */
 export async function updateOrderStatus(
-  db: DB,
+  db: DBExecutor,
   id: string,
-  status: string
+  status: string,
+  expectedStatus: string
 ) {
   const [order] = await db
     .update(orders)
     .set({ status, updatedAt: new Date() })
+    .where(and(eq(orders.id, id), eq(orders.status, expectedStatus)))
+    .returning();
+  return order || null;
+}
+
+export async function addOrderCancelledAmount(db: DBExecutor, id: string, amount: string) {
+  const [order] = await db
+    .update(orders)
+    .set({
+      cancelledAmount: sql`${orders.cancelledAmount} + ${amount}`,
+      updatedAt: new Date(),
+    })
     .where(eq(orders.id, id))
     .returning();
   return order || null;
 }
 
 export async function updateOrderPaymentStatus(
-  db: DB,
+  db: DBExecutor,
   id: string,
   paymentStatus: string,
   paymentIntentId?: string
@@ -252,18 +338,27 @@ export async function updateOrderPaymentStatus(
 }
 
 export async function updateVendorOrderStatus(
-  db: DB,
+  db: DBExecutor,
   orderId: string,
   vendorId: string,
-  status: string
+  status: string,
+  expectedStatus: string,
+  trackingNumber?: string
 ) {
   const [tracking] = await db
     .update(orderVendorTracking)
-    .set({ status, updatedAt: new Date() })
+    .set({
+      status,
+      trackingNumber,
+      ...(status === 'shipped' ? { shippedAt: new Date() } : {}),
+      ...(status === 'delivered' ? { deliveredAt: new Date() } : {}),
+      updatedAt: new Date(),
+    })
     .where(
       and(
         eq(orderVendorTracking.orderId, orderId),
-        eq(orderVendorTracking.vendorId, vendorId)
+        eq(orderVendorTracking.vendorId, vendorId),
+        eq(orderVendorTracking.status, expectedStatus)
       )
     )
     .returning();
@@ -280,8 +375,6 @@ export async function addTrackingNumber(
     .update(orderVendorTracking)
     .set({
       trackingNumber,
-      shippedAt: new Date(),
-      status: 'shipped',
       updatedAt: new Date(),
     })
     .where(
@@ -294,11 +387,66 @@ export async function addTrackingNumber(
   return tracking || null;
 }
 
-export async function getOrderItems(db: DB, orderId: string) {
+export async function updateOrderItemStatus(
+  db: DBExecutor,
+  id: string,
+  status: string,
+  expectedStatus: string
+) {
+  const [item] = await db
+    .update(orderItems)
+    .set({ status, updatedAt: new Date() })
+    .where(and(eq(orderItems.id, id), eq(orderItems.status, expectedStatus)))
+    .returning();
+  return item || null;
+}
+
+export async function createOrderStatusHistory(
+  db: DBExecutor,
+  data: Omit<InsertOrderStatusHistory, 'id'>
+) {
+  const id = uuidv4();
+  const [entry] = await db
+    .insert(orderStatusHistory)
+    .values({
+      ...data,
+      id,
+    } as InsertOrderStatusHistory)
+    .returning();
+  return entry;
+}
+
+export async function listOrderStatusHistory(db: DB, orderId: string) {
+  return await db
+    .select()
+    .from(orderStatusHistory)
+    .where(eq(orderStatusHistory.orderId, orderId))
+    .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+}
+
+export async function getOrderItems(db: DBExecutor, orderId: string, vendorId?: string) {
+  return await db
+    .select()
+    .from(orderItems)
+    .where(
+      and(
+        eq(orderItems.orderId, orderId),
+        vendorId ? eq(orderItems.vendorId, vendorId) : undefined
+      )
+    );
+}
+
+export async function lockOrderItemsForUpdate(db: DBExecutor, ids: string[]) {
+  if (ids.length === 0) {
+    return [];
+  }
+
   return await db
     .select()
     .from(orderItems)
-    .where(eq(orderItems.orderId, orderId));
+    .where(inArray(orderItems.id, ids))
+    .orderBy(orderItems.id)
+    .for('update');
 }
 
 export async function getVendorOrderTracking(
@@ -1,5 +1,5 @@
-import { eq, and } from 'drizzle-orm';
-import { otps } from '../schemas/otp.schema';
+import { eq, and, lt, sql, inArray } from 'drizzle-orm';
+import { otps, otpLockouts } from '../schemas/otp.schema';
 import type { DB } from '../utils/db.utils';
 
 export async function findOtpByDeviceAndEmail(db: DB, deviceId: string, email: string) {
@@ -18,18 +18,86 @@ export async function createOtp(db: DB, id: string, otp: number, email: string,
 	});
 }
 
-export async function updateOtp(db: DB, id: string, otp: number, expiredAt: Date) {
+export async function findLatestOtpByEmail(db: DB, email: string) {
+	return db.query.otps.findFirst({
+		where: (otps, { eq }) => eq(otps.email, email),
+		orderBy: (otps, { desc }) => [desc(otps.lastSentAt)],
+	});
+}
+
+export async function findLatestOtpByDevice(db: DB, deviceId: string) {
+	return db.query.otps.findFirst({
+		where: (otps, { eq }) => eq(otps.deviceUuId, deviceId),
+		orderBy: (otps, { desc }) => [desc(otps.lastSentAt)],
+	});
+}
+
+/**
+ * Re-sends an OTP row. A new code starts with a fresh attempt counter,
+ * while re-sending the same code keeps the failures it has already accumulated.
+ */
+export async function updateOtp(db: DB, id: string, otp: number, expiredAt: Date, resetAttempts: boolean) {
 	await db.update(otps)
 		.set({
 			otp,
 			expiredAt,
+			lastSentAt: new Date(),
+			...(resetAttempts ? { attempts: 0 } : {}),
 		})
 		.where(eq(otps.id, id));
 }
 
+/**
+ * Atomically uses up one verification attempt. Returns null once the OTP has no attempts left.
+ */
+export async function consumeOtpAttempt(db: DB, id: string, maxAttempts: number) {
+	const [updated] = await db.update(otps)
+		.set({
+			attempts: sql`${otps.attempts} + 1`,
+		})
+		.where(and(eq(otps.id, id), lt(otps.attempts, maxAttempts)))
+		.returning();
+
+	return updated || null;
+}
+
 export async function deleteOtpByDeviceAndEmail(db: DB, deviceId: string, email: string) {
 	await db.delete(otps).where(
 		and(eq(otps.deviceUuId, deviceId), eq(otps.email, email))
 	);
 }
 
+export async function findOtpLockouts(db: DB, keys: string[]) {
+	return db.select().from(otpLockouts).where(inArray(otpLockouts.key, keys));
+}
+
+/**
+ * Counts one failed verification for `key`. Failures from before `windowStart` are
+ * forgotten, so the count starts over once the window has passed.
+ */
+export async function incrementOtpFailures(db: DB, key: string, windowStart: Date, now: Date) {
+	const expired = sql`${otpLockouts.windowStartedAt} < ${windowStart.toISOString()}`;
+	const [lockout] = await db.insert(otpLockouts)
+		.values({ key, failures: 1, windowStartedAt: now })
+		.onConflictDoUpdate({
+			target: otpLockouts.key,
+			set: {
+				failures: sql`case when ${expired} then 1 else ${otpLockouts.failures} + 1 end`,
+				windowStartedAt: sql`case when ${expired} then ${now.toISOString()}::timestamp else ${otpLockouts.windowStartedAt} end`,
+				updatedAt: now,
+			},
+		})
+		.returning();
+
+	return lockout;
+}
+
+export async function lockOtpKey(db: DB, key: string, lockedUntil: Date) {
+	await db.update(otpLockouts)
+		.set({ lockedUntil, updatedAt: new Date() })
+		.where(eq(otpLockouts.key, key));
+}
+
+export async function deleteOtpLockouts(db: DB, keys: string[]) {
+	await db.delete(otpLockouts).where(inArray(otpLockouts.key, keys));
+}
@@ -0,0 +1,190 @@
+import { eq, and, or, lt, gte, sum, sql } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
+import {
+  fakePaymentIntents,
+  paymentEvents,
+  refunds,
+} from '../schemas/payment.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function recordPaymentEvent(
+  db: DB,
+  data: Omit<typeof paymentEvents.$inferInsert, 'id'>
+) {
+  const id = uuidv4();
+  const [event] = await db
+    .insert(paymentEvents)
+    .values({
+      ...data,
+      id,
+    })
+    .onConflictDoNothing({ target: paymentEvents.eventId })
+    .returning();
+  return event || null;
+}
+
+export async function getPaymentEvent(db: DB, eventId: string) {
+  const [event] = await db.select().from(paymentEvents).where(eq(paymentEvents.eventId, eventId));
+  return event || null;
+}
+
+/**
+ * Atomically moves an event from `received` to `processing`. A `processing` claim last
+ * touched before `staleBefore` is taken over, since the delivery holding it died mid-way.
+ * Returns null when another delivery holds a live claim or already finished the event.
+ */
+export async function claimPaymentEvent(db: DB, eventId: string, staleBefore: Date) {
+  const [event] = await db
+    .update(paymentEvents)
+    .set({ status: 'processing', updatedAt: new Date() })
+    .where(
+      and(
+        eq(paymentEvents.eventId, eventId),
+        or(
+          eq(paymentEvents.status, 'received'),
+          and(eq(paymentEvents.status, 'processing'), lt(paymentEvents.updatedAt, staleBefore))
+        )
+      )
+    )
+    .returning();
+  return event || null;
+}
+
+export async function completePaymentEvent(
+  db: DB,
+  eventId: string,
+  status: 'processed' | 'ignored',
+  orderId?: string | null
+) {
+  await db
+    .update(paymentEvents)
+    .set({
+      status,
+      orderId: orderId ?? null,
+      processedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(paymentEvents.eventId, eventId));
+}
+
+export async function releasePaymentEvent(db: DB, eventId: string) {
+  await db
+    .update(paymentEvents)
+    .set({ status: 'received', updatedAt: new Date() })
+    .where(eq(paymentEvents.eventId, eventId));
+}
+
+export async function createRefund(db: DBExecutor, data: Omit<typeof refunds.$inferInsert, 'id'>) {
+  const id = uuidv4();
+  const [refund] = await db
+    .insert(refunds)
+    .values({
+      ...data,
+      id,
+    })
+    .returning();
+  return refund;
+}
+
+export async function updateRefund(
+  db: DB,
+  id: string,
+  data: { status: 'succeeded' | 'failed' | 'pending'; providerRefundId?: string; failureReason?: string | null }
+) {
+  const [refund] = await db
+    .update(refunds)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(refunds.id, id))
+    .returning();
+  return refund || null;
+}
+
+export async function getRefundById(db: DB, id: string) {
+  const [refund] = await db.select().from(refunds).where(eq(refunds.id, id)).limit(1);
+  return refund || null;
+}
+
+export async function listFailedRefunds(db: DB, createdSince: Date) {
+  return await db
+    .select()
+    .from(refunds)
+    .where(and(eq(refunds.status, 'failed'), gte(refunds.createdAt, createdSince)));
+}
+
+// Moves a failed refund back to pending, so only one retry sends it to the provider
+export async function claimFailedRefund(db: DB, id: string) {
+  const [refund] = await db
+    .update(refunds)
+    .set({ status: 'pending', failureReason: null, updatedAt: new Date() })
+    .where(and(eq(refunds.id, id), eq(refunds.status, 'failed')))
+    .returning();
+  return refund || null;
+}
+
+export async function listOrderRefunds(db: DB, orderId: string) {
+  return await db
+    .select()
+    .from(refunds)
+    .where(eq(refunds.orderId, orderId));
+}
+
+export async function getSucceededRefundTotal(db: DB, orderId: string) {
+  const [result] = await db
+    .select({ total: sum(refunds.amount) })
+    .from(refunds)
+    .where(and(eq(refunds.orderId, orderId), eq(refunds.status, 'succeeded')));
+  return result?.total ?? '0';
+}
+
+export async function createFakePaymentIntent(db: DB, data: typeof fakePaymentIntents.$inferInsert) {
+  const [intent] = await db
+    .insert(fakePaymentIntents)
+    .values(data)
+    .onConflictDoNothing({ target: fakePaymentIntents.idempotencyKey })
+    .returning();
+  return intent || null;
+}
+
+export async function getFakePaymentIntent(db: DB, id: string) {
+  const [intent] = await db.select().from(fakePaymentIntents).where(eq(fakePaymentIntents.id, id));
+  return intent || null;
+}
+
+export async function getFakePaymentIntentByIdempotencyKey(db: DB, idempotencyKey: string) {
+  const [intent] = await db
+    .select()
+    .from(fakePaymentIntents)
+    .where(eq(fakePaymentIntents.idempotencyKey, idempotencyKey));
+  return intent || null;
+}
+
+export async function updateFakePaymentIntentStatus(db: DB, id: string, fromStatus: string, status: string) {
+  const [intent] = await db
+    .update(fakePaymentIntents)
+    .set({ status, updatedAt: new Date() })
+    .where(and(eq(fakePaymentIntents.id, id), eq(fakePaymentIntents.status, fromStatus)))
+    .returning();
+  return intent || null;
+}
+
+/**
+ * Adds a refund to a succeeded fake intent unless it would refund more than was charged.
+ * Returns null when the refund is not possible.
+ */
+export async function refundFakePaymentIntent(db: DB, id: string, amount: number) {
+  const [intent] = await db
+    .update(fakePaymentIntents)
+    .set({
+      refundedAmount: sql`${fakePaymentIntents.refundedAmount} + ${amount}`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(fakePaymentIntents.id, id),
+        eq(fakePaymentIntents.status, 'succeeded'),
+        sql`${fakePaymentIntents.refundedAmount} + ${amount} <= ${fakePaymentIntents.amount}`
+      )
+    )
+    .returning();
+  return intent || null;
+}
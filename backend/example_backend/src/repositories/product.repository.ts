@@ -1,5 +1,5 @@
-import { eq, and, count, sql, inArray } from 'drizzle-orm';
-import { DB } from '../utils/db.utils';
+import { eq, and, count, desc, sql, inArray, getTableColumns } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
 import {
   products,
   productVariants,
@@ -13,15 +13,29 @@ import {
 import {
   PaginationParams,
   formatPaginatedResponse,
+  formatCursorPaginatedResponse,
+  encodeCursor,
+  decodeCursor,
+  buildKeysetCondition,
+  getKeysetOrderBy,
 } from '../utils/pagination.utils';
 import {
   buildProductSearchConditions,
-  getProductSortColumn,
+  getProductSortKey,
+  getProductRelevanceExpression,
+  getProductHighlightExpression,
+  PRODUCT_PRICE_BUCKETS,
+  ProductFacets,
   ProductFilters,
   ProductSearch,
+  ProductSortRow,
 } from '../utils/search.utils';
+import { categories } from '../schemas/category.schema';
+import { vendors } from '../schemas/vendor.schema';
 import { v4 as uuidv4 } from 'uuid';
 
+const MAX_TAG_FACETS = 20;
+
 export async function createProduct(
   db: DB,
   data: Omit<InsertProduct, 'id'>
@@ -100,6 +114,9 @@ export async function deleteProduct(db: DB, id: string) {
   return product || null;
 }
 
+// Everything except the generated search vector, which is only used for matching
+const { searchVector: _searchVector, ...productListColumns } = getTableColumns(products);
+
 export async function listProducts(
   db: DB,
   filters: ProductFilters,
@@ -107,6 +124,50 @@ export async function listProducts(
   pagination: PaginationParams
 ) {
   const conditions = buildProductSearchConditions(filters, search.search);
+  const sortKey = getProductSortKey(search.sortBy, search.search);
+  const cursorKey = `products:${search.sortBy}:${search.sortOrder}:${search.search ?? ''}`;
+  const orderBy = getKeysetOrderBy(sortKey.expression, products.id, search.sortOrder);
+  const getCursor = (product: ProductSortRow & { id: string }) =>
+    encodeCursor({ key: cursorKey, value: sortKey.getValue(product), id: product.id });
+
+  const columns = search.search
+    ? {
+        ...productListColumns,
+        relevance: getProductRelevanceExpression(search.search),
+        highlight: getProductHighlightExpression(search.search),
+      }
+    : productListColumns;
+
+  // Fetch images for all products in parallel
+  const withImages = <T extends { id: string }>(fetchedProducts: T[]) =>
+    Promise.all(
+      fetchedProducts.map(async (product) => {
+        const images = await getProductImages(db, product.id);
+        return {
+          ...product,
+          images,
+        };
+      })
+    );
+
+  if (pagination.cursor) {
+    const cursor = decodeCursor(pagination.cursor, cursorKey);
+    conditions.push(buildKeysetCondition(sortKey.expression, products.id, cursor, search.sortOrder));
+
+    const fetchedProducts = await db
+      .select(columns)
+      .from(products)
+      .where(and(...conditions))
+      .orderBy(...orderBy)
+      .limit(pagination.limit + 1);
+
+    return formatCursorPaginatedResponse(
+      await withImages(fetchedProducts),
+      pagination.limit,
+      getCursor
+    );
+  }
+
   const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
   const [totalResult] = await db
@@ -116,35 +177,93 @@ export async function listProducts(
 
   const total = totalResult?.count || 0;
 
-  const sortColumn = getProductSortColumn(search.sortBy, search.sortOrder);
-
   const fetchedProducts = await db
-    .select()
+    .select(columns)
     .from(products)
     .where(whereClause)
-    .orderBy(sortColumn)
+    .orderBy(...orderBy)
     .limit(pagination.limit)
     .offset(pagination.offset);
 
-  // Fetch images for all products in parallel
-  const productsWithImages = await Promise.all(
-    fetchedProducts.map(async (product) => {
-      const images = await getProductImages(db, product.id);
-      return {
-        ...product,
-        images,
-      };
-    })
-  );
-
   return formatPaginatedResponse(
-    productsWithImages,
+    await withImages(fetchedProducts),
     total,
     pagination.page,
-    pagination.limit
+    pagination.limit,
+    getCursor
   );
 }
 
+/**
+ * Counts for the product filter UI. Each facet ignores its own filter,
+ * so picking one category still shows how many products the other categories have.
+ */
+export async function getProductFacets(
+  db: DB,
+  filters: ProductFilters,
+  search: ProductSearch
+): Promise<ProductFacets> {
+  const whereWithout = (exclude: Partial<ProductFilters>) => {
+    const conditions = buildProductSearchConditions({ ...filters, ...exclude }, search.search);
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  };
+
+  const [categoryRows, vendorRows, priceRows, tagRows] = await Promise.all([
+    db
+      .select({ value: products.categoryId, label: categories.name, count: count() })
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .where(whereWithout({ categoryId: undefined }))
+      .groupBy(products.categoryId, categories.name)
+      .orderBy(desc(count())),
+    db
+      .select({ value: products.vendorId, label: vendors.businessName, count: count() })
+      .from(products)
+      .leftJoin(vendors, eq(products.vendorId, vendors.id))
+      .where(whereWithout({ vendorId: undefined }))
+      .groupBy(products.vendorId, vendors.businessName)
+      .orderBy(desc(count())),
+    db
+      .select({
+        currency: products.currency,
+        counts: sql<Record<string, number>>`json_build_object(${sql.join(
+          PRODUCT_PRICE_BUCKETS.map((bucket) =>
+            bucket.max === null
+              ? sql`${bucket.key}::text, count(*) filter (where ${products.basePrice} >= ${bucket.min})`
+              : sql`${bucket.key}::text, count(*) filter (where ${products.basePrice} >= ${bucket.min} and ${products.basePrice} < ${bucket.max})`
+          ),
+          sql`, `
+        )})`,
+      })
+      .from(products)
+      .where(whereWithout({ minPrice: undefined, maxPrice: undefined }))
+      .groupBy(products.currency)
+      .orderBy(products.currency),
+    db
+      .select({ value: sql<string>`tag`, count: sql<number>`count(*)::int` })
+      .from(sql`${products}, unnest(${products.tags}) AS tag`)
+      .where(whereWithout({ tags: undefined }))
+      .groupBy(sql`tag`)
+      .orderBy(sql`count(*) desc`)
+      .limit(MAX_TAG_FACETS),
+  ]);
+
+  return {
+    categories: categoryRows
+      .filter((row) => row.value !== null)
+      .map((row) => ({ value: row.value as string, label: row.label, count: row.count })),
+    vendors: vendorRows.map((row) => ({ value: row.value, label: row.label, count: row.count })),
+    priceBuckets: priceRows.flatMap((row) =>
+      PRODUCT_PRICE_BUCKETS.map((bucket) => ({
+        currency: row.currency,
+        ...bucket,
+        count: Number(row.counts[bucket.key] ?? 0),
+      }))
+    ),
+    tags: tagRows.map((row) => ({ value: row.value, label: row.value, count: row.count })),
+  };
+}
+
 export async function createVariant(
   db: DB,
   data: Omit<InsertProductVariant, 'id'>
@@ -179,10 +298,12 @@ export async function getVariantsBySKU(db: DB, sku: string) {
 }
 
 export async function getProductVariants(db: DB, productId: string) {
-  return await db
+  const variants = await db
     .select()
     .from(productVariants)
     .where(eq(productVariants.productId, productId));
+
+  return variants.map((variant) => ({ ...variant, availableQuantity: getAvailableQuantity(variant) }));
 }
 
 export async function updateVariant(
@@ -199,7 +320,7 @@ export async function updateVariant(
 }
 
 export async function updateInventory(
-  db: DB,
+  db: DBExecutor,
   variantId: string,
   quantity: number
 ) {
@@ -214,8 +335,13 @@ export async function updateInventory(
   return variant || null;
 }
 
+// Stock held by checkout reservations cannot be sold again
+export function getAvailableQuantity(variant: { inventoryQuantity: number; reservedQuantity: number }): number {
+  return Math.max(variant.inventoryQuantity - variant.reservedQuantity, 0);
+}
+
 export async function checkStock(
-  db: DB,
+  db: DBExecutor,
   variantId: string,
   requiredQuantity: number
 ): Promise<boolean> {
@@ -225,7 +351,65 @@ export async function checkStock(
     .where(eq(productVariants.id, variantId))
     .limit(1);
 
-  return variant ? variant.inventoryQuantity >= requiredQuantity : false;
+  return variant ? getAvailableQuantity(variant) >= requiredQuantity : false;
+}
+
+/**
+ * Moves `quantity` units of a variant in or out of its reserved stock. Reserving does not
+ * change inventoryQuantity; see commitReservedInventory for when a reservation is paid for.
+ */
+export async function updateReservedInventory(
+  db: DBExecutor,
+  variantId: string,
+  quantity: number
+) {
+  const [variant] = await db
+    .update(productVariants)
+    .set({
+      reservedQuantity: sql`greatest(${productVariants.reservedQuantity} + ${quantity}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(productVariants.id, variantId))
+    .returning();
+  return variant || null;
+}
+
+// Reserved units were sold: they leave both the reserved and the on-hand stock
+export async function commitReservedInventory(
+  db: DBExecutor,
+  variantId: string,
+  quantity: number
+) {
+  const [variant] = await db
+    .update(productVariants)
+    .set({
+      inventoryQuantity: sql`${productVariants.inventoryQuantity} - ${quantity}`,
+      reservedQuantity: sql`greatest(${productVariants.reservedQuantity} - ${quantity}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(productVariants.id, variantId))
+    .returning();
+  return variant || null;
+}
+
+/**
+ * Takes row locks on the given variants until the surrounding transaction ends.
+ * Rows are locked in id order so concurrent checkouts cannot deadlock each other.
+ */
+export async function lockVariantsForUpdate(
+  db: DBExecutor,
+  variantIds: string[]
+) {
+  if (variantIds.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(productVariants)
+    .where(inArray(productVariants.id, variantIds))
+    .orderBy(productVariants.id)
+    .for('update');
 }
 
 export async function addProductImage(
@@ -1,10 +1,12 @@
 import { eq, and, gte, lte, count, sql } from 'drizzle-orm';
-import { DB } from '../utils/db.utils';
+import { DB, DBExecutor } from '../utils/db.utils';
 import { promoCodes, InsertPromoCode, SelectPromoCode } from '../schemas/promo.schema';
+import { promoRedemptions } from '../schemas/redemption.schema';
 import {
   PaginationParams,
   formatPaginatedResponse,
 } from '../utils/pagination.utils';
+import { compareMoney, formatMoneyWithCurrency, parseMoney } from '../utils/money.utils';
 import { v4 as uuidv4 } from 'uuid';
 
 export async function createPromoCode(
@@ -71,11 +73,12 @@ export async function validatePromoCode(
   }
 
   if (promoCode.minOrderValue) {
-    const minValue = parseFloat(promoCode.minOrderValue);
-    if (orderValue < minValue) {
+    // orderValue is taken to be in the code's currency
+    const minValue = parseMoney(promoCode.minOrderValue, promoCode.currency);
+    if (compareMoney(parseMoney(orderValue, promoCode.currency), minValue) < 0) {
       return {
         valid: false,
-        error: `Minimum order value of $${minValue.toFixed(2)} required`,
+        error: `Minimum order value of ${formatMoneyWithCurrency(minValue)} required`,
       };
     }
   }
@@ -107,7 +110,109 @@ export async function validatePromoCode(
   return { valid: true, promoCode };
 }
 
-export async function usePromoCode(db: DB, id: string) {
+export async function lockPromoCodeForUpdate(db: DBExecutor, id: string) {
+  const [promoCode] = await db
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.id, id))
+    .limit(1)
+    .for('update');
+  return promoCode || null;
+}
+
+export async function countActivePromoRedemptions(
+  db: DBExecutor,
+  promoCodeId: string,
+  userId: string
+) {
+  const [result] = await db
+    .select({ count: count() })
+    .from(promoRedemptions)
+    .where(
+      and(
+        eq(promoRedemptions.promoCodeId, promoCodeId),
+        eq(promoRedemptions.userId, userId),
+        eq(promoRedemptions.status, 'active')
+      )
+    );
+  return result?.count || 0;
+}
+
+/**
+ * Checks the code's usage limits against the redemption ledger.
+ * Returns why the user cannot redeem the code, or null if they can.
+ */
+export async function getPromoCodeLimitError(
+  db: DBExecutor,
+  promoCode: SelectPromoCode,
+  userId: string
+): Promise<string | null> {
+  if (promoCode.usageLimit && promoCode.usedCount >= promoCode.usageLimit) {
+    return 'Promo code usage limit reached';
+  }
+
+  if (promoCode.perUserLimit) {
+    const userRedemptions = await countActivePromoRedemptions(db, promoCode.id, userId);
+    if (userRedemptions >= promoCode.perUserLimit) {
+      return 'You have already used this promo code';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Records a redemption and counts it against the code's usage limits.
+ * Locks the promo code row, so concurrent checkouts redeem one after another.
+ * Returns an error message instead of redeeming when a limit is reached.
+ */
+export async function redeemPromoCode(
+  db: DBExecutor,
+  data: { promoCodeId: string; userId: string; orderId: string; discountAmount: string }
+): Promise<{ redeemed: true } | { redeemed: false; error: string }> {
+  const promoCode = await lockPromoCodeForUpdate(db, data.promoCodeId);
+  if (!promoCode) {
+    return { redeemed: false, error: 'Promo code not found' };
+  }
+
+  const limitError = await getPromoCodeLimitError(db, promoCode, data.userId);
+  if (limitError) {
+    return { redeemed: false, error: limitError };
+  }
+
+  await db.insert(promoRedemptions).values({
+    id: uuidv4(),
+    ...data,
+  });
+  await usePromoCode(db, promoCode.id);
+
+  return { redeemed: true };
+}
+
+/**
+ * Gives the codes used by an order back. Safe to call more than once.
+ */
+export async function releasePromoRedemptions(db: DBExecutor, orderId: string) {
+  const released = await db
+    .update(promoRedemptions)
+    .set({ status: 'released', releasedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(promoRedemptions.orderId, orderId), eq(promoRedemptions.status, 'active')))
+    .returning({ promoCodeId: promoRedemptions.promoCodeId });
+
+  for (const redemption of released) {
+    await db
+      .update(promoCodes)
+      .set({
+        usedCount: sql`greatest(${promoCodes.usedCount} - 1, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(promoCodes.id, redemption.promoCodeId));
+  }
+
+  return released.length;
+}
+
+export async function usePromoCode(db: DBExecutor, id: string) {
   const [promoCode] = await db
     .update(promoCodes)
     .set({
@@ -0,0 +1,85 @@
+import { eq, and, asc, lt } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
+import { inventoryReservations } from '../schemas/reservation.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createInventoryReservation(
+  db: DBExecutor,
+  data: Omit<typeof inventoryReservations.$inferInsert, 'id'>
+) {
+  const id = uuidv4();
+  const [reservation] = await db
+    .insert(inventoryReservations)
+    .values({
+      ...data,
+      id,
+    })
+    .returning();
+  return reservation;
+}
+
+export async function listActiveOrderReservations(db: DBExecutor, orderId: string) {
+  return await db
+    .select()
+    .from(inventoryReservations)
+    .where(
+      and(
+        eq(inventoryReservations.orderId, orderId),
+        eq(inventoryReservations.status, 'active')
+      )
+    );
+}
+
+export async function getActiveOrderItemReservation(db: DBExecutor, orderItemId: string) {
+  const [reservation] = await db
+    .select()
+    .from(inventoryReservations)
+    .where(
+      and(
+        eq(inventoryReservations.orderItemId, orderItemId),
+        eq(inventoryReservations.status, 'active')
+      )
+    )
+    .limit(1);
+  return reservation || null;
+}
+
+export async function listExpiredReservations(db: DB, now: Date = new Date(), limit: number = 100) {
+  return await db
+    .select()
+    .from(inventoryReservations)
+    .where(
+      and(
+        eq(inventoryReservations.status, 'active'),
+        lt(inventoryReservations.expiresAt, now)
+      )
+    )
+    .orderBy(asc(inventoryReservations.expiresAt))
+    .limit(limit);
+}
+
+/**
+ * Ends an active reservation. Returns null when it was already converted or released,
+ * so the stock it held is only given back once.
+ */
+export async function closeReservation(
+  db: DBExecutor,
+  id: string,
+  status: 'converted' | 'released'
+) {
+  const [reservation] = await db
+    .update(inventoryReservations)
+    .set({
+      status,
+      ...(status === 'converted' ? { convertedAt: new Date() } : { releasedAt: new Date() }),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(inventoryReservations.id, id),
+        eq(inventoryReservations.status, 'active')
+      )
+    )
+    .returning();
+  return reservation || null;
+}
@@ -0,0 +1,165 @@
+import { eq, and, desc, count, inArray, notInArray, sum, SQL } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
+import { returnRequests, returnItems } from '../schemas/return.schema';
+import { orderItems } from '../schemas/order.schema';
+import { PaginationParams, formatPaginatedResponse } from '../utils/pagination.utils';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createReturnRequest(db: DBExecutor, data: Omit<typeof returnRequests.$inferInsert, 'id'>) {
+  const id = uuidv4();
+  const [returnRequest] = await db
+    .insert(returnRequests)
+    .values({
+      ...data,
+      id,
+    })
+    .returning();
+  return returnRequest;
+}
+
+export async function createReturnItem(db: DBExecutor, data: Omit<typeof returnItems.$inferInsert, 'id'>) {
+  const id = uuidv4();
+  const [item] = await db
+    .insert(returnItems)
+    .values({
+      ...data,
+      id,
+    })
+    .returning();
+  return item;
+}
+
+export async function getReturnRequestById(db: DBExecutor, id: string) {
+  const [returnRequest] = await db
+    .select()
+    .from(returnRequests)
+    .where(eq(returnRequests.id, id))
+    .limit(1);
+
+  if (!returnRequest) return null;
+
+  const items = await db
+    .select({
+      item: returnItems,
+      orderItem: orderItems,
+    })
+    .from(returnItems)
+    .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+    .where(eq(returnItems.returnRequestId, id));
+
+  return {
+    ...returnRequest,
+    items: items.map(({ item, orderItem }) => ({ ...item, orderItem })),
+  };
+}
+
+async function listReturnRequests(db: DB, conditions: SQL[], pagination: PaginationParams) {
+  const whereClause = and(...conditions);
+
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(returnRequests)
+    .where(whereClause);
+
+  const total = totalResult?.count || 0;
+
+  const results = await db
+    .select()
+    .from(returnRequests)
+    .where(whereClause)
+    .orderBy(desc(returnRequests.createdAt))
+    .limit(pagination.limit)
+    .offset(pagination.offset);
+
+  return formatPaginatedResponse(results, total, pagination.page, pagination.limit);
+}
+
+export async function listUserReturnRequests(db: DB, userId: string, pagination: PaginationParams) {
+  return listReturnRequests(db, [eq(returnRequests.userId, userId)], pagination);
+}
+
+export async function listVendorReturnRequests(
+  db: DB,
+  vendorId: string,
+  filters: { status?: string },
+  pagination: PaginationParams
+) {
+  return listReturnRequests(
+    db,
+    [
+      eq(returnRequests.vendorId, vendorId),
+      ...(filters.status ? [eq(returnRequests.status, filters.status)] : []),
+    ],
+    pagination
+  );
+}
+
+/**
+ * Units of each order item already claimed by returns that are still open or completed.
+ * Rejected and cancelled returns free their units up again.
+ */
+export async function getReturnedQuantities(db: DBExecutor, orderItemIds: string[]) {
+  if (orderItemIds.length === 0) {
+    return new Map<string, number>();
+  }
+
+  const rows = await db
+    .select({
+      orderItemId: returnItems.orderItemId,
+      quantity: sum(returnItems.quantity).mapWith(Number),
+    })
+    .from(returnItems)
+    .innerJoin(returnRequests, eq(returnItems.returnRequestId, returnRequests.id))
+    .where(
+      and(
+        inArray(returnItems.orderItemId, orderItemIds),
+        notInArray(returnRequests.status, ['rejected', 'cancelled'])
+      )
+    )
+    .groupBy(returnItems.orderItemId);
+
+  return new Map(rows.map((row) => [row.orderItemId, row.quantity ?? 0]));
+}
+
+/**
+ * Updates a return only if it is still in `expectedStatus`, so concurrent decisions
+ * cannot both apply.
+ */
+export async function updateReturnRequest(
+  db: DBExecutor,
+  id: string,
+  expectedStatus: string,
+  data: Partial<{
+    status: string;
+    vendorNote: string | null;
+    refundId: string | null;
+    decidedAt: Date;
+    receivedAt: Date;
+  }>
+) {
+  const [returnRequest] = await db
+    .update(returnRequests)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(returnRequests.id, id), eq(returnRequests.status, expectedStatus)))
+    .returning();
+  return returnRequest || null;
+}
+
+// Marks the received return that a refund belongs to as refunded
+export async function markReturnRefunded(db: DB, refundId: string) {
+  const [returnRequest] = await db
+    .update(returnRequests)
+    .set({ status: 'refunded', updatedAt: new Date() })
+    .where(and(eq(returnRequests.refundId, refundId), eq(returnRequests.status, 'received')))
+    .returning();
+  return returnRequest || null;
+}
+
+export async function setReturnItemRestockedQuantity(db: DBExecutor, id: string, restockedQuantity: number) {
+  const [item] = await db
+    .update(returnItems)
+    .set({ restockedQuantity, updatedAt: new Date() })
+    .where(eq(returnItems.id, id))
+    .returning();
+  return item || null;
+}
@@ -4,6 +4,12 @@ import { productReviews, InsertProductReview } from '../schemas/review.schema';
 import {
   PaginationParams,
   formatPaginatedResponse,
+  formatCursorPaginatedResponse,
+  encodeCursor,
+  decodeCursor,
+  buildKeysetCondition,
+  getKeysetOrderBy,
+  timestampSortExpression,
 } from '../utils/pagination.utils';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -58,34 +64,54 @@ export async function deleteReview(db: DB, id: string, userId?: string) {
   return review || null;
 }
 
+// Newest first, with the id as tiebreaker so cursor pages are stable
+const reviewSortExpression = timestampSortExpression(productReviews.createdAt);
+
 export async function getProductReviews(
   db: DB,
   productId: string,
   pagination: PaginationParams,
   status: string = 'approved'
 ) {
+  const cursorKey = `reviews:${productId}:${status}`;
+  const getCursor = (review: typeof productReviews.$inferSelect) =>
+    encodeCursor({ key: cursorKey, value: review.createdAt.toISOString(), id: review.id });
+  const orderBy = getKeysetOrderBy(reviewSortExpression, productReviews.id, 'desc');
+  const conditions = [
+    eq(productReviews.productId, productId),
+    eq(productReviews.status, status),
+  ];
+
+  if (pagination.cursor) {
+    const cursor = decodeCursor(pagination.cursor, cursorKey);
+
+    const results = await db
+      .select()
+      .from(productReviews)
+      .where(
+        and(
+          ...conditions,
+          buildKeysetCondition(reviewSortExpression, productReviews.id, cursor, 'desc')
+        )
+      )
+      .orderBy(...orderBy)
+      .limit(pagination.limit + 1);
+
+    return formatCursorPaginatedResponse(results, pagination.limit, getCursor);
+  }
+
   const [totalResult] = await db
     .select({ count: count() })
     .from(productReviews)
-    .where(
-      and(
-        eq(productReviews.productId, productId),
-        eq(productReviews.status, status)
-      )
-    );
+    .where(and(...conditions));
 
   const total = totalResult?.count || 0;
 
   const results = await db
     .select()
     .from(productReviews)
-    .where(
-      and(
-        eq(productReviews.productId, productId),
-        eq(productReviews.status, status)
-      )
-    )
-    .orderBy(desc(productReviews.createdAt))
+    .where(and(...conditions))
+    .orderBy(...orderBy)
     .limit(pagination.limit)
     .offset(pagination.offset);
 
@@ -93,7 +119,8 @@ export async function getProductReviews(
     results,
     total,
     pagination.page,
-    pagination.limit
+    pagination.limit,
+    getCursor
   );
 }
 
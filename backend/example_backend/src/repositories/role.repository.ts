@@ -0,0 +1,129 @@
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { DB, DBExecutor } from '../utils/db.utils';
+import { roles, rolePermissions } from '../schemas/role.schema';
+import { userRole } from '../schemas/user.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createRole(
+  db: DBExecutor,
+  data: { name: string; description?: string | null }
+) {
+  const id = uuidv4();
+  const [role] = await db
+    .insert(roles)
+    .values({
+      ...data,
+      id,
+    })
+    .onConflictDoNothing({ target: roles.name })
+    .returning();
+  return role || null;
+}
+
+export async function getRoleById(db: DBExecutor, id: string) {
+  const [role] = await db.select().from(roles).where(eq(roles.id, id)).limit(1);
+
+  if (!role) return null;
+
+  const permissions = await db
+    .select({ permission: rolePermissions.permission })
+    .from(rolePermissions)
+    .where(eq(rolePermissions.roleId, id))
+    .orderBy(asc(rolePermissions.permission));
+
+  return { ...role, permissions: permissions.map((row) => row.permission) };
+}
+
+export async function getRoleByName(db: DBExecutor, name: string) {
+  const [role] = await db.select().from(roles).where(eq(roles.name, name)).limit(1);
+  return role || null;
+}
+
+export async function listRoles(db: DB) {
+  const allRoles = await db.select().from(roles).orderBy(asc(roles.name));
+  const grants = await db.select().from(rolePermissions).orderBy(asc(rolePermissions.permission));
+
+  return allRoles.map((role) => ({
+    ...role,
+    permissions: grants.filter((grant) => grant.roleId === role.id).map((grant) => grant.permission),
+  }));
+}
+
+export async function updateRole(db: DBExecutor, id: string, data: { description?: string | null }) {
+  const [role] = await db
+    .update(roles)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(roles.id, id))
+    .returning();
+  return role || null;
+}
+
+// Replaces the role's grants with `permissions`
+export async function setRolePermissions(db: DBExecutor, roleId: string, permissions: string[]) {
+  await db.delete(rolePermissions).where(eq(rolePermissions.roleId, roleId));
+
+  if (permissions.length === 0) {
+    return;
+  }
+
+  await db.insert(rolePermissions).values(
+    Array.from(new Set(permissions)).map((permission) => ({
+      id: uuidv4(),
+      roleId,
+      permission,
+    }))
+  );
+}
+
+export async function deleteRole(db: DBExecutor, id: string) {
+  const [role] = await db.delete(roles).where(eq(roles.id, id)).returning();
+  return role || null;
+}
+
+export async function countRoleAssignments(db: DBExecutor, roleName: string) {
+  const assignments = await db
+    .select({ id: userRole.id })
+    .from(userRole)
+    .where(eq(userRole.role, roleName));
+  return assignments.length;
+}
+
+/**
+ * The roles a user holds and everything granted to them, in one query.
+ * Roles without a row in `roles` still come back, with no permissions.
+ */
+export async function findUserRolePermissions(db: DBExecutor, userId: string) {
+  const rows = await db
+    .select({ role: userRole.role, permission: rolePermissions.permission })
+    .from(userRole)
+    .leftJoin(roles, eq(roles.name, userRole.role))
+    .leftJoin(rolePermissions, eq(rolePermissions.roleId, roles.id))
+    .where(eq(userRole.userId, userId));
+
+  return {
+    roles: Array.from(new Set(rows.map((row) => row.role))),
+    permissions: Array.from(
+      new Set(rows.map((row) => row.permission).filter((permission): permission is string => !!permission))
+    ),
+  };
+}
+
+export async function findUserRoleAssignment(db: DBExecutor, userId: string, roleName: string) {
+  const [assignment] = await db
+    .select()
+    .from(userRole)
+    .where(and(eq(userRole.userId, userId), eq(userRole.role, roleName)))
+    .limit(1);
+  return assignment || null;
+}
+
+export async function deleteUserRoles(db: DBExecutor, userId: string, roleNames: string[]) {
+  if (roleNames.length === 0) {
+    return [];
+  }
+
+  return await db
+    .delete(userRole)
+    .where(and(eq(userRole.userId, userId), inArray(userRole.role, roleNames)))
+    .returning();
+}
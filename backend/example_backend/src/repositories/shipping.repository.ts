@@ -0,0 +1,134 @@
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { DB } from '../utils/db.utils';
+import {
+  shippingZones,
+  shippingRates,
+  InsertShippingZone,
+  InsertShippingRate,
+} from '../schemas/shipping.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ShippingZone = typeof shippingZones.$inferSelect;
+export type ShippingRate = typeof shippingRates.$inferSelect;
+export type ShippingZoneWithRates = ShippingZone & { rates: ShippingRate[] };
+
+export async function createShippingZone(
+  db: DB,
+  data: Omit<InsertShippingZone, 'id'>
+) {
+  const id = uuidv4();
+  const [zone] = await db
+    .insert(shippingZones)
+    .values({
+      ...data,
+      id,
+    } as InsertShippingZone)
+    .returning();
+  return zone;
+}
+
+export async function getShippingZoneById(db: DB, id: string, vendorId: string) {
+  const [zone] = await db
+    .select()
+    .from(shippingZones)
+    .where(and(eq(shippingZones.id, id), eq(shippingZones.vendorId, vendorId)))
+    .limit(1);
+  return zone || null;
+}
+
+export async function updateShippingZone(
+  db: DB,
+  id: string,
+  vendorId: string,
+  data: Partial<Omit<InsertShippingZone, 'id' | 'vendorId'>>
+) {
+  const [zone] = await db
+    .update(shippingZones)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(shippingZones.id, id), eq(shippingZones.vendorId, vendorId)))
+    .returning();
+  return zone || null;
+}
+
+export async function deleteShippingZone(db: DB, id: string, vendorId: string) {
+  const [zone] = await db
+    .delete(shippingZones)
+    .where(and(eq(shippingZones.id, id), eq(shippingZones.vendorId, vendorId)))
+    .returning();
+  return zone || null;
+}
+
+/**
+ * Replaces a zone's whole rate table; brackets are always edited together.
+ */
+export async function replaceShippingRates(
+  db: DB,
+  zoneId: string,
+  rates: Omit<InsertShippingRate, 'id' | 'zoneId'>[]
+) {
+  await db.delete(shippingRates).where(eq(shippingRates.zoneId, zoneId));
+
+  if (rates.length === 0) {
+    return [];
+  }
+
+  return await db
+    .insert(shippingRates)
+    .values(rates.map((rate) => ({ ...rate, id: uuidv4(), zoneId }) as InsertShippingRate))
+    .returning();
+}
+
+async function attachShippingRates(db: DB, zones: ShippingZone[]): Promise<ShippingZoneWithRates[]> {
+  if (zones.length === 0) {
+    return [];
+  }
+
+  const rates = await db
+    .select()
+    .from(shippingRates)
+    .where(inArray(shippingRates.zoneId, zones.map((zone) => zone.id)))
+    .orderBy(asc(shippingRates.minValue));
+
+  return zones.map((zone) => ({
+    ...zone,
+    rates: rates.filter((rate) => rate.zoneId === zone.id),
+  }));
+}
+
+export async function listShippingZonesByVendor(db: DB, vendorId: string) {
+  const zones = await db
+    .select()
+    .from(shippingZones)
+    .where(eq(shippingZones.vendorId, vendorId))
+    .orderBy(desc(shippingZones.priority), asc(shippingZones.createdAt));
+
+  return attachShippingRates(db, zones);
+}
+
+export async function listActiveShippingZonesForVendors(db: DB, vendorIds: string[]) {
+  if (vendorIds.length === 0) {
+    return [];
+  }
+
+  const zones = await db
+    .select()
+    .from(shippingZones)
+    .where(and(inArray(shippingZones.vendorId, vendorIds), eq(shippingZones.isActive, true)))
+    .orderBy(desc(shippingZones.priority), asc(shippingZones.createdAt));
+
+  return attachShippingRates(db, zones);
+}
+
+// Vendors that have configured shipping at all, active or not
+export async function listVendorIdsWithShippingZones(db: DB, vendorIds: string[]) {
+  if (vendorIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .selectDistinct({ vendorId: shippingZones.vendorId })
+    .from(shippingZones)
+    .where(inArray(shippingZones.vendorId, vendorIds));
+
+  return rows.map((row) => row.vendorId);
+}
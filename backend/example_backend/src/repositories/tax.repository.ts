@@ -0,0 +1,65 @@
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import { DB } from '../utils/db.utils';
+import { taxRules, InsertTaxRule } from '../schemas/tax.schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export type TaxRule = typeof taxRules.$inferSelect;
+
+export async function createTaxRule(db: DB, data: Omit<InsertTaxRule, 'id'>) {
+  const id = uuidv4();
+  const [rule] = await db
+    .insert(taxRules)
+    .values({
+      ...data,
+      id,
+    } as InsertTaxRule)
+    .returning();
+  return rule;
+}
+
+export async function updateTaxRule(
+  db: DB,
+  id: string,
+  data: Partial<Omit<InsertTaxRule, 'id'>>
+) {
+  const [rule] = await db
+    .update(taxRules)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(taxRules.id, id))
+    .returning();
+  return rule || null;
+}
+
+export async function deleteTaxRule(db: DB, id: string) {
+  const [rule] = await db
+    .delete(taxRules)
+    .where(eq(taxRules.id, id))
+    .returning();
+  return rule || null;
+}
+
+export async function listTaxRules(db: DB, filters: { country?: string }) {
+  return await db
+    .select()
+    .from(taxRules)
+    .where(filters.country ? sql`upper(${taxRules.country}) = upper(${filters.country})` : undefined)
+    .orderBy(asc(taxRules.country), asc(taxRules.region), asc(taxRules.taxClass));
+}
+
+// Active rules for a destination country and the given tax classes, both country-wide and regional
+export async function listApplicableTaxRules(db: DB, country: string, taxClasses: string[]) {
+  if (taxClasses.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(taxRules)
+    .where(
+      and(
+        eq(taxRules.isActive, true),
+        sql`upper(${taxRules.country}) = upper(${country})`,
+        inArray(taxRules.taxClass, taxClasses)
+      )
+    );
+}
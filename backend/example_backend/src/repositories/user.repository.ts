@@ -1,6 +1,8 @@
-import { eq } from 'drizzle-orm';
+import { eq, and, or, ilike, isNull, gt, lt, lte, desc, count, inArray, sql, SQL } from 'drizzle-orm';
 import { users, userRole } from '../schemas/user.schema';
+import { emailChangeRequests } from '../schemas/profile.schema';
 import type { DB } from '../utils/db.utils';
+import { PaginationParams, formatPaginatedResponse } from '../utils/pagination.utils';
 
 export async function findUserByEmail(db: DB, email: string) {
 	return db.query.users.findFirst({
@@ -92,3 +94,136 @@ export async function checkUserBanStatus(
 	return true;
 }
 
+
+export interface UserSearchFilters {
+	// Matched against email and name
+	query?: string;
+	role?: string;
+	banned?: boolean;
+}
+
+export async function searchUsers(db: DB, filters: UserSearchFilters, pagination: PaginationParams) {
+	const conditions: SQL[] = [];
+
+	if (filters.query) {
+		const pattern = `%${filters.query.replace(/[\\%_]/g, '\\$&')}%`;
+		conditions.push(or(ilike(users.email, pattern), ilike(users.name, pattern))!);
+	}
+
+	if (filters.role) {
+		conditions.push(
+			inArray(
+				users.id,
+				db.select({ userId: userRole.userId }).from(userRole).where(eq(userRole.role, filters.role))
+			)
+		);
+	}
+
+	if (filters.banned !== undefined) {
+		// Timed bans count as lifted once bannedUntil has passed, even before checkUserBanStatus clears them
+		const activeBan = and(
+			eq(users.isBanned, true),
+			or(isNull(users.bannedUntil), gt(users.bannedUntil, new Date()))
+		)!;
+		conditions.push(filters.banned ? activeBan : or(eq(users.isBanned, false), lte(users.bannedUntil, new Date()))!);
+	}
+
+	const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+	const [totalResult] = await db
+		.select({ count: count() })
+		.from(users)
+		.where(whereClause);
+
+	const total = totalResult?.count || 0;
+
+	const results = await db
+		.select()
+		.from(users)
+		.where(whereClause)
+		.orderBy(desc(users.createdAt))
+		.limit(pagination.limit)
+		.offset(pagination.offset);
+
+	return formatPaginatedResponse(results, total, pagination.page, pagination.limit);
+}
+
+export async function updateUserProfile(
+	db: DB,
+	userId: string,
+	data: Partial<{ name: string | null; phoneNumber: string | null; avatarUrl: string | null }>
+) {
+	const [user] = await db.update(users)
+		.set({ ...data, updatedAt: new Date() })
+		.where(eq(users.id, userId))
+		.returning();
+
+	return user || null;
+}
+
+export async function updateUserEmail(db: DB, userId: string, email: string) {
+	const [user] = await db.update(users)
+		.set({ email, updatedAt: new Date() })
+		.where(eq(users.id, userId))
+		.returning();
+
+	return user || null;
+}
+
+export async function findEmailChangeRequest(db: DB, userId: string) {
+	return db.query.emailChangeRequests.findFirst({
+		where: (emailChangeRequests, { eq }) => eq(emailChangeRequests.userId, userId),
+	});
+}
+
+/**
+ * Starts a new email change, replacing any pending one along with its failed attempts.
+ */
+export async function upsertEmailChangeRequest(
+	db: DB,
+	userId: string,
+	newEmail: string,
+	otp: number,
+	expiresAt: Date
+) {
+	const [request] = await db.insert(emailChangeRequests)
+		.values({
+			id: crypto.randomUUID(),
+			userId,
+			newEmail,
+			otp,
+			expiresAt,
+		})
+		.onConflictDoUpdate({
+			target: emailChangeRequests.userId,
+			set: {
+				newEmail,
+				otp,
+				expiresAt,
+				attempts: 0,
+				lastSentAt: new Date(),
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return request;
+}
+
+/**
+ * Atomically uses up one verification attempt. Returns null once the code has no attempts left.
+ */
+export async function consumeEmailChangeAttempt(db: DB, id: string, maxAttempts: number) {
+	const [updated] = await db.update(emailChangeRequests)
+		.set({
+			attempts: sql`${emailChangeRequests.attempts} + 1`,
+		})
+		.where(and(eq(emailChangeRequests.id, id), lt(emailChangeRequests.attempts, maxAttempts)))
+		.returning();
+
+	return updated || null;
+}
+
+export async function deleteEmailChangeRequest(db: DB, userId: string) {
+	await db.delete(emailChangeRequests).where(eq(emailChangeRequests.userId, userId));
+}
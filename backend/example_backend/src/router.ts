@@ -9,6 +9,14 @@ import { reviewRoutes } from './routes/review.route';
 import { promoRoutes } from './routes/promo.route';
 import { promotionalRoutes } from './routes/promotional.route';
 import { paymentRoutes } from './routes/payment.route';
+import { shippingRoutes } from './routes/shipping.route';
+import { taxRoutes } from './routes/tax.route';
+import { currencyRoutes } from './routes/currency.route';
+import { returnRoutes } from './routes/return.route';
+import { roleRoutes } from './routes/role.route';
+import { adminUserRoutes } from './routes/admin-user.route';
+import { meRoutes } from './routes/me.route';
+import { devRoutes } from './routes/dev.route';
 
 export const appRouter = {
   auth: authRoutes,
@@ -22,4 +30,23 @@ export const appRouter = {
   promo: promoRoutes,
   promotional: promotionalRoutes,
   payment: paymentRoutes,
+  shipping: shippingRoutes,
+  tax: taxRoutes,
+  currency: currencyRoutes,
+  return: returnRoutes,
+  role: roleRoutes,
+  me: meRoutes,
+  admin: {
+    users: adminUserRoutes,
+  },
+  dev: devRoutes,
+};
+
+// Webhooks are verified against the raw request body, which only the OpenAPI route keeps
+// (see index.ts). RPC requests wrap the body, so the webhook is left out of the RPC router.
+const { handleWebhook: _handleWebhook, ...paymentRpcRoutes } = paymentRoutes;
+
+export const rpcRouter = {
+  ...appRouter,
+  payment: paymentRpcRoutes,
 };
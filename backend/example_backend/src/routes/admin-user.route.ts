@@ -0,0 +1,347 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { protectedProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import {
+  banUser,
+  checkUserBanStatus,
+  createUserRole,
+  findUserById,
+  searchUsers,
+  unbanUser,
+} from '../repositories/user.repository';
+import {
+  deleteUserRoles,
+  findUserRoleAssignment,
+  findUserRolePermissions,
+  getRoleById,
+  getRoleByName,
+} from '../repositories/role.repository';
+import { findAuthsWithDevicesByUserId } from '../repositories/auth.repository';
+import { listAdminAuditLogs } from '../repositories/audit.repository';
+import { adminAuditLogResponseSchema } from '../schemas/audit.schema';
+import { roleNameSchema } from '../schemas/role.schema';
+import { getPaginationParams, paginationQuerySchema, paginationMetaSchema } from '../utils/pagination.utils';
+import { authIsAdmin } from '../utils/auth.utils';
+import { assertCanGrant, getRoleGrants } from '../utils/role.utils';
+import { recordAdminAction } from '../utils/audit.utils';
+
+const OPENAPI_TAG = 'Admin';
+
+const adminUserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  phoneNumber: z.string().nullable(),
+  avatarUrl: z.string().nullable(),
+  isBanned: z.boolean(),
+  bannedAt: z.date().nullable(),
+  bannedUntil: z.date().nullable(),
+  banReason: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const userRolesResponseSchema = z.object({
+  roles: z.array(z.string()),
+  permissions: z.array(z.string()),
+});
+
+const adminUserDetailSchema = adminUserSchema.extend({
+  roles: z.array(z.string()),
+  permissions: z.array(z.string()),
+  sessions: z.array(
+    z.object({
+      id: z.string(),
+      deviceId: z.string(),
+      isTrusted: z.boolean(),
+      trustedAt: z.date().nullable(),
+      lastRefresh: z.date().nullable(),
+      device: z
+        .object({
+          deviceType: z.string().nullable(),
+          deviceModel: z.string().nullable(),
+          osName: z.string().nullable(),
+          osVersion: z.string().nullable(),
+          appVersion: z.string().nullable(),
+          ipAddress: z.string().nullable(),
+          city: z.string().nullable(),
+          countryCode: z.string().nullable(),
+          createdAt: z.date(),
+        })
+        .nullable(),
+    })
+  ),
+});
+
+async function getUserOrThrow(ctx: TRPCContext, id: string) {
+  const user = await findUserById(ctx.get('db'), id);
+  if (!user) {
+    throw new ORPCError('NOT_FOUND', { message: 'User not found' });
+  }
+  return user;
+}
+
+// Admins cannot ban themselves, and only superadmins can ban other admins
+async function assertCanModerate(ctx: TRPCContext, userId: string) {
+  if (userId === ctx.get('authUser')?.id) {
+    throw new ORPCError('FORBIDDEN', { message: 'You cannot ban or unban yourself' });
+  }
+
+  const { roles } = await findUserRolePermissions(ctx.get('db'), userId);
+  if (authIsAdmin(roles) && !ctx.get('authIsSuperAdmin')) {
+    throw new ORPCError('FORBIDDEN', { message: 'Only superadmins can ban or unban admins' });
+  }
+}
+
+async function getGrantableRole(ctx: TRPCContext, name: string) {
+  const db = ctx.get('db');
+  const role = await getRoleByName(db, name);
+  if (!role) {
+    throw new ORPCError('NOT_FOUND', { message: 'Role not found' });
+  }
+
+  // Granting or revoking a role needs everything it gives
+  assertCanGrant(ctx, getRoleGrants((await getRoleById(db, role.id))!));
+  return role;
+}
+
+export const adminUserRoutes = {
+  searchUsers: protectedProcedure({ anyOf: ['admin:user:r'] })
+    .route({
+      method: 'GET',
+      path: '/admin/users',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      paginationQuerySchema.extend({
+        query: z.string().trim().min(1).max(200).optional(),
+        role: z.string().optional(),
+        banned: z
+          .enum(['true', 'false'])
+          .transform((value) => value === 'true')
+          .optional(),
+      })
+    )
+    .output(
+      z.object({
+        data: z.array(adminUserSchema),
+        meta: paginationMetaSchema,
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      return await searchUsers(
+        db,
+        { query: input.query, role: input.role, banned: input.banned },
+        getPaginationParams(input)
+      );
+    }),
+
+  getUser: protectedProcedure({ anyOf: ['admin:user:r'] })
+    .route({
+      method: 'GET',
+      path: '/admin/users/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(adminUserDetailSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      let user = await getUserOrThrow(ctx, input.id);
+
+      // Clears a timed ban that has run out, so the detail shows the current state
+      if (user.isBanned && !(await checkUserBanStatus(db, user))) {
+        user = await getUserOrThrow(ctx, input.id);
+      }
+
+      const [{ roles, permissions }, sessions] = await Promise.all([
+        findUserRolePermissions(db, user.id),
+        findAuthsWithDevicesByUserId(db, user.id),
+      ]);
+
+      return {
+        ...user,
+        roles,
+        permissions,
+        sessions: sessions.map(({ session, device }) => ({
+          id: session.id,
+          deviceId: session.deviceId,
+          isTrusted: session.isTrusted,
+          trustedAt: session.trustedAt,
+          lastRefresh: session.lastRefresh,
+          device: device
+            ? {
+                deviceType: device.deviceType,
+                deviceModel: device.deviceModel,
+                osName: device.osName,
+                osVersion: device.osVersion,
+                appVersion: device.appVersion,
+                ipAddress: device.ipAddress,
+                city: device.city,
+                countryCode: device.countryCode,
+                createdAt: device.createdAt,
+              }
+            : null,
+        })),
+      };
+    }),
+
+  banUser: protectedProcedure({ anyOf: ['admin:user:rw'] })
+    .route({
+      method: 'POST',
+      path: '/admin/users/:id/ban',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        id: z.string(),
+        reason: z.string().min(1).max(1000),
+        // The ban lifts itself at this time; permanent when omitted
+        bannedUntil: z.coerce.date().optional(),
+      })
+    )
+    .output(adminUserSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const user = await getUserOrThrow(ctx, input.id);
+
+      if (input.bannedUntil && input.bannedUntil <= new Date()) {
+        throw new ORPCError('BAD_REQUEST', { message: 'bannedUntil must be in the future' });
+      }
+
+      await assertCanModerate(ctx, user.id);
+
+      // Bans are checked on every request and token refresh, so they apply to live sessions at once
+      await banUser(db, user.id, input.reason, input.bannedUntil ?? null);
+      await recordAdminAction(ctx, {
+        action: 'user.ban',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason: input.reason, bannedUntil: input.bannedUntil?.toISOString() ?? null },
+      });
+
+      return await getUserOrThrow(ctx, user.id);
+    }),
+
+  unbanUser: protectedProcedure({ anyOf: ['admin:user:rw'] })
+    .route({
+      method: 'POST',
+      path: '/admin/users/:id/unban',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string(), reason: z.string().max(1000).optional() }))
+    .output(adminUserSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const user = await getUserOrThrow(ctx, input.id);
+
+      if (!user.isBanned) {
+        throw new ORPCError('CONFLICT', { message: 'User is not banned' });
+      }
+
+      await assertCanModerate(ctx, user.id);
+
+      await unbanUser(db, user.id);
+      await recordAdminAction(ctx, {
+        action: 'user.unban',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason: input.reason ?? null, previousBanReason: user.banReason },
+      });
+
+      return await getUserOrThrow(ctx, user.id);
+    }),
+
+  grantRole: protectedProcedure({ allOf: ['admin:user:rw', 'admin:role:rw'] })
+    .route({
+      method: 'POST',
+      path: '/admin/users/:id/roles',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string(), role: roleNameSchema }))
+    .output(userRolesResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const user = await getUserOrThrow(ctx, input.id);
+      const role = await getGrantableRole(ctx, input.role);
+
+      if (await findUserRoleAssignment(db, user.id, role.name)) {
+        throw new ORPCError('CONFLICT', { message: 'User already has this role' });
+      }
+
+      await createUserRole(db, crypto.randomUUID(), user.id, role.name);
+      await recordAdminAction(ctx, {
+        action: 'user.role_grant',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { role: role.name },
+      });
+
+      return await findUserRolePermissions(db, user.id);
+    }),
+
+  revokeRole: protectedProcedure({ allOf: ['admin:user:rw', 'admin:role:rw'] })
+    .route({
+      method: 'DELETE',
+      path: '/admin/users/:id/roles/:role',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string(), role: z.string() }))
+    .output(userRolesResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const user = await getUserOrThrow(ctx, input.id);
+
+      const assignment = await findUserRoleAssignment(db, user.id, input.role);
+      if (!assignment) {
+        throw new ORPCError('NOT_FOUND', { message: 'User does not have this role' });
+      }
+
+      // Assignments of roles that no longer exist give nothing, so anyone may clear them
+      if (await getRoleByName(db, input.role)) {
+        await getGrantableRole(ctx, input.role);
+      }
+
+      await deleteUserRoles(db, user.id, [input.role]);
+      await recordAdminAction(ctx, {
+        action: 'user.role_revoke',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { role: input.role },
+      });
+
+      return await findUserRolePermissions(db, user.id);
+    }),
+
+  getUserAuditLog: protectedProcedure({ anyOf: ['admin:user:r'] })
+    .route({
+      method: 'GET',
+      path: '/admin/users/:id/audit-log',
+      tags: [OPENAPI_TAG],
+    })
+    .input(paginationQuerySchema.extend({ id: z.string() }))
+    .output(
+      z.object({
+        data: z.array(adminAuditLogResponseSchema),
+        meta: paginationMetaSchema,
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      return await listAdminAuditLogs(
+        db,
+        { targetType: 'user', targetId: input.id },
+        getPaginationParams(input)
+      );
+    }),
+};
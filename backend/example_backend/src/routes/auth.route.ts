@@ -1,6 +1,6 @@
 import z from "zod/v3";
 import { ORPCError } from "@orpc/server";
-import { publicProcedure } from "../procedures";
+import { publicProcedure, idempotencyMiddleware } from "../procedures";
 import { protectedProcedure } from "../procedures/protected.procedure";
 import type { TRPCContext } from "../context";
 import { devices } from "../schemas/device.schema";
@@ -10,40 +10,44 @@ import {
   getOtpForDevice,
   isOtpExpired,
   normalizeEmail,
-  getAuthHeader,
+  issueAuthTokens,
 } from "../utils/auth.utils";
-import { generateOtp } from "../utils/otp.utils";
+import {
+  generateOtp,
+  getOtpRetryAfter,
+  OTP_LENGTH,
+  OTP_TTL_MS,
+  OTP_MAX_ATTEMPTS,
+  OTP_DEVICE_RESEND_COOLDOWN_MS,
+  OTP_EMAIL_RESEND_COOLDOWN_MS,
+  assertOtpNotLocked,
+  verifyOtpCode,
+} from "../utils/otp.utils";
 import { sendOtpEmail } from "../services/email.service";
-import { generateAccessToken } from "../services/jwt.service";
-import { verify } from "hono/jwt";
-
-function extractTokenFromHeader(
-  authHeader: string | null | undefined
-): string | null {
-  if (!authHeader) {
-    return null;
-  }
-
-  if (authHeader.startsWith("Bearer ")) {
-    return authHeader.substring(7);
-  }
-
-  return authHeader;
-}
+import { hashRefreshToken, REFRESH_TOKEN_REUSE_GRACE } from "../services/jwt.service";
 import {
-  deleteAuthByUserId,
   createAuthSession,
   updateAuthLastRefresh,
   deleteAuthByDeviceId,
-  findAuthsByUserId,
+  deleteAuthById,
+  findAuthsWithDevicesByUserId,
   findTrustedAuthByDeviceAndUser,
   findAuthByDeviceId,
+  findAuthById,
+  findRefreshTokenByHash,
+  markAuthLoggedOut,
+  markDeviceAsTrusted,
+  markRefreshTokenRotated,
+  revokeRefreshTokensByAuthId,
 } from "../repositories/auth.repository";
+import { enforceSessionPolicy, enforceTrustedDevicePolicy } from "../utils/session.utils";
 import { checkUserBanStatus } from "../repositories/user.repository";
 import {
   createOtp,
   updateOtp,
   deleteOtpByDeviceAndEmail,
+  findLatestOtpByDevice,
+  findLatestOtpByEmail,
 } from "../repositories/otp.repository";
 import { findUserByEmail, findUserById } from "../repositories/user.repository";
 import {
@@ -52,7 +56,6 @@ import {
   createDevice,
 } from "../repositories/device.repository";
 
-const MAX_ACTIVE_DEVICES = 1;
 const OPENAPI_TAG = "Auth";
 
 const createDeviceUuidApiSchema = z.object({
@@ -237,6 +240,7 @@ export const authRoutes = {
       }
     }),
   requestOtp: publicProcedure
+    .use(idempotencyMiddleware)
     .route({
       method: "POST",
       path: "/auth/otp/request-otp",
@@ -253,6 +257,7 @@ export const authRoutes = {
         success: z.boolean(),
         message: z.string(),
         accessToken: z.string().optional(),
+        refreshToken: z.string().optional(),
         deviceId: z.string().optional(),
       })
     )
@@ -303,14 +308,9 @@ export const authRoutes = {
       }
       if (trustedAuth) {
         await deleteAuthByDeviceId(db, input.deviceUuId);
+        await enforceSessionPolicy(env, db, user.id, input.deviceUuId, true);
 
-        const activeSessions = await findAuthsByUserId(db, user.id);
-
-        if (activeSessions.length >= MAX_ACTIVE_DEVICES) {
-          await deleteAuthByUserId(db, user.id);
-        }
-
-        await createAuthSession(
+        const authSession = await createAuthSession(
           db,
           crypto.randomUUID(),
           user.id,
@@ -318,20 +318,43 @@ export const authRoutes = {
           true
         );
 
-        const accessToken = await generateAccessToken(
-          user.id,
-          user.email,
-          env.JWT_SECRET
+        const { accessToken, refreshToken } = await issueAuthTokens(
+          db,
+          env.JWT_SECRET,
+          user,
+          authSession.id
         );
 
         return {
           success: true,
           message: "Logged in with trusted device",
           accessToken,
+          refreshToken,
           deviceId: input.deviceUuId,
         };
       }
 
+      if (normalizedEmail !== env.TEST_EMAIL) {
+        await assertOtpNotLocked(db, normalizedEmail, input.deviceUuId);
+
+        const [latestForEmail, latestForDevice] = await Promise.all([
+          findLatestOtpByEmail(db, normalizedEmail),
+          findLatestOtpByDevice(db, input.deviceUuId),
+        ]);
+
+        const retryAfter = Math.max(
+          getOtpRetryAfter(latestForEmail?.lastSentAt, OTP_EMAIL_RESEND_COOLDOWN_MS),
+          getOtpRetryAfter(latestForDevice?.lastSentAt, OTP_DEVICE_RESEND_COOLDOWN_MS)
+        );
+
+        if (retryAfter > 0) {
+          throw new ORPCError("TOO_MANY_REQUESTS", {
+            message: "Please wait before requesting another OTP",
+            data: { retryAfter },
+          });
+        }
+      }
+
       await deleteAuthByDeviceId(db, input.deviceUuId);
 
       const existingOtp = await getOtpForDevice(
@@ -340,20 +363,26 @@ export const authRoutes = {
         normalizedEmail
       );
 
+      // Re-send a still valid code, but never one that was locked by failed attempts
+      const canReuseOtp =
+        !!existingOtp &&
+        !isOtpExpired(existingOtp) &&
+        existingOtp.attempts < OTP_MAX_ATTEMPTS;
+
       let otpValue: number;
 
       if (normalizedEmail === env.TEST_EMAIL) {
         otpValue = parseInt(env.TEST_OTP);
-      } else if (existingOtp && !isOtpExpired(existingOtp)) {
+      } else if (existingOtp && canReuseOtp) {
         otpValue = existingOtp.otp;
       } else {
-        otpValue = parseInt(generateOtp(5));
+        otpValue = parseInt(generateOtp(OTP_LENGTH));
       }
 
-      const expiredAt = new Date(Date.now() + 5 * 60 * 1000);
+      const expiredAt = new Date(Date.now() + OTP_TTL_MS);
 
       if (existingOtp) {
-        await updateOtp(db, existingOtp.id, otpValue, expiredAt);
+        await updateOtp(db, existingOtp.id, otpValue, expiredAt, !canReuseOtp);
       } else {
         await createOtp(
           db,
@@ -366,7 +395,7 @@ export const authRoutes = {
       }
 
       if (normalizedEmail !== env.TEST_EMAIL) {
-        await sendOtpEmail(env.RESEND_API_KEY, normalizedEmail, otpValue);
+        await sendOtpEmail(env, db, normalizedEmail, otpValue);
       }
 
       return {
@@ -393,6 +422,7 @@ export const authRoutes = {
       z.object({
         success: z.boolean(),
         accessToken: z.string().optional(),
+        refreshToken: z.string().optional(),
         deviceId: z.string().optional(),
         message: z.string(),
       })
@@ -419,35 +449,17 @@ export const authRoutes = {
         });
       }
 
-      const otp = await getOtpForDevice(db, input.deviceUuId, normalizedEmail);
-
-      if (!otp) {
-        throw new ORPCError("NOT_FOUND", {
-          message: "OTP not found",
-        });
-      }
-
-      if (isOtpExpired(otp)) {
-        throw new ORPCError("BAD_REQUEST", {
-          message: "OTP expired",
-        });
-      }
+      await verifyOtpCode(db, {
+        email: normalizedEmail,
+        deviceId: input.deviceUuId,
+        otp: input.otp,
+      });
 
-      if (otp.otp !== input.otp) {
-        throw new ORPCError("BAD_REQUEST", {
-          message: "Invalid OTP",
-        });
-      }
+      const isTrusted = input.isTrusted ?? false;
 
+      await enforceSessionPolicy(env, db, user.id, input.deviceUuId, isTrusted);
       await deleteOtpByDeviceAndEmail(db, input.deviceUuId, normalizedEmail);
-
-      const activeSessions = await findAuthsByUserId(db, user.id);
-
-      if (activeSessions.length >= MAX_ACTIVE_DEVICES) {
-        await deleteAuthByUserId(db, user.id);
-      }
-
-      const isTrusted = input.isTrusted ?? false;
+      await deleteAuthByDeviceId(db, input.deviceUuId);
 
       console.log('[verifyOtp] Creating auth session:', {
         userId: user.id,
@@ -456,7 +468,7 @@ export const authRoutes = {
         requestIsTrusted: input.isTrusted
       });
 
-      await createAuthSession(
+      const authSession = await createAuthSession(
         db,
         crypto.randomUUID(),
         user.id,
@@ -464,15 +476,17 @@ export const authRoutes = {
         isTrusted
       );
 
-      const accessToken = await generateAccessToken(
-        user.id,
-        user.email,
-        env.JWT_SECRET
+      const { accessToken, refreshToken } = await issueAuthTokens(
+        db,
+        env.JWT_SECRET,
+        user,
+        authSession.id
       );
 
       return {
         success: true,
         accessToken,
+        refreshToken,
         deviceId: input.deviceUuId,
         message: "OTP verified successfully",
       };
@@ -526,7 +540,9 @@ export const authRoutes = {
         await deleteAuthByDeviceId(db, input.deviceId);
         console.log('[logout] Deleted non-trusted auth session');
       } else {
-        console.log('[logout] Preserved trusted auth session');
+        await revokeRefreshTokensByAuthId(db, auth.id);
+        await markAuthLoggedOut(db, auth.id);
+        console.log('[logout] Logged out trusted auth session, device stays trusted');
       }
 
       return {
@@ -539,29 +555,49 @@ export const authRoutes = {
     .input(
       z.object({
         deviceId: z.string().uuid(),
+        refreshToken: z.string().min(1),
       })
     )
     .output(
       z.object({
         accessToken: z.string(),
+        refreshToken: z.string(),
       })
     )
     .handler(async ({ input, context }) => {
       const ctx = context as TRPCContext;
       const db = ctx.get("db");
       const env = ctx.env;
-      const { c } = ctx;
 
-      const auth = await findAuthByDeviceId(db, input.deviceId);
+      const tokenHash = await hashRefreshToken(input.refreshToken);
+      const storedToken = await findRefreshTokenByHash(db, tokenHash);
 
-      if (!auth) {
-        throw new ORPCError("NOT_FOUND", {
+      if (!storedToken) {
+        throw new ORPCError("UNAUTHORIZED", {
+          message: "Invalid refresh token",
+        });
+      }
+
+      if (new Date() >= storedToken.expiresAt) {
+        throw new ORPCError("UNAUTHORIZED", {
+          message: "Session expired",
+        });
+      }
+
+      const auth = await findAuthById(db, storedToken.authId);
+
+      if (!auth || auth.loggedOutAt) {
+        throw new ORPCError("UNAUTHORIZED", {
           message: "Auth session not found",
         });
       }
 
-      const authHeader = getAuthHeader(c);
-      const token = extractTokenFromHeader(authHeader);
+      // Checked before rotating, so a request from the wrong device cannot burn the token
+      if (auth.deviceId !== input.deviceId) {
+        throw new ORPCError("FORBIDDEN", {
+          message: "Refresh token does not belong to this device",
+        });
+      }
 
       const foundUser = await findUserById(db, auth.userId);
 
@@ -577,64 +613,162 @@ export const authRoutes = {
           message: "User account is banned",
         });
       }
-      if (!token) {
+
+      const rotated =
+        storedToken.status === "active"
+          ? await markRefreshTokenRotated(db, storedToken.id)
+          : undefined;
+
+      if (!rotated) {
+        // A parallel refresh may have rotated it a moment ago
+        const current = await findRefreshTokenByHash(db, tokenHash);
+        const withinGrace =
+          current?.status === "rotated" &&
+          !!current.rotatedAt &&
+          Date.now() - current.rotatedAt.getTime() <= REFRESH_TOKEN_REUSE_GRACE * 1000;
+
+        // Otherwise a rotated or revoked token coming back means it was copied; end the whole session family
+        if (!withinGrace) {
+          await deleteAuthById(db, storedToken.authId);
+          throw new ORPCError("UNAUTHORIZED", {
+            message: "Refresh token reuse detected",
+          });
+        }
+      }
+
+      await updateAuthLastRefresh(db, auth.id);
+
+      return await issueAuthTokens(db, env.JWT_SECRET, foundUser, auth.id);
+    }),
+  listSessions: protectedProcedure({ anyOf: ["user", "admin:auth:rw"] })
+    .route({ method: "GET", path: "/auth/sessions", tags: [OPENAPI_TAG] })
+    .output(
+      z.array(
+        z.object({
+          id: z.string(),
+          deviceId: z.string(),
+          isTrusted: z.boolean(),
+          trustedAt: z.date().nullable(),
+          lastRefresh: z.date().nullable(),
+          isCurrent: z.boolean(),
+          device: z
+            .object({
+              deviceType: z.string().nullable(),
+              deviceModel: z.string().nullable(),
+              osName: z.string().nullable(),
+              appVersion: z.string().nullable(),
+              city: z.string().nullable(),
+              countryCode: z.string().nullable(),
+            })
+            .nullable(),
+        })
+      )
+    )
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get("db");
+      const authUser = ctx.get("authUser");
+      const authSession = ctx.get("authSession");
+
+      if (!authUser) {
         throw new ORPCError("UNAUTHORIZED", {
-          message: "No token provided",
+          message: "User not authenticated",
         });
       }
-      try {
-        const verified = await verify(token, env.JWT_SECRET, "HS256");
-        const payload = verified as {
-          userId: string;
-          email: string;
-          exp?: number;
-        };
 
-        if (payload.exp) {
-          const currentTime = Math.floor(Date.now() / 1000);
-          if (currentTime >= payload.exp) {
-            throw new ORPCError("UNAUTHORIZED", {
-              message: "Token expired",
-            });
-          }
-        }
+      const sessions = await findAuthsWithDevicesByUserId(db, authUser.id);
+
+      return sessions.map(({ session, device }) => ({
+        id: session.id,
+        deviceId: session.deviceId,
+        isTrusted: session.isTrusted,
+        trustedAt: session.trustedAt,
+        lastRefresh: session.lastRefresh,
+        isCurrent: session.id === authSession?.authId,
+        device: device
+          ? {
+              deviceType: device.deviceType,
+              deviceModel: device.deviceModel,
+              osName: device.osName,
+              appVersion: device.appVersion,
+              city: device.city,
+              countryCode: device.countryCode,
+            }
+          : null,
+      }));
+    }),
+  revokeSession: protectedProcedure({ anyOf: ["user", "admin:auth:rw"] })
+    .route({ method: "POST", path: "/auth/sessions/revoke", tags: [OPENAPI_TAG] })
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get("db");
+      const authUser = ctx.get("authUser");
 
-        if (payload.userId !== auth.userId) {
-          throw new ORPCError("FORBIDDEN", {
-            message: "Device does not belong to authenticated user",
-          });
-        }
-      } catch (error) {
-        if (error instanceof ORPCError) {
-          throw error;
-        }
+      if (!authUser) {
         throw new ORPCError("UNAUTHORIZED", {
-          message: "Invalid or expired token",
+          message: "User not authenticated",
         });
       }
 
-      const lastRefreshDate = auth.lastRefresh ?? new Date(0);
-      const currentDateTime = new Date();
-      const maxValidTime = new Date(
-        lastRefreshDate.getTime() + 7 * 24 * 60 * 60 * 1000
-      );
+      const auth = await findAuthById(db, input.sessionId);
 
-      if (currentDateTime >= maxValidTime) {
+      if (!auth || auth.userId !== authUser.id) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "Auth session not found",
+        });
+      }
+
+      // Refresh tokens cascade with the session, and access tokens bound to it stop working
+      await deleteAuthById(db, auth.id);
+
+      return { success: true };
+    }),
+  trustSession: protectedProcedure({ anyOf: ["user", "admin:auth:rw"] })
+    .route({ method: "POST", path: "/auth/sessions/trust", tags: [OPENAPI_TAG] })
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get("db");
+      const authUser = ctx.get("authUser");
+
+      if (!authUser) {
         throw new ORPCError("UNAUTHORIZED", {
-          message: "Session expired",
+          message: "User not authenticated",
         });
       }
 
-      await updateAuthLastRefresh(db, auth.id);
+      const auth = await findAuthById(db, input.sessionId);
 
-      const accessToken = await generateAccessToken(
-        auth.userId,
-        foundUser.email,
-        env.JWT_SECRET
-      );
+      if (!auth || auth.userId !== authUser.id) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "Auth session not found",
+        });
+      }
 
-      return {
-        accessToken,
-      };
+      if (!auth.isTrusted) {
+        await enforceTrustedDevicePolicy(ctx.env, db, authUser.id, auth.deviceId);
+        await markDeviceAsTrusted(db, auth.id);
+      }
+
+      return { success: true };
     }),
 };
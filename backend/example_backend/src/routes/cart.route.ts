@@ -1,7 +1,7 @@
 import z from "zod/v3";
 import { ORPCError } from '@orpc/server';
 import { eq } from 'drizzle-orm';
-import { protectedProcedure } from '../procedures';
+import { protectedProcedure, idempotencyMiddleware } from '../procedures';
 import type { TRPCContext } from '../context';
 import {
   getOrCreateCart,
@@ -11,8 +11,11 @@ import {
   clearCart,
   getCartWithItems,
 } from '../repositories/cart.repository';
-import { cartResponseSchema } from '../schemas/cart.schema';
+import { cartResponseSchema, cartQuoteResponseSchema } from '../schemas/cart.schema';
 import { cartItems } from '../schemas/cart.schema';
+import { priceCart } from '../utils/checkout.utils';
+import { currencyCodeSchema } from '../schemas/currency.schema';
+import { MAX_PROMO_CODES_PER_ORDER } from '../utils/promo.utils';
 
 const OPENAPI_TAG = 'Cart';
 
@@ -53,7 +56,42 @@ export const cartRoutes = {
       }
     }),
 
+  quote: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'POST',
+      path: '/cart/quote',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        promoCode: z.string().optional(),
+        promoCodes: z.array(z.string()).max(MAX_PROMO_CODES_PER_ORDER).optional(),
+        shippingAddressId: z.string().optional(),
+        currency: currencyCodeSchema.optional(),
+      })
+    )
+    .output(cartQuoteResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      // Codes that do not apply come back in `rejectedPromoCodes` so checkout can explain why
+      const { totals } = await priceCart(db, authUser.id, {
+        promoCodes: [...(input.promoCode ? [input.promoCode] : []), ...(input.promoCodes ?? [])],
+        shippingAddressId: input.shippingAddressId,
+        currency: input.currency,
+      });
+
+      return totals;
+    }),
+
   addItem: protectedProcedure({ anyOf: ['user'] })
+    .use(idempotencyMiddleware)
     .route({
       method: 'POST',
       path: '/cart/items',
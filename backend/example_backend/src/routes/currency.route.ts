@@ -0,0 +1,45 @@
+import z from "zod/v3";
+import { publicProcedure, protectedProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import { listExchangeRates, upsertExchangeRates } from '../repositories/currency.repository';
+import {
+  currencyCodeSchema,
+  exchangeRateFileSchema,
+  exchangeRateResponseSchema,
+} from '../schemas/currency.schema';
+import { expandExchangeRateFile } from '../utils/currency.utils';
+
+const OPENAPI_TAG = 'Currency';
+
+export const currencyRoutes = {
+  listExchangeRates: publicProcedure
+    .route({
+      method: 'GET',
+      path: '/exchange-rates',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ base: currencyCodeSchema.optional() }))
+    .output(z.array(exchangeRateResponseSchema))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      return await listExchangeRates(db, input.base);
+    }),
+
+  // Accepts the same file format as scripts/load-exchange-rates.ts
+  uploadExchangeRates: protectedProcedure({ anyOf: ['admin'] })
+    .route({
+      method: 'PUT',
+      path: '/exchange-rates',
+      tags: [OPENAPI_TAG],
+    })
+    .input(exchangeRateFileSchema)
+    .output(z.array(exchangeRateResponseSchema))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      return await upsertExchangeRates(db, expandExchangeRateFile(input));
+    }),
+};
@@ -0,0 +1,65 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { publicProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import { listOutboxEmails, clearOutboxEmails } from '../repositories/email.repository';
+import { emailOutboxResponseSchema } from '../schemas/email.schema';
+import { normalizeEmail } from '../utils/auth.utils';
+import { isDevEnvironment } from '../utils/env.utils';
+
+const OPENAPI_TAG = 'Dev';
+
+// These routes expose captured emails (including OTPs), so they only answer in dev and test deployments
+function assertDevEnvironment(ctx: TRPCContext) {
+  if (!isDevEnvironment(ctx.env)) {
+    throw new ORPCError('NOT_FOUND', { message: 'Not found' });
+  }
+}
+
+export const devRoutes = {
+  listOutbox: publicProcedure
+    .route({
+      method: 'GET',
+      path: '/dev/outbox',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        to: z.string().email().optional(),
+        limit: z.coerce.number().int().min(1).max(100).default(20),
+      })
+    )
+    .output(z.array(emailOutboxResponseSchema))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      assertDevEnvironment(ctx);
+      const db = ctx.get('db');
+
+      return await listOutboxEmails(db, {
+        to: input.to ? normalizeEmail(input.to) : undefined,
+        limit: input.limit,
+      });
+    }),
+
+  clearOutbox: publicProcedure
+    .route({
+      method: 'DELETE',
+      path: '/dev/outbox',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        to: z.string().email().optional(),
+      })
+    )
+    .output(z.object({ success: z.boolean() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      assertDevEnvironment(ctx);
+      const db = ctx.get('db');
+
+      await clearOutboxEmails(db, input.to ? normalizeEmail(input.to) : undefined);
+
+      return { success: true };
+    }),
+};
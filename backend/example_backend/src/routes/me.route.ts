@@ -0,0 +1,425 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { protectedProcedure, publicProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import type { DB } from '../utils/db.utils';
+import {
+  consumeEmailChangeAttempt,
+  deleteEmailChangeRequest,
+  findEmailChangeRequest,
+  findUserByEmail,
+  findUserById,
+  findUserRoles,
+  updateUserEmail,
+  updateUserProfile,
+  upsertEmailChangeRequest,
+} from '../repositories/user.repository';
+import { cancelAccountDeletion, scheduleAccountDeletion } from '../repositories/account.repository';
+import { phoneNumberSchema, userProfileResponseSchema } from '../schemas/profile.schema';
+import { normalizeEmail } from '../utils/auth.utils';
+import {
+  OTP_EMAIL_RESEND_COOLDOWN_MS,
+  OTP_LENGTH,
+  OTP_MAX_ATTEMPTS,
+  OTP_TTL_MS,
+  generateOtp,
+  getOtpRetryAfter,
+} from '../utils/otp.utils';
+import {
+  deleteFromR2,
+  extractKeyFromUrl,
+  generateAvatarKey,
+  generateUploadToken,
+  getPublicUrl,
+  validateImageMetadata,
+} from '../utils/r2.utils';
+import { sendEmailChangeEmail } from '../services/email.service';
+import {
+  assertAccountDeletable,
+  createAccountExport,
+  getAccountDeletionDate,
+  verifyAccountExportToken,
+} from '../utils/account.utils';
+
+const OPENAPI_TAG = 'Me';
+
+function getAuthUserId(ctx: TRPCContext): string {
+  const authUser = ctx.get('authUser');
+  if (!authUser) {
+    throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+  }
+  return authUser.id;
+}
+
+async function getProfile(db: DB, userId: string) {
+  const [user, roles, emailChange] = await Promise.all([
+    findUserById(db, userId),
+    findUserRoles(db, userId),
+    findEmailChangeRequest(db, userId),
+  ]);
+
+  if (!user) {
+    throw new ORPCError('NOT_FOUND', { message: 'User not found' });
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    phoneNumber: user.phoneNumber,
+    avatarUrl: user.avatarUrl,
+    roles: roles.map((role) => role.role),
+    pendingEmailChange:
+      emailChange && emailChange.expiresAt > new Date()
+        ? { newEmail: emailChange.newEmail, expiresAt: emailChange.expiresAt }
+        : null,
+    deletionScheduledFor: user.deletionScheduledFor,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+// Only objects uploaded through POST /me/avatar/upload-url are ours to delete
+function getOwnAvatarKey(r2PublicUrl: string, userId: string, url: string | null) {
+  const key = url ? extractKeyFromUrl(r2PublicUrl, url) : null;
+  return key?.startsWith(`avatars/${userId}/`) ? key : null;
+}
+
+async function deleteAvatar(ctx: TRPCContext, key: string | null) {
+  if (!key) {
+    return;
+  }
+
+  try {
+    await deleteFromR2(key, ctx.env.R2_BUCKET);
+  } catch {
+    // The profile no longer points at it, so a leftover object is harmless
+  }
+}
+
+export const meRoutes = {
+  get: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'GET',
+      path: '/me',
+      tags: [OPENAPI_TAG],
+    })
+    .output(userProfileResponseSchema)
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      return await getProfile(ctx.get('db'), getAuthUserId(ctx));
+    }),
+
+  update: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'PATCH',
+      path: '/me',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100).nullable().optional(),
+        phoneNumber: phoneNumberSchema.nullable().optional(),
+      })
+    )
+    .output(userProfileResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+
+      const data = {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.phoneNumber !== undefined ? { phoneNumber: input.phoneNumber } : {}),
+      };
+
+      if (Object.keys(data).length > 0) {
+        await updateUserProfile(db, userId, data);
+      }
+
+      return await getProfile(db, userId);
+    }),
+
+  requestAvatarUpload: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/me/avatar/upload-url',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        filename: z.string(),
+        contentType: z.string(),
+        fileSize: z.number().int().min(1),
+      })
+    )
+    .output(
+      z.object({
+        token: z.string(),
+        key: z.string(),
+        publicUrl: z.string(),
+        uploadUrl: z.string(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const userId = getAuthUserId(ctx);
+
+      const validation = validateImageMetadata(input.contentType, input.fileSize);
+      if (!validation.valid) {
+        throw new ORPCError('BAD_REQUEST', { message: validation.error });
+      }
+
+      const key = generateAvatarKey(userId, input.filename);
+      const { token } = await generateUploadToken(key);
+      const publicUrl = getPublicUrl(ctx.env.R2_PUBLIC_URL, key);
+      const uploadUrl = `/api/upload/image`;
+
+      return { token, key, publicUrl, uploadUrl };
+    }),
+
+  setAvatar: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'PUT',
+      path: '/me/avatar',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ url: z.string().url() }))
+    .output(userProfileResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+
+      if (!getOwnAvatarKey(ctx.env.R2_PUBLIC_URL, userId, input.url)) {
+        throw new ORPCError('BAD_REQUEST', {
+          message: 'Avatars must be uploaded through the avatar upload',
+        });
+      }
+
+      const user = await findUserById(db, userId);
+      await updateUserProfile(db, userId, { avatarUrl: input.url });
+
+      if (user?.avatarUrl && user.avatarUrl !== input.url) {
+        await deleteAvatar(ctx, getOwnAvatarKey(ctx.env.R2_PUBLIC_URL, userId, user.avatarUrl));
+      }
+
+      return await getProfile(db, userId);
+    }),
+
+  removeAvatar: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'DELETE',
+      path: '/me/avatar',
+      tags: [OPENAPI_TAG],
+    })
+    .output(userProfileResponseSchema)
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+
+      const user = await findUserById(db, userId);
+      if (user?.avatarUrl) {
+        await updateUserProfile(db, userId, { avatarUrl: null });
+        await deleteAvatar(ctx, getOwnAvatarKey(ctx.env.R2_PUBLIC_URL, userId, user.avatarUrl));
+      }
+
+      return await getProfile(db, userId);
+    }),
+
+  requestEmailChange: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/me/email/change',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ newEmail: z.string().email() }))
+    .output(
+      z.object({
+        success: z.boolean(),
+        message: z.string(),
+        expiresAt: z.date(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+      const newEmail = normalizeEmail(input.newEmail);
+
+      const user = await findUserById(db, userId);
+      if (!user) {
+        throw new ORPCError('NOT_FOUND', { message: 'User not found' });
+      }
+
+      if (user.email === newEmail) {
+        throw new ORPCError('BAD_REQUEST', { message: 'This is already your email address' });
+      }
+
+      const existingUser = await findUserByEmail(db, newEmail);
+      if (existingUser) {
+        throw new ORPCError('CONFLICT', { message: 'Email address is already in use' });
+      }
+
+      const pending = await findEmailChangeRequest(db, userId);
+      const retryAfter = getOtpRetryAfter(pending?.lastSentAt, OTP_EMAIL_RESEND_COOLDOWN_MS);
+      if (retryAfter > 0) {
+        throw new ORPCError('TOO_MANY_REQUESTS', {
+          message: 'Please wait before requesting another code',
+          data: { retryAfter },
+        });
+      }
+
+      const otp = parseInt(generateOtp(OTP_LENGTH));
+      const expiresAt = new Date(Date.now() + OTP_TTL_MS);
+
+      await upsertEmailChangeRequest(db, userId, newEmail, otp, expiresAt);
+      await sendEmailChangeEmail(ctx.env, db, newEmail, otp);
+
+      return {
+        success: true,
+        message: 'A confirmation code was sent to the new address',
+        expiresAt,
+      };
+    }),
+
+  verifyEmailChange: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/me/email/verify',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ otp: z.number() }))
+    .output(userProfileResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+
+      const request = await findEmailChangeRequest(db, userId);
+      if (!request) {
+        throw new ORPCError('NOT_FOUND', { message: 'No email change pending' });
+      }
+
+      if (request.expiresAt <= new Date()) {
+        throw new ORPCError('BAD_REQUEST', { message: 'Code expired, request a new one' });
+      }
+
+      // Count the attempt before comparing so parallel guesses cannot exceed the limit
+      const attempt = await consumeEmailChangeAttempt(db, request.id, OTP_MAX_ATTEMPTS);
+      if (!attempt) {
+        throw new ORPCError('TOO_MANY_REQUESTS', {
+          message: 'Too many failed attempts, request a new code',
+          data: { attemptsRemaining: 0 },
+        });
+      }
+
+      if (request.otp !== input.otp) {
+        throw new ORPCError('BAD_REQUEST', {
+          message: 'Invalid code',
+          data: { attemptsRemaining: OTP_MAX_ATTEMPTS - attempt.attempts },
+        });
+      }
+
+      // Someone may have signed up with the address since the code was sent
+      const existingUser = await findUserByEmail(db, request.newEmail);
+      if (existingUser && existingUser.id !== userId) {
+        await deleteEmailChangeRequest(db, userId);
+        throw new ORPCError('CONFLICT', { message: 'Email address is already in use' });
+      }
+
+      await updateUserEmail(db, userId, request.newEmail);
+      await deleteEmailChangeRequest(db, userId);
+
+      return await getProfile(db, userId);
+    }),
+
+  export: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/me/export',
+      tags: [OPENAPI_TAG],
+    })
+    .output(
+      z.object({
+        url: z.string(),
+        expiresAt: z.date(),
+      })
+    )
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      return await createAccountExport(ctx.env, ctx.get('db'), getAuthUserId(ctx));
+    }),
+
+  // The signed link is the credential, so it can be opened directly in a browser
+  downloadExport: publicProcedure
+    .route({
+      method: 'GET',
+      path: '/me/export/download',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ token: z.string() }))
+    .output(z.instanceof(File))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const key = await verifyAccountExportToken(ctx.env, input.token);
+
+      const object = await ctx.env.R2_BUCKET.get(key);
+      if (!object) {
+        throw new ORPCError('NOT_FOUND', { message: 'Export no longer available' });
+      }
+
+      return new File([await object.arrayBuffer()], 'account-export.json', {
+        type: 'application/json',
+      });
+    }),
+
+  delete: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/me/delete',
+      tags: [OPENAPI_TAG],
+    })
+    .output(userProfileResponseSchema)
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+
+      const user = await findUserById(db, userId);
+      if (user?.deletionScheduledFor) {
+        throw new ORPCError('CONFLICT', {
+          message: 'Account deletion is already scheduled',
+          data: { deletionScheduledFor: user.deletionScheduledFor },
+        });
+      }
+
+      await assertAccountDeletable(db, userId);
+
+      // The account stays usable until the grace period ends, then it is anonymized by the scheduled job
+      await scheduleAccountDeletion(db, userId, getAccountDeletionDate());
+
+      return await getProfile(db, userId);
+    }),
+
+  cancelDeletion: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/me/delete/cancel',
+      tags: [OPENAPI_TAG],
+    })
+    .output(userProfileResponseSchema)
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const userId = getAuthUserId(ctx);
+
+      const user = await cancelAccountDeletion(db, userId);
+      if (!user) {
+        throw new ORPCError('NOT_FOUND', { message: 'No account deletion scheduled' });
+      }
+
+      return await getProfile(db, userId);
+    }),
+};
@@ -1,6 +1,6 @@
 import z from "zod/v3";
 import { ORPCError } from '@orpc/server';
-import { protectedProcedure } from '../procedures';
+import { protectedProcedure, idempotencyMiddleware } from '../procedures';
 import type { TRPCContext } from '../context';
 import {
   createOrder,
@@ -10,23 +10,81 @@ import {
   listUserOrders,
   listVendorOrders,
   listAllOrders,
-  updateOrderStatus,
-  updateVendorOrderStatus,
   addTrackingNumber,
+  createOrderStatusHistory,
+  getVendorOrderTracking,
+  listOrderStatusHistory,
 } from '../repositories/order.repository';
 import { orderStatusSchema } from '../schemas/common.schema';
-import { orderResponseSchema, orderListItemResponseSchema, vendorOrderListItemResponseSchema } from '../schemas/order.schema';
-import { getOrCreateCart, getCartWithItems, clearCart } from '../repositories/cart.repository';
-import { getPromoCodeByCode } from '../repositories/promo.repository';
+import {
+  orderResponseSchema,
+  orderListItemResponseSchema,
+  vendorOrderListItemResponseSchema,
+  orderStatusHistoryResponseSchema,
+} from '../schemas/order.schema';
+import { removeCartItems } from '../repositories/cart.repository';
+import { redeemPromoCode } from '../repositories/promo.repository';
 import { getVendorByUserId } from '../repositories/vendor.repository';
-import { getPaginationParams, paginationQuerySchema } from '../utils/pagination.utils';
-import { calculateOrderTotals, generateOrderNumber, groupOrderItemsByVendor } from '../utils/order.utils';
-import { updateInventory } from '../repositories/product.repository';
+import { getPaginationParams, paginationQuerySchema, cursorPaginationQuerySchema, paginationMetaSchema } from '../utils/pagination.utils';
+import { generateOrderNumber, groupOrderItemsByVendor } from '../utils/order.utils';
+import { MAX_PROMO_CODES_PER_ORDER } from '../utils/promo.utils';
+import { priceCart } from '../utils/checkout.utils';
+import { formatMoney } from '../utils/money.utils';
+import { currencyCodeSchema } from '../schemas/currency.schema';
+import { checkStock, getAvailableQuantity, lockVariantsForUpdate } from '../repositories/product.repository';
+import { DB, runInTransaction } from '../utils/db.utils';
+import { sendOrderConfirmationEmail } from '../services/email.service';
+import { OrderStatusActor, transitionOrderStatus, transitionVendorOrderStatus } from '../utils/order-status.utils';
+import { cancelOrder } from '../utils/order-cancellation.utils';
+import { getReservationExpiry, reserveOrderItem } from '../utils/reservation.utils';
+import { refundResponseSchema } from '../schemas/payment.schema';
+import { checkPermissions } from '../utils/auth.utils';
 
 const OPENAPI_TAG = 'Order';
 
+async function getOrderByIdOrThrow(db: DB, id: string) {
+  const order = await getOrderById(db, id);
+  if (!order) {
+    throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+  }
+  return order;
+}
+
+// Holders of the admin order permissions (admins, or e.g. support roles) see and act on every order
+function canManageAllOrders(ctx: TRPCContext, permission: 'admin:order:r' | 'admin:order:rw') {
+  return checkPermissions(ctx.get('authUserRoles') || [], ctx.get('authUserPermissions') || [], {
+    anyOf: [permission],
+  });
+}
+
+// Admins may act on any vendor's part of an order, vendors only on their own
+async function getVendorOrderActor(
+  ctx: TRPCContext,
+  vendorId: string,
+  forbiddenMessage: string
+): Promise<OrderStatusActor> {
+  const db = ctx.get('db');
+  const authUser = ctx.get('authUser');
+
+  if (!authUser) {
+    throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+  }
+
+  if (canManageAllOrders(ctx, 'admin:order:rw')) {
+    return { id: authUser.id, role: 'admin' };
+  }
+
+  const vendor = await getVendorByUserId(db, authUser.id);
+  if (!vendor || vendor.id !== vendorId) {
+    throw new ORPCError('FORBIDDEN', { message: forbiddenMessage });
+  }
+
+  return { id: authUser.id, role: 'vendor' };
+}
+
 export const orderRoutes = {
   createOrder: protectedProcedure({ anyOf: ['user'] })
+    .use(idempotencyMiddleware)
     .route({
       method: 'POST',
       path: '/orders',
@@ -35,7 +93,11 @@ export const orderRoutes = {
     .input(
       z.object({
         shippingAddressId: z.string(),
+        // Charge currency; defaults to the catalog currency of the cart
+        currency: currencyCodeSchema.optional(),
         promoCode: z.string().optional(),
+        // Additional codes; only codes marked stackable can be combined
+        promoCodes: z.array(z.string()).max(MAX_PROMO_CODES_PER_ORDER).optional(),
         paymentMethod: z.string().optional(),
         notes: z.string().max(1000).optional(),
       })
@@ -50,77 +112,165 @@ export const orderRoutes = {
         throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
       }
 
-      const cart = await getOrCreateCart(db, authUser.id);
-      const cartData = await getCartWithItems(db, cart.id);
-      if (!cartData || !cartData.items || cartData.items.length === 0) {
-        throw new ORPCError('BAD_REQUEST', { message: 'Cart is empty' });
-      }
-
-      const cartItems = cartData.items.map(item => ({
-        ...item.item,
-        price: item.variant.price,
-      }));
+      const { cartData, totals, exchangeRates } = await priceCart(db, authUser.id, {
+        promoCodes: [...(input.promoCode ? [input.promoCode] : []), ...(input.promoCodes ?? [])],
+        shippingAddressId: input.shippingAddressId,
+        currency: input.currency,
+      });
 
-      let promoCodeData = null;
-      if (input.promoCode) {
-        promoCodeData = await getPromoCodeByCode(db, input.promoCode);
+      if (totals.rejectedPromoCodes.length > 0) {
+        throw new ORPCError('BAD_REQUEST', {
+          message: totals.rejectedPromoCodes[0]!.reason,
+          data: { promoCodes: totals.rejectedPromoCodes },
+        });
       }
 
-      const totals = calculateOrderTotals(cartItems, promoCodeData, 0, 0);
-
       const orderNumber = generateOrderNumber();
 
-      const order = await createOrder(db, {
-        userId: authUser.id,
-        shippingAddressId: input.shippingAddressId,
-        orderNumber,
-        subtotal: totals.subtotal,
-        discountAmount: totals.discountAmount,
-        promoCodeId: promoCodeData?.id,
-        shippingCost: totals.shippingCost,
-        taxAmount: totals.taxAmount,
-        total: totals.total,
-        status: 'pending',
-        paymentStatus: 'pending',
-        paymentMethod: input.paymentMethod,
-        notes: input.notes,
-      });
+      const order = await runInTransaction(ctx.env, async (tx) => {
+        const lockedVariants = await lockVariantsForUpdate(
+          tx,
+          cartData.items.map((item) => item.item.variantId)
+        );
+        const lockedVariantsById = new Map(lockedVariants.map((variant) => [variant.id, variant]));
+
+        const stockChecks = await Promise.all(
+          cartData.items.map(async (item) => ({
+            item,
+            inStock: await checkStock(tx, item.item.variantId, item.item.quantity),
+          }))
+        );
+
+        const unavailableLines = stockChecks
+          .filter((check) => !check.inStock)
+          .map(({ item }) => {
+            const variant = lockedVariantsById.get(item.item.variantId);
+            return {
+              cartItemId: item.item.id,
+              productId: item.item.productId,
+              variantId: item.item.variantId,
+              requestedQuantity: item.item.quantity,
+              availableQuantity: variant ? getAvailableQuantity(variant) : 0,
+            };
+          });
+
+        if (unavailableLines.length > 0) {
+          throw new ORPCError('CONFLICT', {
+            message: 'Some items in your cart are out of stock',
+            data: { lines: unavailableLines },
+          });
+        }
 
-      for (const item of cartData.items) {
-        const itemTotal = (parseFloat(item.variant.price) * item.item.quantity).toFixed(2);
-        
-        await createOrderItem(db, {
-          orderId: order.id,
-          productId: item.item.productId,
-          variantId: item.item.variantId,
-          vendorId: item.product.vendorId,
-          quantity: item.item.quantity,
-          unitPrice: item.variant.price,
-          totalPrice: itemTotal,
+        const createdOrder = await createOrder(tx, {
+          userId: authUser.id,
+          shippingAddressId: input.shippingAddressId,
+          orderNumber,
+          subtotal: totals.subtotal,
+          discountAmount: totals.discountAmount,
+          promoCodeId: totals.discounts[0]?.promoCodeId,
+          shippingCost: totals.shippingCost,
+          taxAmount: totals.taxAmount,
+          total: totals.total,
+          currency: totals.currency,
+          exchangeRates,
           status: 'pending',
+          paymentStatus: 'pending',
+          paymentMethod: input.paymentMethod,
+          notes: input.notes,
         });
 
-        await updateInventory(db, item.item.variantId, -item.item.quantity);
-      }
+        await createOrderStatusHistory(tx, {
+          orderId: createdOrder.id,
+          entityType: 'order',
+          entityId: createdOrder.id,
+          fromStatus: null,
+          toStatus: 'pending',
+          actorId: authUser.id,
+          actorRole: 'customer',
+        });
+
+        const lineTotalsById = new Map(totals.lines.map((line) => [line.lineId, line]));
+        // Stock is only held until payment; see releaseExpiredReservations
+        const reservationExpiresAt = getReservationExpiry();
+
+        for (const item of cartData.items) {
+          // Line amounts are already in the charge currency
+          const lineTotal = lineTotalsById.get(item.item.id)!;
+
+          const orderItem = await createOrderItem(tx, {
+            orderId: createdOrder.id,
+            productId: item.item.productId,
+            variantId: item.item.variantId,
+            vendorId: item.product.vendorId,
+            quantity: item.item.quantity,
+            unitPrice: lineTotal.unitPrice,
+            totalPrice: lineTotal.subtotal,
+            discountAmount: lineTotal.discountAmount,
+            taxName: lineTotal.taxName ?? undefined,
+            taxRate: lineTotal.taxRate,
+            taxAmount: lineTotal.taxAmount,
+            priceIncludesTax: lineTotal.priceIncludesTax,
+            status: 'pending',
+          });
+
+          await reserveOrderItem(tx, orderItem, reservationExpiresAt);
+        }
 
-      const orderItems = cartData.items.map(item => ({
-        vendorId: item.product.vendorId,
-        totalPrice: (parseFloat(item.variant.price) * item.item.quantity).toFixed(2),
-      }));
+        const orderItems = totals.lines.map((line) => ({
+          vendorId: line.vendorId,
+          totalPrice: line.subtotal,
+        }));
 
-      const vendorGroups = groupOrderItemsByVendor(orderItems);
+        const vendorGroups = groupOrderItemsByVendor(orderItems, totals.currency);
 
-      for (const group of vendorGroups) {
-        await createOrderVendorTracking(db, {
-          orderId: order.id,
-          vendorId: group.vendorId,
-          subtotal: group.subtotal.toFixed(2),
-          status: 'pending',
+        for (const group of vendorGroups) {
+          const shipment = totals.shipments.find((vendorShipment) => vendorShipment.vendorId === group.vendorId);
+
+          await createOrderVendorTracking(tx, {
+            orderId: createdOrder.id,
+            vendorId: group.vendorId,
+            subtotal: formatMoney(group.subtotal),
+            shippingCost: shipment?.shippingCost ?? '0.00',
+            status: 'pending',
+          });
+        }
+
+        for (const discount of totals.discounts) {
+          const redemption = await redeemPromoCode(tx, {
+            promoCodeId: discount.promoCodeId,
+            userId: authUser.id,
+            orderId: createdOrder.id,
+            discountAmount: discount.amount,
+          });
+
+          if (!redemption.redeemed) {
+            throw new ORPCError('BAD_REQUEST', {
+              message: redemption.error,
+              data: { promoCodes: [{ code: discount.code, reason: redemption.error }] },
+            });
+          }
+        }
+
+        // Only the items priced above: anything added to the cart since stays for the next checkout
+        await removeCartItems(
+          tx,
+          cartData.cart.id,
+          cartData.items.map(({ item }) => item.id)
+        );
+
+        return createdOrder;
+      });
+
+      try {
+        await sendOrderConfirmationEmail(ctx.env, db, authUser.email, {
+          orderNumber: order.orderNumber,
+          total: `${order.total} ${order.currency}`,
+          itemCount: cartData.items.reduce((count, item) => count + item.item.quantity, 0),
         });
+      } catch {
+        // The order is already committed and sendEmail has logged the failure; checkout should still succeed
       }
 
-      await clearCart(db, cartData.cart.id);
-
       return {
         orderId: order.id,
         orderNumber: order.orderNumber,
@@ -133,18 +283,11 @@ export const orderRoutes = {
       path: '/orders',
       tags: [OPENAPI_TAG],
     })
-    .input(paginationQuerySchema)
+    .input(cursorPaginationQuerySchema)
     .output(
       z.object({
         data: z.array(orderListItemResponseSchema),
-        meta: z.object({
-          total: z.number(),
-          page: z.number(),
-          limit: z.number(),
-          totalPages: z.number(),
-          hasNextPage: z.boolean(),
-          hasPreviousPage: z.boolean(),
-        }),
+        meta: paginationMetaSchema,
       })
     )
     .handler(async ({ input, context }) => {
@@ -202,7 +345,7 @@ export const orderRoutes = {
       return result;
     }),
 
-  getAllOrders: protectedProcedure({ anyOf: ['admin'] })
+  getAllOrders: protectedProcedure({ anyOf: ['admin:order:r'] })
     .route({
       method: 'GET',
       path: '/orders/all',
@@ -214,19 +357,12 @@ export const orderRoutes = {
         paymentStatus: z.string().optional(),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
-      }).merge(paginationQuerySchema)
+      }).merge(cursorPaginationQuerySchema)
     )
     .output(
       z.object({
         data: z.array(orderListItemResponseSchema),
-        meta: z.object({
-          total: z.number(),
-          page: z.number(),
-          limit: z.number(),
-          totalPages: z.number(),
-          hasNextPage: z.boolean(),
-          hasPreviousPage: z.boolean(),
-        }),
+        meta: paginationMetaSchema,
       })
     )
     .handler(async ({ input, context }) => {
@@ -245,7 +381,7 @@ export const orderRoutes = {
       return result;
     }),
 
-  getOrder: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+  getOrder: protectedProcedure({ anyOf: ['user', 'vendor', 'admin:order:r'] })
     .route({
       method: 'GET',
       path: '/orders/:id',
@@ -257,7 +393,6 @@ export const orderRoutes = {
       const ctx = context as TRPCContext;
       const db = ctx.get('db');
       const authUser = ctx.get('authUser');
-      const authUserRoles = ctx.get('authUserRoles') || [];
 
       if (!authUser) {
         throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
@@ -268,7 +403,7 @@ export const orderRoutes = {
         throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
       }
 
-      const isAdmin = authUserRoles.includes('admin') || authUserRoles.includes('superadmin');
+      const isAdmin = canManageAllOrders(ctx, 'admin:order:r');
       
       if (!isAdmin && order.userId !== authUser.id) {
         const vendor = await getVendorByUserId(db, authUser.id);
@@ -280,7 +415,98 @@ export const orderRoutes = {
       return order;
     }),
 
-  updateOrderStatus: protectedProcedure({ anyOf: ['admin'] })
+  getOrderTimeline: protectedProcedure({ anyOf: ['user', 'vendor', 'admin:order:r'] })
+    .route({
+      method: 'GET',
+      path: '/orders/:id/timeline',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(z.array(orderStatusHistoryResponseSchema))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const order = await getOrderByIdOrThrow(db, input.id);
+      const history = await listOrderStatusHistory(db, order.id);
+
+      const isAdmin = canManageAllOrders(ctx, 'admin:order:r');
+      if (isAdmin || order.userId === authUser.id) {
+        return history;
+      }
+
+      // Vendors see the order-level entries and their own part of the order
+      const vendor = await getVendorByUserId(db, authUser.id);
+      if (!vendor || !(await getVendorOrderTracking(db, order.id, vendor.id))) {
+        throw new ORPCError('FORBIDDEN', { message: 'Not authorized to view this order' });
+      }
+
+      return history.filter((entry) => entry.entityType === 'order' || entry.vendorId === vendor.id);
+    }),
+
+  cancelOrder: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'POST',
+      path: '/orders/:id/cancel',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        id: z.string(),
+        // Cancel only these vendors' parts of the order; the whole order when omitted
+        vendorIds: z.array(z.string()).min(1).optional(),
+        reason: z.string().max(500).optional(),
+      })
+    )
+    .output(
+      z.object({
+        orderId: z.string(),
+        status: z.string(),
+        cancelledVendorIds: z.array(z.string()),
+        cancelledAmount: z.string(),
+        currency: z.string(),
+        refund: refundResponseSchema.nullable(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const order = await getOrderByIdOrThrow(db, input.id);
+      if (order.userId !== authUser.id) {
+        throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+      }
+
+      const result = await cancelOrder(ctx.env, db, order.id, {
+        actor: { id: authUser.id, role: 'customer' },
+        vendorIds: input.vendorIds,
+        reason: input.reason,
+        enforceWindows: true,
+      });
+
+      return {
+        ...result,
+        refund: result.refund && {
+          id: result.refund.id,
+          vendorId: result.refund.vendorId,
+          amount: result.refund.amount,
+          currency: result.refund.currency,
+          status: result.refund.status as 'pending' | 'succeeded' | 'failed',
+        },
+      };
+    }),
+
+  updateOrderStatus: protectedProcedure({ anyOf: ['admin:order:rw'] })
     .route({
       method: 'PATCH',
       path: '/orders/:id/status',
@@ -290,22 +516,30 @@ export const orderRoutes = {
       z.object({
         id: z.string(),
         status: orderStatusSchema,
+        reason: z.string().max(500).optional(),
       })
     )
     .output(z.object({ success: z.boolean() }))
     .handler(async ({ input, context }) => {
       const ctx = context as TRPCContext;
       const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
 
-      const order = await updateOrderStatus(db, input.id, input.status);
-      if (!order) {
-        throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+      const actor: OrderStatusActor = { id: authUser?.id ?? null, role: 'admin' };
+
+      // Cancelling goes through the cancellation flow so stock, promo usage and payment are unwound
+      if (input.status === 'cancelled') {
+        await cancelOrder(ctx.env, db, input.id, { actor, reason: input.reason });
+        return { success: true };
       }
 
+      const order = await getOrderByIdOrThrow(db, input.id);
+      await transitionOrderStatus(db, order, input.status, { actor, reason: input.reason });
+
       return { success: true };
     }),
 
-  updateVendorOrderStatus: protectedProcedure({ anyOf: ['vendor', 'admin'] })
+  updateVendorOrderStatus: protectedProcedure({ anyOf: ['vendor', 'admin:order:rw'] })
     .route({
       method: 'PATCH',
       path: '/orders/:orderId/vendors/:vendorId/status',
@@ -316,37 +550,38 @@ export const orderRoutes = {
         orderId: z.string(),
         vendorId: z.string(),
         status: orderStatusSchema,
+        reason: z.string().max(500).optional(),
       })
     )
     .output(z.object({ success: z.boolean() }))
     .handler(async ({ input, context }) => {
       const ctx = context as TRPCContext;
       const db = ctx.get('db');
-      const authUser = ctx.get('authUser');
-      const authUserRoles = ctx.get('authUserRoles') || [];
+      const actor = await getVendorOrderActor(ctx, input.vendorId, 'Not authorized to update this vendor order');
 
-      if (!authUser) {
-        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      const tracking = await getVendorOrderTracking(db, input.orderId, input.vendorId);
+      if (!tracking) {
+        throw new ORPCError('NOT_FOUND', { message: 'Vendor order tracking not found' });
       }
 
-      const isAdmin = authUserRoles.includes('admin') || authUserRoles.includes('superadmin');
-      
-      if (!isAdmin) {
-        const vendor = await getVendorByUserId(db, authUser.id);
-        if (!vendor || vendor.id !== input.vendorId) {
-          throw new ORPCError('FORBIDDEN', { message: 'Not authorized to update this vendor order' });
-        }
+      if (input.status === 'cancelled') {
+        await cancelOrder(ctx.env, db, input.orderId, {
+          actor,
+          vendorIds: [input.vendorId],
+          reason: input.reason,
+        });
+        return { success: true };
       }
 
-      const tracking = await updateVendorOrderStatus(db, input.orderId, input.vendorId, input.status);
-      if (!tracking) {
-        throw new ORPCError('NOT_FOUND', { message: 'Vendor order tracking not found' });
-      }
+      await transitionVendorOrderStatus(db, tracking, input.status, {
+        actor,
+        reason: input.reason,
+      });
 
       return { success: true };
     }),
 
-  addTrackingNumber: protectedProcedure({ anyOf: ['vendor', 'admin'] })
+  addTrackingNumber: protectedProcedure({ anyOf: ['vendor', 'admin:order:rw'] })
     .route({
       method: 'PATCH',
       path: '/orders/:orderId/vendors/:vendorId/tracking',
@@ -363,26 +598,23 @@ export const orderRoutes = {
     .handler(async ({ input, context }) => {
       const ctx = context as TRPCContext;
       const db = ctx.get('db');
-      const authUser = ctx.get('authUser');
-      const authUserRoles = ctx.get('authUserRoles') || [];
+      const actor = await getVendorOrderActor(ctx, input.vendorId, 'Not authorized to add tracking for this vendor order');
 
-      if (!authUser) {
-        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      const tracking = await getVendorOrderTracking(db, input.orderId, input.vendorId);
+      if (!tracking) {
+        throw new ORPCError('NOT_FOUND', { message: 'Vendor order tracking not found' });
       }
 
-      const isAdmin = authUserRoles.includes('admin') || authUserRoles.includes('superadmin');
-      
-      if (!isAdmin) {
-        const vendor = await getVendorByUserId(db, authUser.id);
-        if (!vendor || vendor.id !== input.vendorId) {
-          throw new ORPCError('FORBIDDEN', { message: 'Not authorized to add tracking for this vendor order' });
-        }
+      // Correcting the number of a shipment that already went out is not a status change
+      if (tracking.status === 'shipped') {
+        await addTrackingNumber(db, input.orderId, input.vendorId, input.trackingNumber);
+        return { success: true };
       }
 
-      const tracking = await addTrackingNumber(db, input.orderId, input.vendorId, input.trackingNumber);
-      if (!tracking) {
-        throw new ORPCError('NOT_FOUND', { message: 'Vendor order tracking not found' });
-      }
+      await transitionVendorOrderStatus(db, tracking, 'shipped', {
+        actor,
+        trackingNumber: input.trackingNumber,
+      });
 
       return { success: true };
     }),
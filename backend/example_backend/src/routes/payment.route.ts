@@ -2,6 +2,37 @@ import z from "zod/v3";
 import { ORPCError } from '@orpc/server';
 import { publicProcedure, protectedProcedure } from '../procedures';
 import type { TRPCContext } from '../context';
+import {
+  getOrderById,
+  updateOrderPaymentStatus,
+} from '../repositories/order.repository';
+import {
+  claimPaymentEvent,
+  completePaymentEvent,
+  getPaymentEvent,
+  getRefundById,
+  recordPaymentEvent,
+  releasePaymentEvent,
+} from '../repositories/payment.repository';
+import {
+  getPaymentProvider,
+  toMinorUnits,
+  PAYMENT_WEBHOOK_SIGNATURE_HEADER,
+} from '../services/payment.service';
+import {
+  PAYMENT_EVENT_CLAIM_TIMEOUT_MS,
+  applyPaymentWebhookEvent,
+  canTransitionPaymentStatus,
+  getOrderAmountDue,
+  refundCancelledOrderPayment,
+  retryRefund,
+} from '../utils/payment.utils';
+import { getVendorByUserId } from '../repositories/vendor.repository';
+import { refundResponseSchema } from '../schemas/payment.schema';
+import { currencyCodeSchema } from '../schemas/currency.schema';
+import { transitionOrderStatus } from '../utils/order-status.utils';
+import { convertOrderReservations } from '../utils/reservation.utils';
+import { runInTransaction } from '../utils/db.utils';
 
 const OPENAPI_TAG = 'Payment';
 
@@ -15,8 +46,9 @@ export const paymentRoutes = {
     .input(
       z.object({
         orderId: z.string(),
-        amount: z.number().min(0),
-        currency: z.string().default('USD'),
+        amount: z.number().min(0).optional(),
+        // Must match the order's charge currency when given
+        currency: currencyCodeSchema.optional(),
       })
     )
     .output(
@@ -27,10 +59,184 @@ export const paymentRoutes = {
     )
     .handler(async ({ input, context }) => {
       const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
 
-      throw new ORPCError('NOT_IMPLEMENTED', {
-        message: 'Payment integration not yet implemented. This is a placeholder for future Stripe/PayPal integration.',
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const order = await getOrderById(db, input.orderId);
+      if (!order || order.userId !== authUser.id) {
+        throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+      }
+
+      if (order.paymentStatus === 'completed') {
+        throw new ORPCError('BAD_REQUEST', { message: 'Order is already paid' });
+      }
+
+      if (order.status === 'cancelled') {
+        throw new ORPCError('BAD_REQUEST', { message: 'Order is cancelled' });
+      }
+
+      if (input.currency && input.currency !== order.currency) {
+        throw new ORPCError('BAD_REQUEST', {
+          message: `Order is charged in ${order.currency}`,
+          data: { currency: order.currency },
+        });
+      }
+
+      const amount = getOrderAmountDue(order);
+      if (input.amount !== undefined && toMinorUnits(input.amount, order.currency) !== amount) {
+        throw new ORPCError('BAD_REQUEST', { message: 'Amount does not match order total' });
+      }
+
+      const provider = getPaymentProvider(ctx.env, db);
+
+      if (order.paymentIntentId) {
+        const existingIntent = await provider.retrieveIntent(order.paymentIntentId);
+
+        if (existingIntent.status !== 'canceled' && existingIntent.amount === amount) {
+          return {
+            paymentIntentId: existingIntent.id,
+            clientSecret: existingIntent.clientSecret,
+          };
+        }
+
+        // Part of the order was cancelled since the intent was created, so it would overcharge
+        if (existingIntent.status !== 'canceled') {
+          const cancelledIntent = await provider.cancelIntent(existingIntent.id);
+          if (cancelledIntent.status !== 'canceled') {
+            throw new ORPCError('CONFLICT', { message: 'Payment is already being processed' });
+          }
+        }
+      }
+
+      const intent = await provider.createIntent({
+        amount,
+        currency: order.currency,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          userId: authUser.id,
+        },
+        idempotencyKey: `order-${order.id}-${order.paymentIntentId ?? 'initial'}`,
       });
+
+      await updateOrderPaymentStatus(db, order.id, 'pending', intent.id);
+
+      return {
+        paymentIntentId: intent.id,
+        clientSecret: intent.clientSecret,
+      };
+    }),
+
+  confirmPayment: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'POST',
+      path: '/payment/confirm',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        orderId: z.string(),
+        paymentMethod: z.string().optional(),
+      })
+    )
+    .output(
+      z.object({
+        paymentIntentId: z.string(),
+        paymentStatus: z.string(),
+        orderStatus: z.string(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const order = await getOrderById(db, input.orderId);
+      if (!order || order.userId !== authUser.id) {
+        throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+      }
+
+      if (!order.paymentIntentId) {
+        throw new ORPCError('BAD_REQUEST', { message: 'No payment intent for this order' });
+      }
+
+      const provider = getPaymentProvider(ctx.env, db);
+
+      const currentIntent = await provider.retrieveIntent(order.paymentIntentId);
+
+      // Void the intent of a cancelled order, or refund it if the buyer already paid it elsewhere
+      if (order.status === 'cancelled') {
+        if (currentIntent.status === 'succeeded' && canTransitionPaymentStatus(order.paymentStatus, 'completed')) {
+          await refundCancelledOrderPayment(ctx.env, db, order, currentIntent);
+        } else if (currentIntent.status !== 'succeeded' && currentIntent.status !== 'canceled') {
+          await provider.cancelIntent(currentIntent.id);
+        }
+        throw new ORPCError('BAD_REQUEST', { message: 'Order is cancelled' });
+      }
+
+      // An intent created before part of the order was cancelled still asks for the old total
+      if (currentIntent.status !== 'succeeded' && currentIntent.amount !== getOrderAmountDue(order)) {
+        throw new ORPCError('BAD_REQUEST', {
+          message: 'Order total changed, create a new payment intent',
+        });
+      }
+
+      const intent = await provider.confirmIntent(order.paymentIntentId, input.paymentMethod);
+
+      if (intent.status === 'succeeded' && canTransitionPaymentStatus(order.paymentStatus, 'completed')) {
+        // Paid, stock converted and confirmed together, so a failure cannot leave a paid order pending
+        const updatedOrder = await runInTransaction(ctx.env, async (tx) => {
+          await updateOrderPaymentStatus(tx, order.id, 'completed', intent.id);
+          await convertOrderReservations(tx, order.id);
+          return order.status === 'pending'
+            ? await transitionOrderStatus(tx, order, 'confirmed', {
+                actor: { id: authUser.id, role: 'customer' },
+                reason: 'Payment completed',
+              })
+            : order;
+        }).catch(async (error) => {
+          // Cancelled while the payment went through, e.g. its reservation expired
+          const latest = await getOrderById(db, order.id);
+          if (latest?.status !== 'cancelled') {
+            throw error;
+          }
+          await refundCancelledOrderPayment(ctx.env, db, latest, intent);
+          throw new ORPCError('BAD_REQUEST', { message: 'Order is cancelled' });
+        });
+
+        return {
+          paymentIntentId: intent.id,
+          paymentStatus: 'completed',
+          orderStatus: updatedOrder?.status ?? order.status,
+        };
+      }
+
+      if (
+        (intent.status === 'requires_payment_method' || intent.status === 'canceled') &&
+        canTransitionPaymentStatus(order.paymentStatus, 'failed')
+      ) {
+        await updateOrderPaymentStatus(db, order.id, 'failed', intent.id);
+
+        return {
+          paymentIntentId: intent.id,
+          paymentStatus: 'failed',
+          orderStatus: order.status,
+        };
+      }
+
+      return {
+        paymentIntentId: intent.id,
+        paymentStatus: order.paymentStatus,
+        orderStatus: order.status,
+      };
     }),
 
   handleWebhook: publicProcedure
@@ -41,12 +247,114 @@ export const paymentRoutes = {
     })
     // Using z.unknown() for webhook payloads as they can have dynamic structures
     // from different payment providers (Stripe, PayPal, etc.)
+    // The signed raw body captured in index.ts is what actually gets processed, so this
+    // procedure is only served over OpenAPI (see rpcRouter).
     .input(z.unknown())
-    .output(z.object({ received: z.boolean() }))
-    .handler(async ({ input, context }) => {
+    .output(z.object({ received: z.boolean(), duplicate: z.boolean().optional() }))
+    .handler(async ({ context }) => {
       const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const rawBody = ctx.get('rawBody');
+      const webhookSecret = ctx.env.PAYMENT_WEBHOOK_SECRET;
+
+      if (!webhookSecret) {
+        throw new ORPCError('INTERNAL_SERVER_ERROR', {
+          message: 'Payment webhook secret is not configured',
+        });
+      }
+
+      if (!rawBody) {
+        throw new ORPCError('BAD_REQUEST', { message: 'Empty webhook payload' });
+      }
+
+      const provider = getPaymentProvider(ctx.env, db);
+      const event = await provider.constructWebhookEvent(
+        rawBody,
+        ctx.c.req.header(PAYMENT_WEBHOOK_SIGNATURE_HEADER),
+        webhookSecret
+      );
+
+      await recordPaymentEvent(db, {
+        provider: provider.name,
+        eventId: event.id,
+        type: event.providerType,
+        paymentIntentId: event.paymentIntentId,
+        payload: event.payload,
+      });
+
+      const claimed = await claimPaymentEvent(
+        db,
+        event.id,
+        new Date(Date.now() - PAYMENT_EVENT_CLAIM_TIMEOUT_MS)
+      );
+      if (!claimed) {
+        const existing = await getPaymentEvent(db, event.id);
+        if (existing?.status === 'processing') {
+          // Failing makes the provider redeliver, by which time the claim is finished or stale
+          throw new ORPCError('CONFLICT', { message: 'Webhook event is already being processed' });
+        }
+        return { received: true, duplicate: true };
+      }
+
+      try {
+        const result = await applyPaymentWebhookEvent(ctx.env, db, event);
+        await completePaymentEvent(
+          db,
+          event.id,
+          result.applied ? 'processed' : 'ignored',
+          result.orderId
+        );
+      } catch (error) {
+        await releasePaymentEvent(db, event.id);
+        throw error;
+      }
 
       return { received: true };
     }),
-};
 
+  retryRefund: protectedProcedure({ anyOf: ['vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/payment/refunds/:id/retry',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(refundResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+      const authUserRoles = ctx.get('authUserRoles') || [];
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const refund = await getRefundById(db, input.id);
+      if (!refund) {
+        throw new ORPCError('NOT_FOUND', { message: 'Refund not found' });
+      }
+
+      // Admins may retry any refund, vendors the ones for their part of an order
+      const isAdmin = authUserRoles.includes('admin') || authUserRoles.includes('superadmin');
+      if (!isAdmin) {
+        const vendor = await getVendorByUserId(db, authUser.id);
+        if (!vendor || vendor.id !== refund.vendorId) {
+          throw new ORPCError('FORBIDDEN', { message: 'Not authorized to retry this refund' });
+        }
+      }
+
+      const retried = await retryRefund(ctx.env, db, refund.id);
+      if (!retried) {
+        throw new ORPCError('CONFLICT', { message: 'Only failed refunds can be retried' });
+      }
+
+      return {
+        id: retried.id,
+        vendorId: retried.vendorId,
+        amount: retried.amount,
+        currency: retried.currency,
+        status: retried.status as 'pending' | 'succeeded' | 'failed',
+      };
+    }),
+};
@@ -19,16 +19,19 @@ import {
   updateInventory,
   createVariantOption,
   getVariantOptions,
+  getProductFacets,
 } from "../repositories/product.repository";
 import { productStatusSchema } from "../schemas/common.schema";
-import { getVendorByUserId } from "../repositories/vendor.repository";
+import { getVendorById, getVendorByUserId } from "../repositories/vendor.repository";
 import {
   getPaginationParams,
-  paginationQuerySchema,
+  cursorPaginationQuerySchema,
+  paginationMetaSchema,
 } from "../utils/pagination.utils";
 import {
   productFiltersSchema,
   productSearchSchema,
+  productFacetsSchema,
 } from "../utils/search.utils";
 import {
   generateUploadToken,
@@ -36,9 +39,11 @@ import {
   getPublicUrl,
 } from "../utils/r2.utils";
 import {
-  productResponseSchema,
+  productListItemResponseSchema,
   productDetailResponseSchema,
 } from "../schemas/product.schema";
+import { currencyCodeSchema } from "../schemas/currency.schema";
+import { withDisplayPrices } from "../utils/currency.utils";
 
 const OPENAPI_TAG = "Product";
 
@@ -58,6 +63,8 @@ export const productRoutes = {
         basePrice: z.string(),
         status: productStatusSchema.optional(),
         tags: z.array(z.string()).optional(),
+        taxClass: z.string().min(1).max(50).optional(),
+        priceIncludesTax: z.boolean().optional(),
         vendorId: z.string().optional(),
       })
     )
@@ -77,23 +84,27 @@ export const productRoutes = {
       const isAdmin =
         authUserRoles.includes("admin") || authUserRoles.includes("superadmin");
 
-      let vendorId: string;
+      let vendor;
       if (isAdmin && input.vendorId) {
-        vendorId = input.vendorId;
+        vendor = await getVendorById(db, input.vendorId);
+        if (!vendor) {
+          throw new ORPCError("NOT_FOUND", { message: "Vendor not found" });
+        }
       } else {
-        const vendor = await getVendorByUserId(db, authUser.id);
+        vendor = await getVendorByUserId(db, authUser.id);
         if (!vendor || vendor.status !== "approved") {
           throw new ORPCError("FORBIDDEN", {
             message: "No approved vendor account found",
           });
         }
-        vendorId = vendor.id;
       }
 
       const { vendorId: _, ...productData } = input;
       const product = await createProduct(db, {
         ...productData,
-        vendorId,
+        vendorId: vendor.id,
+        // Products are priced in their vendor's currency
+        currency: vendor.currency,
         status: input.status || "draft",
       });
 
@@ -109,19 +120,20 @@ export const productRoutes = {
     .input(
       productFiltersSchema
         .merge(productSearchSchema)
-        .merge(paginationQuerySchema)
+        .merge(cursorPaginationQuerySchema)
+        .merge(
+          z.object({
+            // Adds displayPrice converted to this currency; filters and facets stay in catalog prices
+            currency: currencyCodeSchema.optional(),
+          })
+        )
     )
     .output(
       z.object({
-        data: z.array(productResponseSchema),
-        meta: z.object({
-          total: z.number(),
-          page: z.number(),
-          limit: z.number(),
-          totalPages: z.number(),
-          hasNextPage: z.boolean(),
-          hasPreviousPage: z.boolean(),
-        }),
+        data: z.array(productListItemResponseSchema),
+        meta: paginationMetaSchema,
+        // Only on offset pages; cursor pages reuse the facets of the first page
+        facets: productFacetsSchema.optional(),
       })
     )
     .handler(async ({ input, context }) => {
@@ -132,8 +144,21 @@ export const productRoutes = {
       const filters = productFiltersSchema.parse(input);
       const search = productSearchSchema.parse(input);
 
-      const result = await listProducts(db, filters, search, pagination);
-      return result;
+      const withCurrency = async (result: Awaited<ReturnType<typeof listProducts>>) =>
+        input.currency
+          ? { ...result, data: await withDisplayPrices(db, result.data, input.currency) }
+          : result;
+
+      if (pagination.cursor) {
+        return await withCurrency(await listProducts(db, filters, search, pagination));
+      }
+
+      const [result, facets] = await Promise.all([
+        listProducts(db, filters, search, pagination),
+        getProductFacets(db, filters, search),
+      ]);
+
+      return { ...(await withCurrency(result)), facets };
     }),
 
   getProduct: publicProcedure
@@ -191,6 +216,8 @@ export const productRoutes = {
         basePrice: z.string().optional(),
         status: productStatusSchema.optional(),
         tags: z.array(z.string()).optional(),
+        taxClass: z.string().min(1).max(50).optional(),
+        priceIncludesTax: z.boolean().optional(),
       })
     )
     .output(z.object({ success: z.boolean() }))
@@ -333,7 +360,7 @@ export const productRoutes = {
       return { token, key, publicUrl, uploadUrl };
     }),
 
-  uploadImage: protectedProcedure({ anyOf: ["vendor", "admin"] })
+  uploadImage: protectedProcedure({ anyOf: ["user", "vendor", "admin"] })
     .route({
       method: "POST",
       path: "/upload/image",
@@ -360,6 +387,17 @@ export const productRoutes = {
           });
         }
 
+        // Buyers may only upload return photos and avatars, and only under their own prefixes
+        const authUser = ctx.get("authUser");
+        const authUserRoles = ctx.get("authUserRoles") || [];
+        const isBuyerOnly = !authUserRoles.some((role) => role !== "user");
+        const buyerPrefixes = [`returns/${authUser?.id}/`, `avatars/${authUser?.id}/`];
+        if (isBuyerOnly && !buyerPrefixes.some((prefix) => String(key).startsWith(prefix))) {
+          throw new ORPCError("FORBIDDEN", {
+            message: "Not authorized to upload to this location",
+          });
+        }
+
         const formData = await ctx.c.req.formData();
         const file = formData.get("file") as File;
 
@@ -377,6 +415,9 @@ export const productRoutes = {
         const publicUrl = getPublicUrl(env.R2_PUBLIC_URL, key);
         return { success: true, url: publicUrl };
       } catch (error) {
+        if (error instanceof ORPCError) {
+          throw error;
+        }
         throw new ORPCError("INTERNAL_SERVER_ERROR", {
           message: "Failed to upload image",
         });
@@ -442,6 +483,7 @@ export const productRoutes = {
         compareAtPrice: z.string().optional(),
         inventoryQuantity: z.number().int().min(0),
         lowStockThreshold: z.number().int().min(0).optional(),
+        weight: z.string().regex(/^\d+(\.\d{1,3})?$/).optional(),
         options: z
           .array(
             z.object({
@@ -467,6 +509,7 @@ export const productRoutes = {
         compareAtPrice: variantFields.compareAtPrice,
         inventoryQuantity: variantFields.inventoryQuantity,
         lowStockThreshold: variantFields.lowStockThreshold ?? 10,
+        weight: variantFields.weight,
       });
 
       if (options && options.length > 0) {
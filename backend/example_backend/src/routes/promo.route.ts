@@ -13,6 +13,7 @@ import {
 import { discountTypeSchema } from '../schemas/common.schema';
 import { promoCodeResponseSchema, promoCodeValidationResponseSchema } from '../schemas/promo.schema';
 import { getPaginationParams, paginationQuerySchema } from '../utils/pagination.utils';
+import { currencyCodeSchema } from '../schemas/currency.schema';
 
 const OPENAPI_TAG = 'PromoCode';
 
@@ -31,7 +32,13 @@ export const promoRoutes = {
         discountValue: z.string(),
         minOrderValue: z.string().optional(),
         maxDiscountAmount: z.string().optional(),
+        // Currency of the fixed amounts; converted at checkout when the order is in another currency
+        currency: currencyCodeSchema.optional(),
         usageLimit: z.number().int().min(1).optional(),
+        perUserLimit: z.number().int().min(1).optional(),
+        stackable: z.boolean().optional(),
+        buyQuantity: z.number().int().min(1).optional(),
+        getQuantity: z.number().int().min(1).optional(),
         validFrom: z.string(),
         validUntil: z.string(),
         isActive: z.boolean().optional(),
@@ -131,6 +138,10 @@ export const promoRoutes = {
         minOrderValue: z.string().optional(),
         maxDiscountAmount: z.string().optional(),
         usageLimit: z.number().int().min(1).optional(),
+        perUserLimit: z.number().int().min(1).optional(),
+        stackable: z.boolean().optional(),
+        buyQuantity: z.number().int().min(1).optional(),
+        getQuantity: z.number().int().min(1).optional(),
         validFrom: z.string().optional(),
         validUntil: z.string().optional(),
         isActive: z.boolean().optional(),
@@ -151,6 +162,10 @@ export const promoRoutes = {
         minOrderValue?: string;
         maxDiscountAmount?: string;
         usageLimit?: number;
+        perUserLimit?: number;
+        stackable?: boolean;
+        buyQuantity?: number;
+        getQuantity?: number;
         validFrom?: Date;
         validUntil?: Date;
         isActive?: boolean;
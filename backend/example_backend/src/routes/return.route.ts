@@ -0,0 +1,332 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { protectedProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import {
+  getReturnRequestById,
+  listUserReturnRequests,
+  listVendorReturnRequests,
+  updateReturnRequest,
+} from '../repositories/return.repository';
+import { getVendorByUserId } from '../repositories/vendor.repository';
+import {
+  returnReasonEnum,
+  returnStatusEnum,
+  returnRequestResponseSchema,
+  returnRequestListItemResponseSchema,
+} from '../schemas/return.schema';
+import { getPaginationParams, paginationQuerySchema, paginationMetaSchema } from '../utils/pagination.utils';
+import {
+  MAX_RETURN_PHOTOS,
+  ReturnStatus,
+  assertReturnTransition,
+  openReturnRequest,
+  receiveReturn,
+} from '../utils/return.utils';
+import {
+  generateReturnPhotoKey,
+  generateUploadToken,
+  getPublicUrl,
+  validateImageMetadata,
+} from '../utils/r2.utils';
+
+const OPENAPI_TAG = 'Return';
+
+// Loads a return the caller may decide on: admins any, vendors only their own
+async function getReturnForVendor(ctx: TRPCContext, id: string) {
+  const db = ctx.get('db');
+  const authUser = ctx.get('authUser');
+  const authUserRoles = ctx.get('authUserRoles') || [];
+
+  if (!authUser) {
+    throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+  }
+
+  const returnRequest = await getReturnRequestById(db, id);
+  if (!returnRequest) {
+    throw new ORPCError('NOT_FOUND', { message: 'Return request not found' });
+  }
+
+  const isAdmin = authUserRoles.includes('admin') || authUserRoles.includes('superadmin');
+  if (!isAdmin) {
+    const vendor = await getVendorByUserId(db, authUser.id);
+    if (!vendor || vendor.id !== returnRequest.vendorId) {
+      throw new ORPCError('FORBIDDEN', { message: 'Not authorized to manage this return' });
+    }
+  }
+
+  return returnRequest;
+}
+
+async function decideReturn(ctx: TRPCContext, id: string, status: ReturnStatus, vendorNote?: string) {
+  const db = ctx.get('db');
+  const returnRequest = await getReturnForVendor(ctx, id);
+  assertReturnTransition(returnRequest.status, status);
+
+  const updated = await updateReturnRequest(db, returnRequest.id, returnRequest.status, {
+    status,
+    vendorNote: vendorNote ?? returnRequest.vendorNote,
+    decidedAt: new Date(),
+  });
+  if (!updated) {
+    throw new ORPCError('CONFLICT', { message: 'The return was changed by another request, please retry' });
+  }
+
+  return (await getReturnRequestById(db, returnRequest.id))!;
+}
+
+export const returnRoutes = {
+  requestPhotoUpload: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'POST',
+      path: '/returns/photos/upload-url',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        filename: z.string(),
+        contentType: z.string(),
+        fileSize: z.number().int().min(1),
+      })
+    )
+    .output(
+      z.object({
+        token: z.string(),
+        key: z.string(),
+        publicUrl: z.string(),
+        uploadUrl: z.string(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const validation = validateImageMetadata(input.contentType, input.fileSize);
+      if (!validation.valid) {
+        throw new ORPCError('BAD_REQUEST', { message: validation.error });
+      }
+
+      const key = generateReturnPhotoKey(authUser.id, input.filename);
+      const { token } = await generateUploadToken(key);
+      const publicUrl = getPublicUrl(ctx.env.R2_PUBLIC_URL, key);
+      const uploadUrl = `/api/upload/image`;
+
+      return { token, key, publicUrl, uploadUrl };
+    }),
+
+  createReturn: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'POST',
+      path: '/returns',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        orderId: z.string(),
+        items: z
+          .array(
+            z.object({
+              orderItemId: z.string(),
+              quantity: z.number().int().min(1),
+              reason: z.enum(returnReasonEnum),
+            })
+          )
+          .min(1),
+        description: z.string().max(2000).optional(),
+        photos: z.array(z.string().url()).max(MAX_RETURN_PHOTOS).optional(),
+      })
+    )
+    .output(returnRequestResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      return await openReturnRequest(ctx.env, db, authUser.id, input);
+    }),
+
+  getUserReturns: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'GET',
+      path: '/returns',
+      tags: [OPENAPI_TAG],
+    })
+    .input(paginationQuerySchema)
+    .output(
+      z.object({
+        data: z.array(returnRequestListItemResponseSchema),
+        meta: paginationMetaSchema,
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      return await listUserReturnRequests(db, authUser.id, getPaginationParams(input));
+    }),
+
+  getVendorReturns: protectedProcedure({ anyOf: ['vendor'] })
+    .route({
+      method: 'GET',
+      path: '/returns/vendor',
+      tags: [OPENAPI_TAG],
+    })
+    .input(paginationQuerySchema.extend({ status: z.enum(returnStatusEnum).optional() }))
+    .output(
+      z.object({
+        data: z.array(returnRequestListItemResponseSchema),
+        meta: paginationMetaSchema,
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const vendor = await getVendorByUserId(db, authUser.id);
+      if (!vendor) {
+        throw new ORPCError('NOT_FOUND', { message: 'Vendor not found' });
+      }
+
+      return await listVendorReturnRequests(
+        db,
+        vendor.id,
+        { status: input.status },
+        getPaginationParams(input)
+      );
+    }),
+
+  getReturn: protectedProcedure({ anyOf: ['user', 'vendor', 'admin'] })
+    .route({
+      method: 'GET',
+      path: '/returns/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(returnRequestResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const returnRequest = await getReturnRequestById(db, input.id);
+      if (returnRequest && returnRequest.userId === authUser.id) {
+        return returnRequest;
+      }
+
+      return await getReturnForVendor(ctx, input.id);
+    }),
+
+  approveReturn: protectedProcedure({ anyOf: ['vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/returns/:id/approve',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string(), note: z.string().max(1000).optional() }))
+    .output(returnRequestResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      return await decideReturn(ctx, input.id, 'approved', input.note);
+    }),
+
+  rejectReturn: protectedProcedure({ anyOf: ['vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/returns/:id/reject',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string(), note: z.string().min(1).max(1000) }))
+    .output(returnRequestResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      return await decideReturn(ctx, input.id, 'rejected', input.note);
+    }),
+
+  receiveReturn: protectedProcedure({ anyOf: ['vendor', 'admin'] })
+    .route({
+      method: 'POST',
+      path: '/returns/:id/receive',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        id: z.string(),
+        // Units to put back in stock per return item; all of them when not listed
+        items: z
+          .array(
+            z.object({
+              returnItemId: z.string(),
+              restockQuantity: z.number().int().min(0),
+            })
+          )
+          .optional(),
+      })
+    )
+    .output(returnRequestResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const returnRequest = await getReturnForVendor(ctx, input.id);
+
+      const restockQuantities = new Map(
+        (input.items ?? []).map((item) => [item.returnItemId, item.restockQuantity])
+      );
+
+      return await receiveReturn(ctx.env, db, returnRequest.id, restockQuantities);
+    }),
+
+  cancelReturn: protectedProcedure({ anyOf: ['user'] })
+    .route({
+      method: 'POST',
+      path: '/returns/:id/cancel',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(returnRequestResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const authUser = ctx.get('authUser');
+
+      if (!authUser) {
+        throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+      }
+
+      const returnRequest = await getReturnRequestById(db, input.id);
+      if (!returnRequest || returnRequest.userId !== authUser.id) {
+        throw new ORPCError('NOT_FOUND', { message: 'Return request not found' });
+      }
+      assertReturnTransition(returnRequest.status, 'cancelled');
+
+      const updated = await updateReturnRequest(db, returnRequest.id, returnRequest.status, {
+        status: 'cancelled',
+      });
+      if (!updated) {
+        throw new ORPCError('CONFLICT', { message: 'The return was changed by another request, please retry' });
+      }
+
+      return (await getReturnRequestById(db, returnRequest.id))!;
+    }),
+};
@@ -13,7 +13,7 @@ import {
   checkUserHasPurchased,
 } from '../repositories/review.repository';
 import { reviewResponseSchema } from '../schemas/review.schema';
-import { getPaginationParams, paginationQuerySchema } from '../utils/pagination.utils';
+import { getPaginationParams, cursorPaginationQuerySchema, paginationMetaSchema } from '../utils/pagination.utils';
 
 const OPENAPI_TAG = 'Review';
 
@@ -68,19 +68,12 @@ export const reviewRoutes = {
     .input(
       z.object({
         productId: z.string(),
-      }).merge(paginationQuerySchema)
+      }).merge(cursorPaginationQuerySchema)
     )
     .output(
       z.object({
         data: z.array(reviewResponseSchema),
-        meta: z.object({
-          total: z.number(),
-          page: z.number(),
-          limit: z.number(),
-          totalPages: z.number(),
-          hasNextPage: z.boolean(),
-          hasPreviousPage: z.boolean(),
-        }),
+        meta: paginationMetaSchema,
         rating: z.object({
           averageRating: z.number(),
           totalReviews: z.number(),
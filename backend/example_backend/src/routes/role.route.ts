@@ -0,0 +1,214 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { protectedProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import {
+  countRoleAssignments,
+  createRole,
+  deleteRole,
+  getRoleById,
+  listRoles,
+  setRolePermissions,
+  updateRole,
+} from '../repositories/role.repository';
+import { roleNameSchema, roleResponseSchema } from '../schemas/role.schema';
+import { PERMISSION_STRINGS, PermissionString, isPermissionString } from '../utils/permission.utils';
+import { assertCanGrant } from '../utils/role.utils';
+import { recordAdminAction } from '../utils/audit.utils';
+import { runInTransaction } from '../utils/db.utils';
+
+const OPENAPI_TAG = 'Role';
+
+const permissionListSchema = z
+  .array(z.string())
+  .max(PERMISSION_STRINGS.length)
+  .refine((permissions) => permissions.every(isPermissionString), {
+    message: 'Unknown permission',
+  })
+  .transform((permissions) => permissions as PermissionString[]);
+
+async function getRoleOrThrow(ctx: TRPCContext, id: string) {
+  const role = await getRoleById(ctx.get('db'), id);
+  if (!role) {
+    throw new ORPCError('NOT_FOUND', { message: 'Role not found' });
+  }
+  return role;
+}
+
+export const roleRoutes = {
+  listPermissions: protectedProcedure({ anyOf: ['admin:role:r'] })
+    .route({
+      method: 'GET',
+      path: '/permissions',
+      tags: [OPENAPI_TAG],
+    })
+    .output(z.array(z.string()))
+    .handler(async () => {
+      return PERMISSION_STRINGS;
+    }),
+
+  listRoles: protectedProcedure({ anyOf: ['admin:role:r'] })
+    .route({
+      method: 'GET',
+      path: '/roles',
+      tags: [OPENAPI_TAG],
+    })
+    .output(z.array(roleResponseSchema))
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      return await listRoles(db);
+    }),
+
+  getRole: protectedProcedure({ anyOf: ['admin:role:r'] })
+    .route({
+      method: 'GET',
+      path: '/roles/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(roleResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      return await getRoleOrThrow(ctx, input.id);
+    }),
+
+  createRole: protectedProcedure({ anyOf: ['admin:role:rw'] })
+    .route({
+      method: 'POST',
+      path: '/roles',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        name: roleNameSchema,
+        description: z.string().max(500).optional(),
+        permissions: permissionListSchema,
+      })
+    )
+    .output(roleResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      assertCanGrant(ctx, input.permissions);
+
+      const role = await runInTransaction(ctx.env, async (tx) => {
+        const role = await createRole(tx, { name: input.name, description: input.description });
+        if (!role) {
+          throw new ORPCError('CONFLICT', { message: 'A role with this name already exists' });
+        }
+
+        await setRolePermissions(tx, role.id, input.permissions);
+        await recordAdminAction(
+          ctx,
+          {
+            action: 'role.create',
+            targetType: 'role',
+            targetId: role.id,
+            metadata: { name: role.name, permissions: input.permissions },
+          },
+          tx
+        );
+        return role;
+      });
+
+      return (await getRoleById(db, role.id))!;
+    }),
+
+  updateRole: protectedProcedure({ anyOf: ['admin:role:rw'] })
+    .route({
+      method: 'PUT',
+      path: '/roles/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        id: z.string(),
+        description: z.string().max(500).nullable().optional(),
+        // Replaces the role's grants when given
+        permissions: permissionListSchema.optional(),
+      })
+    )
+    .output(roleResponseSchema)
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const role = await getRoleOrThrow(ctx, input.id);
+
+      if (role.name === 'superadmin') {
+        throw new ORPCError('FORBIDDEN', { message: 'The superadmin role cannot be changed' });
+      }
+
+      const permissions = input.permissions;
+      if (permissions) {
+        // Removing a grant hands out nothing, so only the changes need to be held
+        const added = permissions.filter((permission) => !role.permissions.includes(permission));
+        const removed = role.permissions.filter((permission) => !permissions.includes(permission as PermissionString));
+        assertCanGrant(ctx, [...added, ...removed]);
+      }
+
+      await runInTransaction(ctx.env, async (tx) => {
+        if (input.description !== undefined) {
+          await updateRole(tx, role.id, { description: input.description });
+        }
+        if (permissions) {
+          await setRolePermissions(tx, role.id, permissions);
+        }
+        await recordAdminAction(
+          ctx,
+          {
+            action: 'role.update',
+            targetType: 'role',
+            targetId: role.id,
+            metadata: {
+              name: role.name,
+              description: input.description,
+              previousPermissions: role.permissions,
+              permissions,
+            },
+          },
+          tx
+        );
+      });
+
+      return (await getRoleById(db, role.id))!;
+    }),
+
+  deleteRole: protectedProcedure({ anyOf: ['admin:role:rw'] })
+    .route({
+      method: 'DELETE',
+      path: '/roles/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const role = await getRoleOrThrow(ctx, input.id);
+
+      if (role.isBuiltIn) {
+        throw new ORPCError('FORBIDDEN', { message: 'Built-in roles cannot be deleted' });
+      }
+
+      const assignments = await countRoleAssignments(db, role.name);
+      if (assignments > 0) {
+        throw new ORPCError('CONFLICT', {
+          message: 'Role is still assigned to users',
+          data: { assignments },
+        });
+      }
+
+      await deleteRole(db, role.id);
+      await recordAdminAction(ctx, {
+        action: 'role.delete',
+        targetType: 'role',
+        targetId: role.id,
+        metadata: { name: role.name, permissions: role.permissions },
+      });
+
+      return { success: true };
+    }),
+};
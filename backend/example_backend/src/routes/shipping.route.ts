@@ -0,0 +1,162 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { protectedProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import {
+  createShippingZone,
+  getShippingZoneById,
+  updateShippingZone,
+  deleteShippingZone,
+  replaceShippingRates,
+  listShippingZonesByVendor,
+} from '../repositories/shipping.repository';
+import { getVendorByUserId } from '../repositories/vendor.repository';
+import { shippingRateTypeEnum, shippingZoneResponseSchema } from '../schemas/shipping.schema';
+
+const OPENAPI_TAG = 'Shipping';
+
+const shippingRateInputSchema = z
+  .object({
+    minValue: z.string().regex(/^\d+(\.\d{1,3})?$/).optional(),
+    maxValue: z.string().regex(/^\d+(\.\d{1,3})?$/).optional(),
+    price: z.string().regex(/^\d+(\.\d{1,2})?$/),
+    pricePerUnit: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  })
+  .refine((rate) => !rate.maxValue || parseFloat(rate.maxValue) > parseFloat(rate.minValue ?? '0'), {
+    message: 'maxValue must be greater than minValue',
+    path: ['maxValue'],
+  });
+
+async function getVendorForUser(ctx: TRPCContext) {
+  const db = ctx.get('db');
+  const authUser = ctx.get('authUser');
+
+  if (!authUser) {
+    throw new ORPCError('UNAUTHORIZED', { message: 'User not authenticated' });
+  }
+
+  const vendor = await getVendorByUserId(db, authUser.id);
+  if (!vendor) {
+    throw new ORPCError('NOT_FOUND', { message: 'Vendor not found' });
+  }
+
+  return vendor;
+}
+
+export const shippingRoutes = {
+  listZones: protectedProcedure({ anyOf: ['vendor'] })
+    .route({
+      method: 'GET',
+      path: '/shipping/zones',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({}))
+    .output(z.array(shippingZoneResponseSchema))
+    .handler(async ({ context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const vendor = await getVendorForUser(ctx);
+
+      return await listShippingZonesByVendor(db, vendor.id);
+    }),
+
+  createZone: protectedProcedure({ anyOf: ['vendor'] })
+    .route({
+      method: 'POST',
+      path: '/shipping/zones',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        name: z.string().min(1).max(255),
+        countries: z.array(z.string().min(2).max(100)).optional(),
+        states: z.array(z.string().min(1).max(100)).optional(),
+        postalCodePrefixes: z.array(z.string().min(1).max(20)).optional(),
+        rateType: z.enum(shippingRateTypeEnum),
+        freeShippingThreshold: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+        priority: z.number().int().optional(),
+        isActive: z.boolean().optional(),
+        rates: z.array(shippingRateInputSchema).min(1),
+      })
+    )
+    .output(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const vendor = await getVendorForUser(ctx);
+
+      const { rates, ...zoneFields } = input;
+      const zone = await createShippingZone(db, {
+        ...zoneFields,
+        vendorId: vendor.id,
+        currency: vendor.currency,
+      });
+
+      await replaceShippingRates(db, zone.id, rates);
+
+      return { id: zone.id };
+    }),
+
+  updateZone: protectedProcedure({ anyOf: ['vendor'] })
+    .route({
+      method: 'PATCH',
+      path: '/shipping/zones/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1).max(255).optional(),
+        countries: z.array(z.string().min(2).max(100)).optional(),
+        states: z.array(z.string().min(1).max(100)).optional(),
+        postalCodePrefixes: z.array(z.string().min(1).max(20)).optional(),
+        rateType: z.enum(shippingRateTypeEnum).optional(),
+        freeShippingThreshold: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable().optional(),
+        priority: z.number().int().optional(),
+        isActive: z.boolean().optional(),
+        // When given, replaces the zone's whole rate table
+        rates: z.array(shippingRateInputSchema).min(1).optional(),
+      })
+    )
+    .output(z.object({ success: z.boolean() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const vendor = await getVendorForUser(ctx);
+
+      const { id, rates, ...updateData } = input;
+      const existing = await getShippingZoneById(db, id, vendor.id);
+      if (!existing) {
+        throw new ORPCError('NOT_FOUND', { message: 'Shipping zone not found' });
+      }
+
+      await updateShippingZone(db, id, vendor.id, updateData);
+
+      if (rates) {
+        await replaceShippingRates(db, id, rates);
+      }
+
+      return { success: true };
+    }),
+
+  deleteZone: protectedProcedure({ anyOf: ['vendor'] })
+    .route({
+      method: 'DELETE',
+      path: '/shipping/zones/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+      const vendor = await getVendorForUser(ctx);
+
+      const zone = await deleteShippingZone(db, input.id, vendor.id);
+      if (!zone) {
+        throw new ORPCError('NOT_FOUND', { message: 'Shipping zone not found' });
+      }
+
+      return { success: true };
+    }),
+};
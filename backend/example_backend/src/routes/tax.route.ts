@@ -0,0 +1,110 @@
+import z from "zod/v3";
+import { ORPCError } from '@orpc/server';
+import { protectedProcedure } from '../procedures';
+import type { TRPCContext } from '../context';
+import {
+  createTaxRule,
+  updateTaxRule,
+  deleteTaxRule,
+  listTaxRules,
+} from '../repositories/tax.repository';
+import { taxRuleResponseSchema } from '../schemas/tax.schema';
+
+const OPENAPI_TAG = 'Tax';
+
+// Fraction between 0 and 1 with up to four decimals, e.g. "0.0825"
+const taxRateSchema = z.string().regex(/^0(\.\d{1,4})?$|^1(\.0{1,4})?$/);
+
+export const taxRoutes = {
+  listTaxRules: protectedProcedure({ anyOf: ['admin'] })
+    .route({
+      method: 'GET',
+      path: '/tax-rules',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ country: z.string().optional() }))
+    .output(z.array(taxRuleResponseSchema))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      return await listTaxRules(db, { country: input.country });
+    }),
+
+  createTaxRule: protectedProcedure({ anyOf: ['admin'] })
+    .route({
+      method: 'POST',
+      path: '/tax-rules',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        country: z.string().min(2).max(100),
+        region: z.string().min(1).max(100).optional(),
+        taxClass: z.string().min(1).max(50).optional(),
+        rate: taxRateSchema,
+        isActive: z.boolean().optional(),
+      })
+    )
+    .output(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      const rule = await createTaxRule(db, input);
+
+      return { id: rule.id };
+    }),
+
+  updateTaxRule: protectedProcedure({ anyOf: ['admin'] })
+    .route({
+      method: 'PATCH',
+      path: '/tax-rules/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1).max(100).optional(),
+        country: z.string().min(2).max(100).optional(),
+        region: z.string().min(1).max(100).nullable().optional(),
+        taxClass: z.string().min(1).max(50).optional(),
+        rate: taxRateSchema.optional(),
+        isActive: z.boolean().optional(),
+      })
+    )
+    .output(z.object({ success: z.boolean() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      const { id, ...updateData } = input;
+      const rule = await updateTaxRule(db, id, updateData);
+      if (!rule) {
+        throw new ORPCError('NOT_FOUND', { message: 'Tax rule not found' });
+      }
+
+      return { success: true };
+    }),
+
+  deleteTaxRule: protectedProcedure({ anyOf: ['admin'] })
+    .route({
+      method: 'DELETE',
+      path: '/tax-rules/:id',
+      tags: [OPENAPI_TAG],
+    })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() }))
+    .handler(async ({ input, context }) => {
+      const ctx = context as TRPCContext;
+      const db = ctx.get('db');
+
+      const rule = await deleteTaxRule(db, input.id);
+      if (!rule) {
+        throw new ORPCError('NOT_FOUND', { message: 'Tax rule not found' });
+      }
+
+      return { success: true };
+    }),
+};
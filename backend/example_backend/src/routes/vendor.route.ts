@@ -13,6 +13,10 @@ import {
 import { vendorStatusSchema } from '../schemas/common.schema';
 import { vendorResponseSchema } from '../schemas/vendor.schema';
 import { getPaginationParams, paginationQuerySchema } from '../utils/pagination.utils';
+import { findUserById } from '../repositories/user.repository';
+import { sendVendorStatusEmail } from '../services/email.service';
+import { currencyCodeSchema } from '../schemas/currency.schema';
+import { DEFAULT_CURRENCY } from '../utils/money.utils';
 
 const OPENAPI_TAG = 'Vendor';
 
@@ -27,6 +31,8 @@ export const vendorRoutes = {
       z.object({
         businessName: z.string().min(3).max(255),
         description: z.string().max(1000).optional(),
+        // Fixed once the vendor exists, since product prices and shipping rates are stored in it
+        currency: currencyCodeSchema.optional(),
       })
     )
     .output(
@@ -35,6 +41,7 @@ export const vendorRoutes = {
         userId: z.string(),
         businessName: z.string(),
         status: z.string(),
+        currency: z.string(),
       })
     )
     .handler(async ({ input, context }) => {
@@ -57,6 +64,7 @@ export const vendorRoutes = {
         userId: authUser.id,
         businessName: input.businessName,
         description: input.description,
+        currency: input.currency ?? DEFAULT_CURRENCY,
         status: 'pending',
       });
 
@@ -77,6 +85,7 @@ export const vendorRoutes = {
         description: z.string().nullable(),
         logo: z.string().nullable(),
         status: z.string(),
+        currency: z.string(),
       })
     )
     .handler(async ({ input, context }) => {
@@ -152,6 +161,18 @@ export const vendorRoutes = {
         throw new ORPCError('NOT_FOUND', { message: 'Vendor not found' });
       }
 
+      const vendorUser = await findUserById(db, vendor.userId);
+      if (vendorUser) {
+        try {
+          await sendVendorStatusEmail(ctx.env, db, vendorUser.email, {
+            businessName: vendor.businessName,
+            status: vendor.status,
+          });
+        } catch {
+          // The status change is already saved and sendEmail has logged the failure; don't undo it
+        }
+      }
+
       return { success: true };
     }),
 
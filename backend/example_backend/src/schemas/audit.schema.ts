@@ -0,0 +1,50 @@
+import { pgTable, text, jsonb, index } from 'drizzle-orm/pg-core';
+import { createSelectSchema } from 'drizzle-zod';
+import z from 'zod/v3';
+import { oz } from '@orpc/zod';
+import { timestamps } from './common.schema';
+import { users } from './user.schema';
+
+export const auditTargetTypeEnum = ['user', 'role'] as const;
+
+// What admins did to users and roles, e.g. user.ban or user.role_grant
+export const adminAuditLogs = pgTable(
+  'admin_audit_logs',
+  {
+    id: text('id').primaryKey(),
+    actorId: text('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    action: text('action').notNull(),
+    targetType: text('target_type').notNull(),
+    targetId: text('target_id').notNull(),
+    // Action details, e.g. the ban reason or the role granted
+    metadata: jsonb('metadata'),
+    ipAddress: text('ip_address'),
+    ...timestamps,
+  },
+  (table) => [
+    index('admin_audit_logs_target_idx').on(table.targetType, table.targetId),
+    index('admin_audit_logs_actor_id_idx').on(table.actorId),
+  ]
+);
+
+export const insertAdminAuditLogSchema = z.object({
+  id: z.string().optional(),
+  actorId: z.string().nullable(),
+  action: z.string(),
+  targetType: z.enum(auditTargetTypeEnum),
+  targetId: z.string(),
+  metadata: z.record(z.unknown()).optional(),
+  ipAddress: z.string().nullable().optional(),
+});
+
+export const selectAdminAuditLogSchema = createSelectSchema(adminAuditLogs) as any;
+
+// Audit log response schema for API responses
+export const adminAuditLogResponseSchema = oz.openapi(
+  selectAdminAuditLogSchema,
+  {
+    title: 'AdminAuditLogResponse',
+  }
+);
+
+export type InsertAdminAuditLog = z.infer<typeof insertAdminAuditLogSchema>;
@@ -1,6 +1,7 @@
 import { pgTable, text, timestamp, boolean } from 'drizzle-orm/pg-core';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
+import { timestamps } from './common.schema';
 
 export const auths = pgTable('auths', {
 	id: text('id').primaryKey(),
@@ -9,8 +10,31 @@ export const auths = pgTable('auths', {
 	lastRefresh: timestamp('lastRefresh').defaultNow(),
 	isTrusted: boolean('is_trusted').notNull().default(false),
 	trustedAt: timestamp('trusted_at'),
+	// Set when a trusted session logs out: the device stays trusted, its tokens stop working
+	loggedOutAt: timestamp('logged_out_at'),
 });
 
 export const insertAuthsSchema = createInsertSchema(auths);
 export const selectAuthsSchema = createSelectSchema(auths);
-export type SelectAuth = z.infer<typeof selectAuthsSchema>;
\ No newline at end of file
+export type SelectAuth = z.infer<typeof selectAuthsSchema>;
+
+export const refreshTokenStatusEnum = ['active', 'rotated', 'revoked'] as const;
+
+// Opaque refresh tokens, stored as SHA-256 hashes. Every token issued for an auth session
+// belongs to the same family, so deleting the session revokes all of them.
+export const refreshTokens = pgTable('refresh_tokens', {
+	id: text('id').primaryKey(),
+	authId: text('auth_id')
+		.notNull()
+		.references(() => auths.id, { onDelete: 'cascade' }),
+	userId: text('user_id').notNull(),
+	tokenHash: text('token_hash').notNull().unique(),
+	status: text('status').notNull().default('active'),
+	expiresAt: timestamp('expires_at').notNull(),
+	rotatedAt: timestamp('rotated_at'),
+	...timestamps,
+});
+
+export const insertRefreshTokensSchema = createInsertSchema(refreshTokens);
+export const selectRefreshTokensSchema = createSelectSchema(refreshTokens);
+export type SelectRefreshToken = z.infer<typeof selectRefreshTokensSchema>;
\ No newline at end of file
@@ -99,10 +99,60 @@ export const cartResponseSchema = oz.openapi(
   }
 );
 
+export const cartQuoteResponseSchema = oz.openapi(
+  z.object({
+    lines: z.array(
+      z.object({
+        lineId: z.string(),
+        productId: z.string(),
+        variantId: z.string(),
+        vendorId: z.string(),
+        quantity: z.number(),
+        unitPrice: z.string(),
+        subtotal: z.string(),
+        discountAmount: z.string(),
+        taxName: z.string().nullable(),
+        taxRate: z.string(),
+        taxAmount: z.string(),
+        priceIncludesTax: z.boolean(),
+        total: z.string(),
+      })
+    ),
+    discounts: z.array(
+      z.object({
+        promoCodeId: z.string(),
+        code: z.string(),
+        discountType: z.string(),
+        amount: z.string(),
+        freeShipping: z.boolean(),
+      })
+    ),
+    shipments: z.array(
+      z.object({
+        vendorId: z.string(),
+        zoneId: z.string().nullable(),
+        subtotal: z.string(),
+        shippingCost: z.string(),
+      })
+    ),
+    rejectedPromoCodes: z.array(z.object({ code: z.string(), reason: z.string() })),
+    currency: z.string(),
+    subtotal: z.string(),
+    discountAmount: z.string(),
+    shippingCost: z.string(),
+    taxAmount: z.string(),
+    total: z.string(),
+  }),
+  {
+    title: 'CartQuoteResponse',
+  }
+);
+
 export type SelectCart = z.infer<typeof selectCartSchema>;
 export type SelectCartItem = z.infer<typeof selectCartItemSchema>;
 export type InsertCart = z.infer<typeof insertCartSchema>;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type CartResponse = z.infer<typeof cartResponseSchema>;
 export type CartItemResponse = z.infer<typeof cartItemResponseSchema>;
+export type CartQuoteResponse = z.infer<typeof cartQuoteResponseSchema>;
 
@@ -28,13 +28,13 @@ export const vendorStatusSchema = z.enum(vendorStatusEnum);
 export const productStatusEnum = ['draft', 'published', 'archived'] as const;
 export const productStatusSchema = z.enum(productStatusEnum);
 
-export const sortByEnum = ['price', 'createdAt', 'rating', 'name'] as const;
+export const sortByEnum = ['price', 'createdAt', 'rating', 'name', 'relevance'] as const;
 export const sortBySchema = z.enum(sortByEnum);
 
 export const sortOrderEnum = ['asc', 'desc'] as const;
 export const sortOrderSchema = z.enum(sortOrderEnum);
 
-export const discountTypeEnum = ['percentage', 'fixed'] as const;
+export const discountTypeEnum = ['percentage', 'fixed', 'bogo', 'free_shipping'] as const;
 export const discountTypeSchema = z.enum(discountTypeEnum);
 
 export const promotionalTypeEnum = [
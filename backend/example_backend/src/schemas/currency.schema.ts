@@ -0,0 +1,46 @@
+import { pgTable, text, numeric, uniqueIndex } from 'drizzle-orm/pg-core';
+import { createSelectSchema } from 'drizzle-zod';
+import z from 'zod/v3';
+import { oz } from '@orpc/zod';
+import { timestamps } from './common.schema';
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Expected an ISO 4217 currency code')
+  .transform((code) => code.toUpperCase());
+
+export const exchangeRates = pgTable(
+  'exchange_rates',
+  {
+    id: text('id').primaryKey(),
+    baseCurrency: text('base_currency').notNull(),
+    quoteCurrency: text('quote_currency').notNull(),
+    // Units of the quote currency per one unit of the base currency
+    rate: numeric('rate', { precision: 18, scale: 8 }).notNull(),
+    // Where the rate came from, e.g. the file it was loaded from
+    source: text('source'),
+    ...timestamps,
+  },
+  (table) => [uniqueIndex('exchange_rates_pair_idx').on(table.baseCurrency, table.quoteCurrency)]
+);
+
+// Format of rate files, both for the loader script and the admin upload endpoint
+export const exchangeRateFileSchema = z.object({
+  base: currencyCodeSchema,
+  rates: z.record(z.union([z.string().regex(/^\d+(\.\d{1,8})?$/), z.number().positive()])),
+  source: z.string().max(255).optional(),
+});
+
+export const selectExchangeRateSchema = createSelectSchema(exchangeRates) as any;
+
+// Exchange rate response schema for API responses
+export const exchangeRateResponseSchema = oz.openapi(
+  selectExchangeRateSchema,
+  {
+    title: 'ExchangeRateResponse',
+  }
+);
+
+export type SelectExchangeRate = z.infer<typeof selectExchangeRateSchema>;
+export type ExchangeRateFile = z.infer<typeof exchangeRateFileSchema>;
+export type ExchangeRateResponse = z.infer<typeof exchangeRateResponseSchema>;
@@ -0,0 +1,47 @@
+import { pgTable, text, jsonb, index } from 'drizzle-orm/pg-core';
+import z from 'zod/v3';
+import { timestamps } from './common.schema';
+
+export const emailTemplateEnum = ['otp', 'email_change', 'order_confirmation', 'vendor_status'] as const;
+
+// Emails captured by the outbox transport instead of being delivered (dev and tests)
+export const emailOutbox = pgTable(
+  'email_outbox',
+  {
+    id: text('id').primaryKey(),
+    from: text('from').notNull(),
+    to: text('to').notNull(),
+    subject: text('subject').notNull(),
+    html: text('html').notNull(),
+    text: text('text'),
+    template: text('template'),
+    data: jsonb('data'),
+    ...timestamps,
+  },
+  (table) => [index('email_outbox_to_idx').on(table.to)]
+);
+
+export const insertEmailOutboxSchema = z.object({
+  id: z.string().optional(),
+  from: z.string(),
+  to: z.string().email(),
+  subject: z.string(),
+  html: z.string(),
+  text: z.string().optional(),
+  template: z.enum(emailTemplateEnum).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+export const emailOutboxResponseSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  to: z.string(),
+  subject: z.string(),
+  html: z.string(),
+  text: z.string().nullable(),
+  template: z.string().nullable(),
+  data: z.unknown(),
+  createdAt: z.date(),
+});
+
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
@@ -0,0 +1,41 @@
+import { pgTable, text, jsonb, timestamp, uniqueIndex } from 'drizzle-orm/pg-core';
+import z from 'zod/v3';
+import { timestamps } from './common.schema';
+
+export const idempotencyKeyStatusEnum = ['in_progress', 'completed'] as const;
+
+// First response per Idempotency-Key, scoped to the procedure and the caller
+export const idempotencyKeys = pgTable(
+  'idempotency_keys',
+  {
+    id: text('id').primaryKey(),
+    key: text('key').notNull(),
+    scope: text('scope').notNull(),
+    subject: text('subject').notNull(),
+    requestHash: text('request_hash').notNull(),
+    status: text('status').notNull().default('in_progress'),
+    response: jsonb('response'),
+    expiresAt: timestamp('expires_at').notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idempotency_keys_key_scope_subject_idx').on(
+      table.key,
+      table.scope,
+      table.subject
+    ),
+  ]
+);
+
+export const insertIdempotencyKeySchema = z.object({
+  id: z.string().optional(),
+  key: z.string().min(1).max(255),
+  scope: z.string(),
+  subject: z.string(),
+  requestHash: z.string(),
+  status: z.enum(idempotencyKeyStatusEnum).optional(),
+  response: z.unknown().optional(),
+  expiresAt: z.coerce.date(),
+});
+
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
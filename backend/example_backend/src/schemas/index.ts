@@ -11,4 +11,16 @@ export * from './address.schema';
 export * from './order.schema';
 export * from './review.schema';
 export * from './promo.schema';
-export * from './promotional.schema';
\ No newline at end of file
+export * from './promotional.schema';
+export * from './payment.schema';
+export * from './idempotency.schema';
+export * from './email.schema';
+export * from './redemption.schema';
+export * from './shipping.schema';
+export * from './tax.schema';
+export * from './currency.schema';
+export * from './return.schema';
+export * from './reservation.schema';
+export * from './role.schema';
+export * from './audit.schema';
+export * from './profile.schema';
\ No newline at end of file
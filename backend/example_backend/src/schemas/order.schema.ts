@@ -4,6 +4,9 @@ import {
   numeric,
   integer,
   timestamp,
+  boolean,
+  jsonb,
+  index,
 } from 'drizzle-orm/pg-core';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import z from 'zod/v3';
@@ -13,6 +16,7 @@ import { relations } from 'drizzle-orm';
 import { users } from './user.schema';
 import { shippingAddresses } from './address.schema';
 import { products, productVariants, selectProductSchema, selectProductVariantSchema } from './product.schema';
+import { taxBreakdownSchema } from './tax.schema';
 import { vendors } from './vendor.schema';
 import { promoCodes } from './promo.schema';
 
@@ -25,6 +29,11 @@ export const orderStatusEnum = [
   'cancelled',
 ] as const;
 
+// What a status history entry is about: the whole order, one vendor's part of it, or a single item
+export const orderStatusEntityEnum = ['order', 'vendor_order', 'order_item'] as const;
+
+export const orderStatusActorRoleEnum = ['customer', 'vendor', 'admin', 'system'] as const;
+
 export const paymentStatusEnum = [
   'pending',
   'completed',
@@ -54,6 +63,12 @@ export const orders = pgTable('orders', {
   ),
   taxAmount: numeric('tax_amount', { precision: 10, scale: 2 }).default('0'),
   total: numeric('total', { precision: 10, scale: 2 }).notNull(),
+  // Part of `total` that is no longer owed because vendor parts of the order were cancelled
+  cancelledAmount: numeric('cancelled_amount', { precision: 10, scale: 2 }).notNull().default('0'),
+  // Currency every amount on the order is charged in
+  currency: text('currency').notNull().default('USD'),
+  // Rates used at checkout, from each catalog currency in the order to `currency`
+  exchangeRates: jsonb('exchange_rates').$type<Record<string, string>>(),
   status: text('status').notNull().default('pending'),
   paymentStatus: text('payment_status').notNull().default('pending'),
   paymentMethod: text('payment_method'),
@@ -79,6 +94,13 @@ export const orderItems = pgTable('order_items', {
   quantity: integer('quantity').notNull(),
   unitPrice: numeric('unit_price', { precision: 10, scale: 2 }).notNull(),
   totalPrice: numeric('total_price', { precision: 10, scale: 2 }).notNull(),
+  // Share of the order's promotions taken off this line
+  discountAmount: numeric('discount_amount', { precision: 10, scale: 2 }).notNull().default('0'),
+  // Tax as charged at checkout. When priceIncludesTax is set, taxAmount is contained in totalPrice.
+  taxName: text('tax_name'),
+  taxRate: numeric('tax_rate', { precision: 6, scale: 4 }).notNull().default('0'),
+  taxAmount: numeric('tax_amount', { precision: 10, scale: 2 }).notNull().default('0'),
+  priceIncludesTax: boolean('price_includes_tax').notNull().default(false),
   status: text('status').notNull().default('pending'),
   ...timestamps,
 });
@@ -92,6 +114,7 @@ export const orderVendorTracking = pgTable('order_vendor_tracking', {
     .notNull()
     .references(() => vendors.id, { onDelete: 'restrict' }),
   subtotal: numeric('subtotal', { precision: 10, scale: 2 }).notNull(),
+  shippingCost: numeric('shipping_cost', { precision: 10, scale: 2 }).notNull().default('0'),
   status: text('status').notNull().default('pending'),
   trackingNumber: text('tracking_number'),
   shippedAt: timestamp('shipped_at'),
@@ -99,6 +122,30 @@ export const orderVendorTracking = pgTable('order_vendor_tracking', {
   ...timestamps,
 });
 
+// Append-only log of every status change on an order, its vendor tracking rows and its items
+export const orderStatusHistory = pgTable(
+  'order_status_history',
+  {
+    id: text('id').primaryKey(),
+    orderId: text('order_id')
+      .notNull()
+      .references(() => orders.id, { onDelete: 'cascade' }),
+    entityType: text('entity_type').notNull(),
+    // Id of the order, vendor tracking row or order item that changed
+    entityId: text('entity_id').notNull(),
+    vendorId: text('vendor_id').references(() => vendors.id, { onDelete: 'set null' }),
+    // Null for the entry recorded when the order is placed
+    fromStatus: text('from_status'),
+    toStatus: text('to_status').notNull(),
+    // Null when the change was made by the system, e.g. a payment webhook
+    actorId: text('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    actorRole: text('actor_role').notNull(),
+    reason: text('reason'),
+    ...timestamps,
+  },
+  (table) => [index('order_status_history_order_id_idx').on(table.orderId, table.createdAt)]
+);
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, {
     fields: [orders.userId],
@@ -114,6 +161,7 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
   }),
   items: many(orderItems),
   vendorTracking: many(orderVendorTracking),
+  statusHistory: many(orderStatusHistory),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -149,6 +197,21 @@ export const orderVendorTrackingRelations = relations(
   })
 );
 
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+  vendor: one(vendors, {
+    fields: [orderStatusHistory.vendorId],
+    references: [vendors.id],
+  }),
+  actor: one(users, {
+    fields: [orderStatusHistory.actorId],
+    references: [users.id],
+  }),
+}));
+
 // Using type assertions for drizzle-zod compatibility with zod v3
 export const insertOrderSchema = createInsertSchema(orders, {
   orderNumber: z.string().min(6).max(50),
@@ -157,6 +220,7 @@ export const insertOrderSchema = createInsertSchema(orders, {
   shippingCost: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
   taxAmount: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
   total: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  currency: z.string().length(3).optional(),
   status: z.enum(orderStatusEnum),
   paymentStatus: z.enum(paymentStatusEnum),
   notes: z.string().max(1000).optional(),
@@ -166,6 +230,11 @@ export const insertOrderItemSchema = createInsertSchema(orderItems, {
   quantity: z.number().int().min(1),
   unitPrice: z.string().regex(/^\d+(\.\d{1,2})?$/),
   totalPrice: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  discountAmount: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  taxName: z.string().max(100).optional(),
+  taxRate: z.string().regex(/^\d+(\.\d{1,4})?$/).optional(),
+  taxAmount: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  priceIncludesTax: z.boolean().optional(),
   status: z.enum(orderStatusEnum),
 } as any) as any;
 
@@ -173,15 +242,25 @@ export const insertOrderVendorTrackingSchema = createInsertSchema(
   orderVendorTracking,
   {
     subtotal: z.string().regex(/^\d+(\.\d{1,2})?$/),
+    shippingCost: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
     status: z.enum(orderStatusEnum),
     trackingNumber: z.string().max(255).optional(),
   } as any
 ) as any;
 
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory, {
+  entityType: z.enum(orderStatusEntityEnum),
+  fromStatus: z.enum(orderStatusEnum).nullable().optional(),
+  toStatus: z.enum(orderStatusEnum),
+  actorRole: z.enum(orderStatusActorRoleEnum),
+  reason: z.string().max(500).optional(),
+} as any) as any;
+
 export const selectOrderSchema = createSelectSchema(orders) as any;
 export const selectOrderItemSchema = createSelectSchema(orderItems) as any;
 export const selectOrderVendorTrackingSchema =
   createSelectSchema(orderVendorTracking) as any;
+export const selectOrderStatusHistorySchema = createSelectSchema(orderStatusHistory) as any;
 
 // Order response schemas for API responses
 export const orderVendorTrackingResponseSchema = oz.openapi(
@@ -223,6 +302,7 @@ export const orderResponseSchema = oz.openapi(
   (selectOrderSchema as any).extend({
   items: z.array(orderItemResponseSchema),
   vendorTracking: z.array(orderVendorTrackingResponseSchema),
+  taxBreakdown: taxBreakdownSchema,
   shippingAddress: z.object({
     id: z.string(),
     userId: z.string(),
@@ -244,6 +324,14 @@ export const orderResponseSchema = oz.openapi(
   }
 );
 
+// Order timeline entry response schema, oldest first in GET /orders/:id/timeline
+export const orderStatusHistoryResponseSchema = oz.openapi(
+  selectOrderStatusHistorySchema,
+  {
+    title: 'OrderStatusHistoryEntry',
+  }
+);
+
 export type SelectOrder = z.infer<typeof selectOrderSchema>;
 export type SelectOrderItem = z.infer<typeof selectOrderItemSchema>;
 export type SelectOrderVendorTracking = z.infer<
@@ -254,9 +342,11 @@ export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 export type InsertOrderVendorTracking = z.infer<
   typeof insertOrderVendorTrackingSchema
 >;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
 export type OrderResponse = z.infer<typeof orderResponseSchema>;
 export type OrderListItemResponse = z.infer<typeof orderListItemResponseSchema>;
 export type OrderItemResponse = z.infer<typeof orderItemResponseSchema>;
 export type OrderVendorTrackingResponse = z.infer<typeof orderVendorTrackingResponseSchema>;
 export type VendorOrderListItemResponse = z.infer<typeof vendorOrderListItemResponseSchema>;
+export type OrderStatusHistoryResponse = z.infer<typeof orderStatusHistoryResponseSchema>;
 
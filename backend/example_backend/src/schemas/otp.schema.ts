@@ -8,8 +8,20 @@ export const otps = pgTable('otps', {
 	email: text('email').notNull(),
 	deviceUuId: text('deviceUuId').notNull(),
 	expiredAt: timestamp('expiredAt').defaultNow(),
+	attempts: integer('attempts').notNull().default(0),
+	lastSentAt: timestamp('last_sent_at').notNull().defaultNow(),
     ...timestamps,
 });
 
+// Failed OTP verifications per email and per device, across all the codes they were sent.
+// Keys look like `email:<address>` or `device:<id>`; see recordOtpFailure in otp.utils.
+export const otpLockouts = pgTable('otp_lockouts', {
+	key: text('key').primaryKey(),
+	failures: integer('failures').notNull().default(0),
+	windowStartedAt: timestamp('window_started_at').notNull().defaultNow(),
+	lockedUntil: timestamp('locked_until'),
+	...timestamps,
+});
+
 export const insertOtpSchema = createInsertSchema(otps);
 export const selectOtpSchema = createSelectSchema(otps);
\ No newline at end of file
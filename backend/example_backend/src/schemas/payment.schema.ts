@@ -0,0 +1,116 @@
+import { pgTable, text, jsonb, timestamp, numeric, index, integer } from 'drizzle-orm/pg-core';
+import z from 'zod/v3';
+import { timestamps } from './common.schema';
+import { relations } from 'drizzle-orm';
+import { orders } from './order.schema';
+import { vendors } from './vendor.schema';
+
+export const paymentEventStatusEnum = ['received', 'processing', 'processed', 'ignored'] as const;
+
+export const refundStatusEnum = ['pending', 'succeeded', 'failed'] as const;
+
+// Log of provider webhook events, keyed by the provider's event id so replays are processed once
+export const paymentEvents = pgTable('payment_events', {
+  id: text('id').primaryKey(),
+  provider: text('provider').notNull(),
+  eventId: text('event_id').notNull().unique(),
+  type: text('type').notNull(),
+  paymentIntentId: text('payment_intent_id'),
+  orderId: text('order_id').references(() => orders.id, {
+    onDelete: 'set null',
+  }),
+  status: text('status').notNull().default('received'),
+  payload: jsonb('payload').notNull(),
+  processedAt: timestamp('processed_at'),
+  ...timestamps,
+});
+
+export const paymentEventsRelations = relations(paymentEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [paymentEvents.orderId],
+    references: [orders.id],
+  }),
+}));
+
+// Money sent back to the buyer for a cancelled or returned part of an order. Rows are created
+// before the provider is called so a failed call is visible and can be retried.
+export const refunds = pgTable(
+  'refunds',
+  {
+    id: text('id').primaryKey(),
+    orderId: text('order_id')
+      .notNull()
+      .references(() => orders.id, { onDelete: 'restrict' }),
+    // Set when the refund covers a single vendor's part of the order
+    vendorId: text('vendor_id').references(() => vendors.id, { onDelete: 'set null' }),
+    amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
+    currency: text('currency').notNull(),
+    status: text('status').notNull().default('pending'),
+    reason: text('reason'),
+    providerRefundId: text('provider_refund_id'),
+    failureReason: text('failure_reason'),
+    ...timestamps,
+  },
+  (table) => [index('refunds_order_id_idx').on(table.orderId)]
+);
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  vendor: one(vendors, {
+    fields: [refunds.vendorId],
+    references: [vendors.id],
+  }),
+}));
+
+// Payment intents of the fake provider. They are kept in the database rather than in memory
+// so every isolate serving the dev deployment sees the same intents.
+export const fakePaymentIntents = pgTable('fake_payment_intents', {
+  id: text('id').primaryKey(),
+  clientSecret: text('client_secret').notNull(),
+  // Minor units, like the provider API
+  amount: integer('amount').notNull(),
+  currency: text('currency').notNull(),
+  status: text('status').notNull().default('requires_payment_method'),
+  metadata: jsonb('metadata').$type<Record<string, string>>().notNull(),
+  idempotencyKey: text('idempotency_key').unique(),
+  refundedAmount: integer('refunded_amount').notNull().default(0),
+  ...timestamps,
+});
+
+export const insertPaymentEventSchema = z.object({
+  id: z.string().optional(),
+  provider: z.string(),
+  eventId: z.string(),
+  type: z.string(),
+  paymentIntentId: z.string().nullable().optional(),
+  orderId: z.string().nullable().optional(),
+  status: z.enum(paymentEventStatusEnum).optional(),
+  payload: z.unknown(),
+  processedAt: z.coerce.date().nullable().optional(),
+});
+
+export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
+
+export const insertRefundSchema = z.object({
+  id: z.string().optional(),
+  orderId: z.string(),
+  vendorId: z.string().nullable().optional(),
+  amount: z.string(),
+  currency: z.string(),
+  status: z.enum(refundStatusEnum).optional(),
+  reason: z.string().nullable().optional(),
+});
+
+export const refundResponseSchema = z.object({
+  id: z.string(),
+  vendorId: z.string().nullable(),
+  amount: z.string(),
+  currency: z.string(),
+  status: z.enum(refundStatusEnum),
+});
+
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type RefundResponse = z.infer<typeof refundResponseSchema>;
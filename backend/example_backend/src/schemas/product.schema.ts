@@ -1,30 +1,54 @@
-import { pgTable, text, numeric, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, numeric, integer, boolean, index, customType } from "drizzle-orm/pg-core";
 import { z } from "zod/v3";
 import { oz } from "@orpc/zod";
 import { timestamps } from "./common.schema";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { vendors } from "./vendor.schema";
 import { categories } from "./category.schema";
+import { DEFAULT_TAX_CLASS } from "./tax.schema";
 
 export const productStatusEnum = ["draft", "published", "archived"] as const;
 
-export const products = pgTable("products", {
-  id: text("id").primaryKey(),
-  vendorId: text("vendor_id")
-    .notNull()
-    .references(() => vendors.id, { onDelete: "cascade" }),
-  categoryId: text("category_id").references(() => categories.id, {
-    onDelete: "set null",
-  }),
-  name: text("name").notNull(),
-  slug: text("slug").notNull().unique(),
-  description: text("description"),
-  basePrice: numeric("base_price", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("draft"),
-  tags: text("tags").array(),
-  ...timestamps,
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
 });
 
+export const products = pgTable(
+  "products",
+  {
+    id: text("id").primaryKey(),
+    vendorId: text("vendor_id")
+      .notNull()
+      .references(() => vendors.id, { onDelete: "cascade" }),
+    categoryId: text("category_id").references(() => categories.id, {
+      onDelete: "set null",
+    }),
+    name: text("name").notNull(),
+    slug: text("slug").notNull().unique(),
+    description: text("description"),
+    basePrice: numeric("base_price", { precision: 10, scale: 2 }).notNull(),
+    // Currency of basePrice and the variant prices; taken from the vendor
+    currency: text("currency").notNull().default("USD"),
+    status: text("status").notNull().default("draft"),
+    tags: text("tags").array(),
+    // Matched against tax rules for the shipping destination
+    taxClass: text("tax_class").notNull().default(DEFAULT_TAX_CLASS),
+    // Whether basePrice and variant prices already contain tax
+    priceIncludesTax: boolean("price_includes_tax").notNull().default(false),
+    // Maintained by Postgres; names rank above descriptions in search results
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'C')`
+    ),
+    ...timestamps,
+  },
+  (table) => [
+    index("products_search_vector_idx").using("gin", table.searchVector),
+    index("products_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  ]
+);
+
 export const productVariants = pgTable("product_variants", {
   id: text("id").primaryKey(),
   productId: text("product_id")
@@ -35,7 +59,11 @@ export const productVariants = pgTable("product_variants", {
   price: numeric("price", { precision: 10, scale: 2 }).notNull(),
   compareAtPrice: numeric("compare_at_price", { precision: 10, scale: 2 }),
   inventoryQuantity: integer("inventory_quantity").notNull().default(0),
+  // Units held by active checkout reservations; still counted in inventoryQuantity until paid for
+  reservedQuantity: integer("reserved_quantity").notNull().default(0),
   lowStockThreshold: integer("low_stock_threshold").notNull().default(10),
+  // Shipping weight in kilograms, used by weight-based shipping rates
+  weight: numeric("weight", { precision: 10, scale: 3 }),
   ...timestamps,
 });
 
@@ -122,8 +150,11 @@ export const insertProductSchema = z.object({
     .regex(/^[a-z0-9-]+$/),
   description: z.string().max(5000).nullable().optional(),
   basePrice: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  currency: z.string().length(3).optional(),
   status: z.enum(productStatusEnum),
   tags: z.array(z.string()).nullable().optional(),
+  taxClass: z.string().min(1).max(50).optional(),
+  priceIncludesTax: z.boolean().optional(),
   createdAt: z.coerce.date().optional(),
   updatedAt: z.coerce.date().optional(),
 });
@@ -137,8 +168,11 @@ export const selectProductSchema = oz.openapi(
     slug: z.string(),
     description: z.string().nullable(),
     basePrice: z.string(),
+    currency: z.string(),
     status: z.string(),
     tags: z.array(z.string()).nullable(),
+    taxClass: z.string(),
+    priceIncludesTax: z.boolean(),
     createdAt: z.coerce.date(),
     updatedAt: z.coerce.date(),
   }),
@@ -160,6 +194,11 @@ export const insertProductVariantSchema = z.object({
     .optional(),
   inventoryQuantity: z.number().int().min(0),
   lowStockThreshold: z.number().int().min(0),
+  weight: z
+    .string()
+    .regex(/^\d+(\.\d{1,3})?$/)
+    .nullable()
+    .optional(),
   createdAt: z.coerce.date().optional(),
   updatedAt: z.coerce.date().optional(),
 });
@@ -172,7 +211,9 @@ export const selectProductVariantSchema = z.object({
   price: z.string(),
   compareAtPrice: z.string().nullable(),
   inventoryQuantity: z.number(),
+  reservedQuantity: z.number(),
   lowStockThreshold: z.number(),
+  weight: z.string().nullable(),
   createdAt: z.coerce.date(),
   updatedAt: z.coerce.date(),
 });
@@ -234,6 +275,8 @@ export const productImageListResponseSchema = oz.openapi(
 export const productVariantOptionResponseSchema =
   selectProductVariantOptionSchema;
 export const productVariantResponseSchema = selectProductVariantSchema.extend({
+  // inventoryQuantity less reservedQuantity, i.e. what can still be ordered
+  availableQuantity: z.number(),
   options: z.array(productVariantOptionResponseSchema),
 });
 export const productResponseSchema = oz.openapi(
@@ -244,6 +287,19 @@ export const productResponseSchema = oz.openapi(
     title: "ProductResponse",
   }
 );
+// Search results additionally carry their relevance score and a highlighted excerpt
+export const productListItemResponseSchema = oz.openapi(
+  productResponseSchema.extend({
+    relevance: z.number().optional(),
+    highlight: z.string().nullable().optional(),
+    // basePrice converted to the currency requested with the `currency` option
+    displayPrice: z.string().optional(),
+    displayCurrency: z.string().optional(),
+  }),
+  {
+    title: "ProductListItemResponse",
+  }
+);
 export const productDetailResponseSchema = oz.openapi(
   selectProductSchema.extend({
     variants: z.array(productVariantResponseSchema),
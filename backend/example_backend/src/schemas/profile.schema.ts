@@ -0,0 +1,49 @@
+import { pgTable, text, integer, timestamp } from 'drizzle-orm/pg-core';
+import z from 'zod/v3';
+import { timestamps } from './common.schema';
+import { users } from './user.schema';
+
+// Accepts common formatting (spaces, dashes, dots, parentheses) and stores E.164, e.g. +8801712345678
+export const phoneNumberSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/[\s\-.()]/g, ''))
+  .refine((value) => /^\+[1-9]\d{7,14}$/.test(value), {
+    message: 'Phone number must include the country code, e.g. +14155550123',
+  });
+
+// A pending change of a user's email, confirmed by an OTP sent to the new address
+export const emailChangeRequests = pgTable('email_change_requests', {
+  id: text('id').primaryKey(),
+  userId: text('user_id')
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  newEmail: text('new_email').notNull(),
+  otp: integer('otp').notNull(),
+  attempts: integer('attempts').notNull().default(0),
+  expiresAt: timestamp('expires_at').notNull(),
+  lastSentAt: timestamp('last_sent_at').notNull().defaultNow(),
+  ...timestamps,
+});
+
+export const userProfileResponseSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  phoneNumber: z.string().nullable(),
+  avatarUrl: z.string().nullable(),
+  roles: z.array(z.string()),
+  pendingEmailChange: z
+    .object({
+      newEmail: z.string(),
+      expiresAt: z.date(),
+    })
+    .nullable(),
+  // Set while a requested account deletion is in its grace period
+  deletionScheduledFor: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type UserProfileResponse = z.infer<typeof userProfileResponseSchema>;
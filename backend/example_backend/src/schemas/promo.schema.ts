@@ -4,7 +4,7 @@ import z from 'zod/v3';
 import { oz } from '@orpc/zod';
 import { timestamps } from './common.schema';
 
-export const discountTypeEnum = ['percentage', 'fixed'] as const;
+export const discountTypeEnum = ['percentage', 'fixed', 'bogo', 'free_shipping'] as const;
 
 export const promoCodes = pgTable('promo_codes', {
   id: text('id').primaryKey(),
@@ -16,12 +16,20 @@ export const promoCodes = pgTable('promo_codes', {
     scale: 2,
   }).notNull(),
   minOrderValue: numeric('min_order_value', { precision: 10, scale: 2 }),
+  // Currency of fixed amounts (discountValue for fixed codes, minOrderValue, maxDiscountAmount)
+  currency: text('currency').notNull().default('USD'),
   maxDiscountAmount: numeric('max_discount_amount', {
     precision: 10,
     scale: 2,
   }),
   usageLimit: integer('usage_limit'),
   usedCount: integer('used_count').notNull().default(0),
+  perUserLimit: integer('per_user_limit'),
+  // Non-stackable codes cannot be combined with any other code on the same order
+  stackable: boolean('stackable').notNull().default(false),
+  // BOGO: for every `buyQuantity` units of a line, `getQuantity` more are discounted by `discountValue` percent
+  buyQuantity: integer('buy_quantity'),
+  getQuantity: integer('get_quantity'),
   validFrom: timestamp('valid_from').notNull(),
   validUntil: timestamp('valid_until').notNull(),
   isActive: boolean('is_active').notNull().default(true),
@@ -37,8 +45,13 @@ export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
   discountType: z.enum(discountTypeEnum),
   discountValue: z.string().regex(/^\d+(\.\d{1,2})?$/),
   minOrderValue: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  currency: z.string().length(3).optional(),
   maxDiscountAmount: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
   usageLimit: z.number().int().min(1).optional(),
+  perUserLimit: z.number().int().min(1).optional(),
+  stackable: z.boolean().optional(),
+  buyQuantity: z.number().int().min(1).optional(),
+  getQuantity: z.number().int().min(1).optional(),
   validFrom: z.date(),
   validUntil: z.date(),
   isActive: z.boolean().optional(),
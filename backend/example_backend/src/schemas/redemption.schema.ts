@@ -0,0 +1,45 @@
+import { pgTable, text, numeric, timestamp, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import z from 'zod/v3';
+import { timestamps } from './common.schema';
+import { promoCodes } from './promo.schema';
+import { orders } from './order.schema';
+import { users } from './user.schema';
+
+export const promoRedemptionStatusEnum = ['active', 'released'] as const;
+
+// One row per promo code applied to an order. Active rows count towards usage limits;
+// cancelling the order releases them.
+export const promoRedemptions = pgTable(
+  'promo_redemptions',
+  {
+    id: text('id').primaryKey(),
+    promoCodeId: text('promo_code_id')
+      .notNull()
+      .references(() => promoCodes.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    orderId: text('order_id')
+      .notNull()
+      .references(() => orders.id, { onDelete: 'cascade' }),
+    discountAmount: numeric('discount_amount', { precision: 10, scale: 2 }).notNull(),
+    status: text('status').notNull().default('active'),
+    releasedAt: timestamp('released_at'),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('promo_redemptions_promo_order_idx').on(table.promoCodeId, table.orderId),
+    index('promo_redemptions_promo_user_idx').on(table.promoCodeId, table.userId),
+  ]
+);
+
+export const insertPromoRedemptionSchema = z.object({
+  id: z.string().optional(),
+  promoCodeId: z.string(),
+  userId: z.string(),
+  orderId: z.string(),
+  discountAmount: z.string(),
+  status: z.enum(promoRedemptionStatusEnum).optional(),
+});
+
+export type InsertPromoRedemption = z.infer<typeof insertPromoRedemptionSchema>;
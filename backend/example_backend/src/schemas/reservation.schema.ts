@@ -0,0 +1,48 @@
+import { pgTable, text, integer, timestamp, index } from 'drizzle-orm/pg-core';
+import z from 'zod/v3';
+import { timestamps } from './common.schema';
+import { orders, orderItems } from './order.schema';
+import { productVariants } from './product.schema';
+
+export const reservationStatusEnum = ['active', 'converted', 'released'] as const;
+
+// Stock held for an unpaid order item. Active rows count towards the variant's reservedQuantity;
+// payment converts them into a sale and the sweeper releases them once they expire.
+export const inventoryReservations = pgTable(
+  'inventory_reservations',
+  {
+    id: text('id').primaryKey(),
+    orderId: text('order_id')
+      .notNull()
+      .references(() => orders.id, { onDelete: 'cascade' }),
+    orderItemId: text('order_item_id')
+      .notNull()
+      .references(() => orderItems.id, { onDelete: 'cascade' }),
+    variantId: text('variant_id')
+      .notNull()
+      .references(() => productVariants.id, { onDelete: 'cascade' }),
+    quantity: integer('quantity').notNull(),
+    status: text('status').notNull().default('active'),
+    expiresAt: timestamp('expires_at').notNull(),
+    convertedAt: timestamp('converted_at'),
+    releasedAt: timestamp('released_at'),
+    ...timestamps,
+  },
+  (table) => [
+    index('inventory_reservations_status_expires_idx').on(table.status, table.expiresAt),
+    index('inventory_reservations_order_id_idx').on(table.orderId),
+    index('inventory_reservations_order_item_id_idx').on(table.orderItemId),
+  ]
+);
+
+export const insertInventoryReservationSchema = z.object({
+  id: z.string().optional(),
+  orderId: z.string(),
+  orderItemId: z.string(),
+  variantId: z.string(),
+  quantity: z.number().int().min(1),
+  status: z.enum(reservationStatusEnum).optional(),
+  expiresAt: z.coerce.date(),
+});
+
+export type InsertInventoryReservation = z.infer<typeof insertInventoryReservationSchema>;
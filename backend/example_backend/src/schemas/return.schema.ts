@@ -0,0 +1,169 @@
+import { pgTable, text, numeric, integer, timestamp, index } from 'drizzle-orm/pg-core';
+import { createSelectSchema } from 'drizzle-zod';
+import z from 'zod/v3';
+import { oz } from '@orpc/zod';
+import { relations } from 'drizzle-orm';
+import { timestamps } from './common.schema';
+import { orders, orderItems, selectOrderItemSchema } from './order.schema';
+import { users } from './user.schema';
+import { vendors } from './vendor.schema';
+import { refunds } from './payment.schema';
+
+export const returnStatusEnum = [
+  'requested',
+  'approved',
+  'rejected',
+  'received',
+  'refunded',
+  'cancelled',
+] as const;
+
+export const returnReasonEnum = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'no_longer_needed',
+  'other',
+] as const;
+
+// A buyer's request to send back delivered items from one vendor's part of an order
+export const returnRequests = pgTable(
+  'return_requests',
+  {
+    id: text('id').primaryKey(),
+    rmaNumber: text('rma_number').notNull().unique(),
+    orderId: text('order_id')
+      .notNull()
+      .references(() => orders.id, { onDelete: 'restrict' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'restrict' }),
+    vendorId: text('vendor_id')
+      .notNull()
+      .references(() => vendors.id, { onDelete: 'restrict' }),
+    status: text('status').notNull().default('requested'),
+    description: text('description'),
+    // Public URLs of photos uploaded through POST /returns/photos/upload-url
+    photos: text('photos').array(),
+    vendorNote: text('vendor_note'),
+    // Sum of the items' refund amounts, in the order currency
+    refundAmount: numeric('refund_amount', { precision: 10, scale: 2 }).notNull(),
+    currency: text('currency').notNull(),
+    refundId: text('refund_id').references(() => refunds.id, { onDelete: 'set null' }),
+    decidedAt: timestamp('decided_at'),
+    receivedAt: timestamp('received_at'),
+    ...timestamps,
+  },
+  (table) => [
+    index('return_requests_order_id_idx').on(table.orderId),
+    index('return_requests_vendor_id_idx').on(table.vendorId),
+  ]
+);
+
+export const returnItems = pgTable(
+  'return_items',
+  {
+    id: text('id').primaryKey(),
+    returnRequestId: text('return_request_id')
+      .notNull()
+      .references(() => returnRequests.id, { onDelete: 'cascade' }),
+    orderItemId: text('order_item_id')
+      .notNull()
+      .references(() => orderItems.id, { onDelete: 'restrict' }),
+    quantity: integer('quantity').notNull(),
+    reason: text('reason').notNull(),
+    // What the buyer paid for `quantity` units of the order item, discount and tax included
+    refundAmount: numeric('refund_amount', { precision: 10, scale: 2 }).notNull(),
+    restockedQuantity: integer('restocked_quantity').notNull().default(0),
+    ...timestamps,
+  },
+  (table) => [index('return_items_order_item_id_idx').on(table.orderItemId)]
+);
+
+export const returnRequestsRelations = relations(returnRequests, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [returnRequests.orderId],
+    references: [orders.id],
+  }),
+  user: one(users, {
+    fields: [returnRequests.userId],
+    references: [users.id],
+  }),
+  vendor: one(vendors, {
+    fields: [returnRequests.vendorId],
+    references: [vendors.id],
+  }),
+  refund: one(refunds, {
+    fields: [returnRequests.refundId],
+    references: [refunds.id],
+  }),
+  items: many(returnItems),
+}));
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnItems.returnRequestId],
+    references: [returnRequests.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const insertReturnRequestSchema = z.object({
+  id: z.string().optional(),
+  rmaNumber: z.string(),
+  orderId: z.string(),
+  userId: z.string(),
+  vendorId: z.string(),
+  status: z.enum(returnStatusEnum).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  photos: z.array(z.string().url()).optional(),
+  refundAmount: z.string(),
+  currency: z.string(),
+});
+
+export const insertReturnItemSchema = z.object({
+  id: z.string().optional(),
+  returnRequestId: z.string(),
+  orderItemId: z.string(),
+  quantity: z.number().int().min(1),
+  reason: z.enum(returnReasonEnum),
+  refundAmount: z.string(),
+});
+
+export const selectReturnRequestSchema = createSelectSchema(returnRequests) as any;
+export const selectReturnItemSchema = createSelectSchema(returnItems) as any;
+
+// Return request response schemas for API responses
+export const returnRequestListItemResponseSchema = oz.openapi(
+  selectReturnRequestSchema,
+  {
+    title: 'ReturnRequestListItem',
+  }
+);
+
+export const returnItemResponseSchema = oz.openapi(
+  (selectReturnItemSchema as any).extend({
+    orderItem: selectOrderItemSchema,
+  }),
+  {
+    title: 'ReturnItem',
+  }
+);
+
+export const returnRequestResponseSchema = oz.openapi(
+  (selectReturnRequestSchema as any).extend({
+    items: z.array(returnItemResponseSchema),
+  }),
+  {
+    title: 'ReturnRequestResponse',
+  }
+);
+
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+export type ReturnRequestResponse = z.infer<typeof returnRequestResponseSchema>;
+export type ReturnItemResponse = z.infer<typeof returnItemResponseSchema>;
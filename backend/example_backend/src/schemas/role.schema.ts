@@ -0,0 +1,59 @@
+import { pgTable, text, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
+import { createSelectSchema } from 'drizzle-zod';
+import z from 'zod/v3';
+import { oz } from '@orpc/zod';
+import { relations } from 'drizzle-orm';
+import { timestamps } from './common.schema';
+
+// Roles are referenced by name from user_role.role
+export const roles = pgTable('roles', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  // Built-in roles (user, vendor, admin, superadmin) can be regranted but not deleted
+  isBuiltIn: boolean('is_built_in').notNull().default(false),
+  ...timestamps,
+});
+
+export const rolePermissions = pgTable(
+  'role_permissions',
+  {
+    id: text('id').primaryKey(),
+    roleId: text('role_id')
+      .notNull()
+      .references(() => roles.id, { onDelete: 'cascade' }),
+    // A PermissionString, e.g. admin:order:r
+    permission: text('permission').notNull(),
+    ...timestamps,
+  },
+  (table) => [uniqueIndex('role_permissions_role_permission_idx').on(table.roleId, table.permission)]
+);
+
+export const rolesRelations = relations(roles, ({ many }) => ({
+  permissions: many(rolePermissions),
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  role: one(roles, {
+    fields: [rolePermissions.roleId],
+    references: [roles.id],
+  }),
+}));
+
+export const roleNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]{1,49}$/, 'Role names are lowercase letters, digits, "-" and "_"');
+
+export const selectRoleSchema = createSelectSchema(roles) as any;
+
+// Role response schema for API responses
+export const roleResponseSchema = oz.openapi(
+  (selectRoleSchema as any).extend({
+    permissions: z.array(z.string()),
+  }),
+  {
+    title: 'RoleResponse',
+  }
+);
+
+export type RoleResponse = z.infer<typeof roleResponseSchema>;
@@ -0,0 +1,113 @@
+import { pgTable, text, numeric, integer, boolean, index } from 'drizzle-orm/pg-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import z from 'zod/v3';
+import { oz } from '@orpc/zod';
+import { timestamps } from './common.schema';
+import { relations } from 'drizzle-orm';
+import { vendors } from './vendor.schema';
+
+// How a zone's rate table is read: by total variant weight or by number of units
+export const shippingRateTypeEnum = ['weight', 'quantity'] as const;
+
+export const shippingZones = pgTable(
+  'shipping_zones',
+  {
+    id: text('id').primaryKey(),
+    vendorId: text('vendor_id')
+      .notNull()
+      .references(() => vendors.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    // Empty or null lists match any value. Matching is case-insensitive.
+    countries: text('countries').array(),
+    states: text('states').array(),
+    postalCodePrefixes: text('postal_code_prefixes').array(),
+    rateType: text('rate_type').notNull().default('quantity'),
+    // Currency of the threshold and rate prices; taken from the vendor
+    currency: text('currency').notNull().default('USD'),
+    // Vendor subtotal at or above which shipping in this zone is free
+    freeShippingThreshold: numeric('free_shipping_threshold', { precision: 10, scale: 2 }),
+    // Higher priority zones are tried first when several match an address
+    priority: integer('priority').notNull().default(0),
+    isActive: boolean('is_active').notNull().default(true),
+    ...timestamps,
+  },
+  (table) => [index('shipping_zones_vendor_id_idx').on(table.vendorId)]
+);
+
+export const shippingRates = pgTable(
+  'shipping_rates',
+  {
+    id: text('id').primaryKey(),
+    zoneId: text('zone_id')
+      .notNull()
+      .references(() => shippingZones.id, { onDelete: 'cascade' }),
+    // Bracket bounds in kilograms or units, depending on the zone's rate type. `maxValue` is exclusive.
+    minValue: numeric('min_value', { precision: 10, scale: 3 }).notNull().default('0'),
+    maxValue: numeric('max_value', { precision: 10, scale: 3 }),
+    price: numeric('price', { precision: 10, scale: 2 }).notNull(),
+    // Charged for every kilogram or unit above `minValue`
+    pricePerUnit: numeric('price_per_unit', { precision: 10, scale: 2 }).notNull().default('0'),
+    ...timestamps,
+  },
+  (table) => [index('shipping_rates_zone_id_idx').on(table.zoneId)]
+);
+
+export const shippingZonesRelations = relations(shippingZones, ({ one, many }) => ({
+  vendor: one(vendors, {
+    fields: [shippingZones.vendorId],
+    references: [vendors.id],
+  }),
+  rates: many(shippingRates),
+}));
+
+export const shippingRatesRelations = relations(shippingRates, ({ one }) => ({
+  zone: one(shippingZones, {
+    fields: [shippingRates.zoneId],
+    references: [shippingZones.id],
+  }),
+}));
+
+// Using type assertions for drizzle-zod compatibility with zod v3
+export const insertShippingZoneSchema = createInsertSchema(shippingZones, {
+  name: z.string().min(1).max(255),
+  countries: z.array(z.string()).optional(),
+  states: z.array(z.string()).optional(),
+  postalCodePrefixes: z.array(z.string()).optional(),
+  rateType: z.enum(shippingRateTypeEnum),
+  freeShippingThreshold: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  priority: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+} as any) as any;
+
+export const insertShippingRateSchema = createInsertSchema(shippingRates, {
+  minValue: z.string().regex(/^\d+(\.\d{1,3})?$/).optional(),
+  maxValue: z.string().regex(/^\d+(\.\d{1,3})?$/).optional(),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  pricePerUnit: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+} as any) as any;
+
+export const selectShippingZoneSchema = createSelectSchema(shippingZones) as any;
+export const selectShippingRateSchema = createSelectSchema(shippingRates) as any;
+
+// Shipping response schemas for API responses
+export const shippingRateResponseSchema = oz.openapi(
+  selectShippingRateSchema,
+  {
+    title: 'ShippingRateResponse',
+  }
+);
+
+export const shippingZoneResponseSchema = oz.openapi(
+  (selectShippingZoneSchema as any).extend({
+    rates: z.array(shippingRateResponseSchema),
+  }),
+  {
+    title: 'ShippingZoneResponse',
+  }
+);
+
+export type SelectShippingZone = z.infer<typeof selectShippingZoneSchema>;
+export type InsertShippingZone = z.infer<typeof insertShippingZoneSchema>;
+export type SelectShippingRate = z.infer<typeof selectShippingRateSchema>;
+export type InsertShippingRate = z.infer<typeof insertShippingRateSchema>;
+export type ShippingZoneResponse = z.infer<typeof shippingZoneResponseSchema>;
@@ -0,0 +1,65 @@
+import { pgTable, text, numeric, boolean, index } from 'drizzle-orm/pg-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import z from 'zod/v3';
+import { oz } from '@orpc/zod';
+import { timestamps } from './common.schema';
+
+export const DEFAULT_TAX_CLASS = 'standard';
+
+export const taxRules = pgTable(
+  'tax_rules',
+  {
+    id: text('id').primaryKey(),
+    // Display name printed on invoices, e.g. "VAT" or "CA Sales Tax"
+    name: text('name').notNull(),
+    country: text('country').notNull(),
+    // State or region; null applies to the whole country. A region rule beats a country-wide one.
+    region: text('region'),
+    taxClass: text('tax_class').notNull().default(DEFAULT_TAX_CLASS),
+    // Fraction, e.g. 0.2000 for 20%
+    rate: numeric('rate', { precision: 6, scale: 4 }).notNull(),
+    isActive: boolean('is_active').notNull().default(true),
+    ...timestamps,
+  },
+  (table) => [index('tax_rules_country_class_idx').on(table.country, table.taxClass)]
+);
+
+// Using type assertions for drizzle-zod compatibility with zod v3
+export const insertTaxRuleSchema = createInsertSchema(taxRules, {
+  name: z.string().min(1).max(100),
+  country: z.string().min(2).max(100),
+  region: z.string().min(1).max(100).optional(),
+  taxClass: z.string().min(1).max(50).optional(),
+  rate: z.string().regex(/^0(\.\d{1,4})?$|^1(\.0{1,4})?$/),
+  isActive: z.boolean().optional(),
+} as any) as any;
+
+export const selectTaxRuleSchema = createSelectSchema(taxRules) as any;
+
+// Tax rule response schema for API responses
+export const taxRuleResponseSchema = oz.openapi(
+  selectTaxRuleSchema,
+  {
+    title: 'TaxRuleResponse',
+  }
+);
+
+// Tax totals grouped by rule, as printed on an invoice
+export const taxBreakdownSchema = oz.openapi(
+  z.array(
+    z.object({
+      name: z.string(),
+      rate: z.string(),
+      taxableAmount: z.string(),
+      taxAmount: z.string(),
+    })
+  ),
+  {
+    title: 'TaxBreakdown',
+  }
+);
+
+export type SelectTaxRule = z.infer<typeof selectTaxRuleSchema>;
+export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
+export type TaxRuleResponse = z.infer<typeof taxRuleResponseSchema>;
+export type TaxBreakdown = z.infer<typeof taxBreakdownSchema>;
@@ -14,6 +14,10 @@ export const users = pgTable('users', {
 	bannedAt: timestamp('banned_at'),
 	bannedUntil: timestamp('banned_until'),
 	banReason: text('ban_reason'),
+	// Set by DELETE /me; the account is anonymized once deletionScheduledFor passes
+	deletionRequestedAt: timestamp('deletion_requested_at'),
+	deletionScheduledFor: timestamp('deletion_scheduled_for'),
+	deletedAt: timestamp('deleted_at'),
 	...timestamps
 });
 
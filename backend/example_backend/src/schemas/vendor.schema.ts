@@ -17,6 +17,8 @@ export const vendors = pgTable('vendors', {
   description: text('description'),
   logo: text('logo'),
   status: text('status').notNull().default('pending'),
+  // Currency the vendor prices products and shipping in
+  currency: text('currency').notNull().default('USD'),
   ...timestamps,
 });
 
@@ -32,6 +34,7 @@ export const insertVendorSchema = createInsertSchema(vendors, {
   businessName: z.string().min(3).max(255),
   description: z.string().max(1000).optional(),
   status: z.enum(vendorStatusEnum),
+  currency: z.string().length(3).optional(),
 } as any) as any;
 
 export const selectVendorSchema = createSelectSchema(vendors) as any;
@@ -0,0 +1,37 @@
+/**
+ * Loads exchange rates from a local JSON file into the exchange_rates table.
+ *
+ *   npm run exchange-rates:load:local -- path/to/rates.json
+ *
+ * The file looks like exchange-rates.example.json: a base currency and the rate of every
+ * other currency against it. Reverse rates are stored as well.
+ */
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { Env } from '../context';
+import { getDb } from '../utils/db.utils';
+import { upsertExchangeRates } from '../repositories/currency.repository';
+import { exchangeRateFileSchema } from '../schemas/currency.schema';
+import { expandExchangeRateFile } from '../utils/currency.utils';
+
+async function main() {
+  const path = process.argv[2] ?? 'exchange-rates.json';
+  const connectionString = process.env.POSTGRES_CONNECTION_STRING;
+  if (!connectionString) {
+    throw new Error('POSTGRES_CONNECTION_STRING is not set');
+  }
+
+  const file = exchangeRateFileSchema.parse(JSON.parse(await readFile(path, 'utf8')));
+  const db = getDb({ POSTGRES_CONNECTION_STRING: connectionString } as Env);
+  const rows = await upsertExchangeRates(
+    db,
+    expandExchangeRateFile({ ...file, source: file.source ?? basename(path) })
+  );
+
+  console.log(`Loaded ${rows.length} exchange rates from ${path}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
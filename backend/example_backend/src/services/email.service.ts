@@ -1,29 +1,158 @@
 import { Resend } from 'resend';
 import { ORPCError } from '@orpc/server';
+import type { Env } from '../context';
+import type { DB } from '../utils/db.utils';
+import { isDevEnvironment } from '../utils/env.utils';
+import { createOutboxEmail } from '../repositories/email.repository';
+import { emailTemplateEnum } from '../schemas/email.schema';
+import {
+  renderOtpEmail,
+  renderEmailChangeEmail,
+  renderOrderConfirmationEmail,
+  renderVendorStatusEmail,
+  type RenderedEmail,
+} from '../utils/email.utils';
 
-export async function sendOtpEmail(apiKey: string, email: string, otp: number): Promise<void> {
+export type EmailTemplate = (typeof emailTemplateEnum)[number];
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  template?: EmailTemplate;
+  data?: Record<string, unknown>;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_EMAIL_FROM = 'FASQ <onboarding@resend.dev>';
+
+export function createResendEmailTransport(apiKey: string, from: string): EmailTransport {
   const resend = new Resend(apiKey);
 
+  return {
+    name: 'resend',
+
+    async send(message) {
+      const { error } = await resend.emails.send({
+        from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+  };
+}
+
+/**
+ * Stores emails in the `email_outbox` table instead of sending them,
+ * so local development and integration tests can read them back through the dev routes.
+ */
+export function createOutboxEmailTransport(db: DB, from: string): EmailTransport {
+  return {
+    name: 'outbox',
+
+    async send(message) {
+      await createOutboxEmail(db, {
+        from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        template: message.template,
+        data: message.data,
+      });
+    },
+  };
+}
+
+export function getEmailTransport(env: Env, db: DB): EmailTransport {
+  const transportName = env.EMAIL_TRANSPORT || (isDevEnvironment(env) ? 'outbox' : 'resend');
+  const from = env.EMAIL_FROM || DEFAULT_EMAIL_FROM;
+
+  switch (transportName) {
+    case 'resend':
+      return createResendEmailTransport(env.RESEND_API_KEY, from);
+    case 'outbox':
+      // Outbox emails can be read back through the dev routes, so real users must never get one
+      if (!isDevEnvironment(env)) {
+        throw new ORPCError('INTERNAL_SERVER_ERROR', {
+          message: 'The outbox email transport is only available in development',
+        });
+      }
+      return createOutboxEmailTransport(db, from);
+    default:
+      throw new ORPCError('INTERNAL_SERVER_ERROR', {
+        message: `Unknown email transport: ${transportName}`,
+      });
+  }
+}
+
+async function sendTemplatedEmail(
+  env: Env,
+  db: DB,
+  to: string,
+  template: EmailTemplate,
+  rendered: RenderedEmail,
+  data: Record<string, unknown>
+): Promise<void> {
+  const transport = getEmailTransport(env, db);
+
   try {
-    await resend.emails.send({
-      from: 'FASQ <onboarding@resend.dev>',
-      to: email,
-      subject: 'Your OTP Code',
-      html: `
-        <div style="font-family: Arial, sans-serif; padding: 20px;">
-          <h2>Your OTP Code</h2>
-          <p>Your one-time password is:</p>
-          <h1 style="color: #4CAF50; font-size: 32px; letter-spacing: 5px;">${otp}</h1>
-          <p>This code will expire in 5 minutes.</p>
-          <p>If you didn't request this code, please ignore this email.</p>
-        </div>
-      `,
-    });
+    await transport.send({ to, ...rendered, template, data });
   } catch (error) {
-    console.error('Failed to send OTP email:', error);
+    console.error(`Failed to send ${template} email via ${transport.name}:`, error);
     throw new ORPCError('INTERNAL_SERVER_ERROR', {
-      message: 'Failed to send OTP email',
+      message: 'Failed to send email',
     });
   }
 }
 
+export async function sendOtpEmail(env: Env, db: DB, email: string, otp: number): Promise<void> {
+  await sendTemplatedEmail(env, db, email, 'otp', renderOtpEmail({ otp }), { otp });
+}
+
+export async function sendEmailChangeEmail(env: Env, db: DB, email: string, otp: number): Promise<void> {
+  await sendTemplatedEmail(env, db, email, 'email_change', renderEmailChangeEmail({ otp }), { otp });
+}
+
+export async function sendOrderConfirmationEmail(
+  env: Env,
+  db: DB,
+  email: string,
+  order: { orderNumber: string; total: string; itemCount: number }
+): Promise<void> {
+  await sendTemplatedEmail(
+    env,
+    db,
+    email,
+    'order_confirmation',
+    renderOrderConfirmationEmail(order),
+    order
+  );
+}
+
+export async function sendVendorStatusEmail(
+  env: Env,
+  db: DB,
+  email: string,
+  vendor: { businessName: string; status: string }
+): Promise<void> {
+  await sendTemplatedEmail(
+    env,
+    db,
+    email,
+    'vendor_status',
+    renderVendorStatusEmail(vendor),
+    vendor
+  );
+}
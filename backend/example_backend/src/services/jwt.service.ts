@@ -1,15 +1,21 @@
 import { sign } from 'hono/jwt';
 
-const ACCESS_TOKEN_EXPIRY = 2 * 24 * 60 * 60;
+const ACCESS_TOKEN_EXPIRY = 15 * 60;
+export const REFRESH_TOKEN_EXPIRY = 30 * 24 * 60 * 60;
+// A just-rotated token is still accepted for this long, so parallel refreshes from one client
+// (e.g. several requests retrying after the same 401) are not taken for token theft
+export const REFRESH_TOKEN_REUSE_GRACE = 30;
 
 export async function generateAccessToken(
   userId: string,
   email: string,
-  jwtSecret: string
+  jwtSecret: string,
+  sessionId: string
 ): Promise<string> {
   const payload = {
     userId,
     email,
+    sid: sessionId,
     exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_EXPIRY,
     iat: Math.floor(Date.now() / 1000),
     type: 'access',
@@ -18,3 +24,28 @@ export async function generateAccessToken(
   return await sign(payload, jwtSecret, 'HS256');
 }
 
+export async function hashRefreshToken(token: string): Promise<string> {
+  const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function generateRefreshToken(): Promise<{
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+}> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+  return {
+    token,
+    tokenHash: await hashRefreshToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRY * 1000),
+  };
+}
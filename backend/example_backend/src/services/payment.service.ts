@@ -0,0 +1,514 @@
+import { ORPCError } from '@orpc/server';
+import type { Env } from '../context';
+import type { DB } from '../utils/db.utils';
+import { parseMoney } from '../utils/money.utils';
+import { isDevEnvironment } from '../utils/env.utils';
+import {
+  createFakePaymentIntent,
+  getFakePaymentIntent,
+  getFakePaymentIntentByIdempotencyKey,
+  refundFakePaymentIntent,
+  updateFakePaymentIntentStatus,
+} from '../repositories/payment.repository';
+
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'succeeded'
+  | 'canceled';
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  metadata: Record<string, string>;
+}
+
+export interface CreatePaymentIntentParams {
+  amount: number;
+  currency: string;
+  metadata: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface Refund {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+}
+
+export interface CreateRefundParams {
+  paymentIntentId: string;
+  // Minor units; may be less than the intent amount for partial refunds
+  amount: number;
+  metadata: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export type PaymentWebhookEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'payment.refunded'
+  | 'unknown';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  providerType: string;
+  paymentIntentId: string | null;
+  orderId: string | null;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  retrieveIntent(intentId: string): Promise<PaymentIntent>;
+  confirmIntent(intentId: string, paymentMethod?: string): Promise<PaymentIntent>;
+  // Voids an intent that has not been paid yet, so it can no longer be confirmed
+  cancelIntent(intentId: string): Promise<PaymentIntent>;
+  createRefund(params: CreateRefundParams): Promise<Refund>;
+  constructWebhookEvent(
+    rawBody: string,
+    signatureHeader: string | null | undefined,
+    secret: string
+  ): Promise<PaymentWebhookEvent>;
+}
+
+export const PAYMENT_WEBHOOK_SIGNATURE_HEADER = 'stripe-signature';
+
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+function toFormBody(params: Record<string, string | number | boolean | Record<string, string>>): string {
+  const body = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (typeof value === 'object') {
+      for (const [nestedKey, nestedValue] of Object.entries(value)) {
+        body.append(`${key}[${nestedKey}]`, nestedValue);
+      }
+    } else {
+      body.append(key, String(value));
+    }
+  }
+
+  return body.toString();
+}
+
+interface StripePaymentIntent {
+  id: string;
+  client_secret: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  metadata?: Record<string, string>;
+}
+
+const STRIPE_EVENT_TYPES: Record<string, PaymentWebhookEventType> = {
+  'payment_intent.succeeded': 'payment.succeeded',
+  'payment_intent.payment_failed': 'payment.failed',
+  'payment_intent.canceled': 'payment.failed',
+  'charge.refunded': 'payment.refunded',
+};
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  data: {
+    object: {
+      id: string;
+      object: string;
+      payment_intent?: string | null;
+      metadata?: Record<string, string>;
+      // Set on charge objects, in minor units
+      amount?: number;
+      amount_refunded?: number;
+    };
+  };
+}
+
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Builds a Stripe-style `t=<timestamp>,v1=<hmac>` signature header for a payload.
+ * Used by the fake provider so local webhook deliveries go through the same verification.
+ */
+export async function signWebhookPayload(
+  rawBody: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${rawBody}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null | undefined,
+  secret: string
+): Promise<void> {
+  if (!signatureHeader) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Missing webhook signature' });
+  }
+
+  const parts = signatureHeader.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Malformed webhook signature' });
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Webhook timestamp outside tolerance' });
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${rawBody}`);
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Invalid webhook signature' });
+  }
+}
+
+async function constructStripeEvent(
+  rawBody: string,
+  signatureHeader: string | null | undefined,
+  secret: string
+): Promise<PaymentWebhookEvent> {
+  await verifyWebhookSignature(rawBody, signatureHeader, secret);
+
+  let event: StripeEvent;
+  try {
+    event = JSON.parse(rawBody) as StripeEvent;
+  } catch {
+    throw new ORPCError('BAD_REQUEST', { message: 'Invalid webhook payload' });
+  }
+
+  if (!event?.id || !event.type || !event.data?.object) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Invalid webhook payload' });
+  }
+
+  const object = event.data.object;
+  const paymentIntentId = object.object === 'payment_intent' ? object.id : object.payment_intent ?? null;
+  // Partial refunds leave the payment completed; Stripe sends charge.refunded for those too
+  const partialRefund =
+    event.type === 'charge.refunded' && (object.amount_refunded ?? 0) < (object.amount ?? 0);
+
+  return {
+    id: event.id,
+    type: partialRefund ? 'unknown' : STRIPE_EVENT_TYPES[event.type] ?? 'unknown',
+    providerType: event.type,
+    paymentIntentId,
+    orderId: object.metadata?.orderId ?? null,
+    payload: event,
+  };
+}
+
+interface StripeRefund {
+  id: string;
+  payment_intent: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+interface StripeErrorBody {
+  error?: {
+    type?: string;
+    code?: string;
+    message?: string;
+  };
+}
+
+function mapStripeRefund(data: StripeRefund): Refund {
+  return {
+    id: data.id,
+    paymentIntentId: data.payment_intent,
+    amount: data.amount,
+    currency: data.currency.toUpperCase(),
+    status:
+      data.status === 'succeeded'
+        ? 'succeeded'
+        : data.status === 'failed' || data.status === 'canceled'
+          ? 'failed'
+          : 'pending',
+  };
+}
+
+function mapStripeIntent(data: StripePaymentIntent): PaymentIntent {
+  return {
+    id: data.id,
+    clientSecret: data.client_secret,
+    amount: data.amount,
+    currency: data.currency.toUpperCase(),
+    status: data.status,
+    metadata: data.metadata ?? {},
+  };
+}
+
+export function createStripePaymentProvider(secretKey: string): PaymentProvider {
+  async function request(
+    path: string,
+    init: { method: string; body?: string; idempotencyKey?: string }
+  ): Promise<unknown> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (init.idempotencyKey) {
+      headers['Idempotency-Key'] = init.idempotencyKey;
+    }
+
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method: init.method,
+      headers,
+      body: init.body,
+    });
+
+    // Gateways in front of the API can answer errors with HTML or an empty body
+    const data = (await response.json().catch(() => null)) as StripeErrorBody | null;
+
+    if (!response.ok || !data) {
+      throw new ORPCError('BAD_GATEWAY', {
+        message: 'Payment provider request failed',
+        data: {
+          status: response.status,
+          code: data?.error?.code ?? null,
+          type: data?.error?.type ?? null,
+        },
+      });
+    }
+
+    return data;
+  }
+
+  async function requestIntent(path: string, init: { method: string; body?: string; idempotencyKey?: string }) {
+    return mapStripeIntent((await request(path, init)) as StripePaymentIntent);
+  }
+
+  return {
+    name: 'stripe',
+
+    createIntent(params) {
+      return requestIntent('/payment_intents', {
+        method: 'POST',
+        idempotencyKey: params.idempotencyKey,
+        body: toFormBody({
+          amount: params.amount,
+          currency: params.currency.toLowerCase(),
+          metadata: params.metadata,
+          'automatic_payment_methods[enabled]': true,
+        }),
+      });
+    },
+
+    retrieveIntent(intentId) {
+      return requestIntent(`/payment_intents/${encodeURIComponent(intentId)}`, { method: 'GET' });
+    },
+
+    confirmIntent(intentId, paymentMethod) {
+      return requestIntent(`/payment_intents/${encodeURIComponent(intentId)}/confirm`, {
+        method: 'POST',
+        body: paymentMethod ? toFormBody({ payment_method: paymentMethod }) : undefined,
+      });
+    },
+
+    cancelIntent(intentId) {
+      return requestIntent(`/payment_intents/${encodeURIComponent(intentId)}/cancel`, { method: 'POST' });
+    },
+
+    async createRefund(params) {
+      const data = await request('/refunds', {
+        method: 'POST',
+        idempotencyKey: params.idempotencyKey,
+        body: toFormBody({
+          payment_intent: params.paymentIntentId,
+          amount: params.amount,
+          metadata: params.metadata,
+        }),
+      });
+      return mapStripeRefund(data as StripeRefund);
+    },
+
+    constructWebhookEvent: constructStripeEvent,
+  };
+}
+
+// Test payment methods understood by the fake provider, mirroring Stripe's test tokens
+export const FAKE_PAYMENT_METHOD_SUCCESS = 'pm_card_visa';
+export const FAKE_PAYMENT_METHOD_DECLINED = 'pm_card_chargeDeclined';
+
+function mapFakeIntent(data: {
+  id: string;
+  clientSecret: string;
+  amount: number;
+  currency: string;
+  status: string;
+  metadata: Record<string, string>;
+}): PaymentIntent {
+  return {
+    id: data.id,
+    clientSecret: data.clientSecret,
+    amount: data.amount,
+    currency: data.currency,
+    status: data.status as PaymentIntentStatus,
+    metadata: data.metadata,
+  };
+}
+
+/**
+ * Offline stand-in for Stripe. Intents are stored in `fake_payment_intents`, so they survive
+ * reloads and are shared between isolates.
+ */
+export function createFakePaymentProvider(db: DB): PaymentProvider {
+  async function getIntent(intentId: string): Promise<PaymentIntent> {
+    const intent = await getFakePaymentIntent(db, intentId);
+    if (!intent) {
+      throw new ORPCError('NOT_FOUND', { message: 'Payment intent not found' });
+    }
+    return mapFakeIntent(intent);
+  }
+
+  function fakeRefund(paymentIntentId: string, amount: number, currency: string, status: RefundStatus): Refund {
+    return {
+      id: `re_fake_${crypto.randomUUID().replace(/-/g, '')}`,
+      paymentIntentId,
+      amount,
+      currency,
+      status,
+    };
+  }
+
+  return {
+    name: 'fake',
+
+    async createIntent(params) {
+      const id = `pi_fake_${crypto.randomUUID().replace(/-/g, '')}`;
+      const intent = await createFakePaymentIntent(db, {
+        id,
+        clientSecret: `${id}_secret_${crypto.randomUUID().replace(/-/g, '')}`,
+        amount: params.amount,
+        currency: params.currency.toUpperCase(),
+        status: 'requires_payment_method',
+        metadata: params.metadata,
+        idempotencyKey: params.idempotencyKey ?? null,
+      });
+
+      // Replays of an idempotency key get the intent it created first
+      if (!intent && params.idempotencyKey) {
+        const existing = await getFakePaymentIntentByIdempotencyKey(db, params.idempotencyKey);
+        if (existing) {
+          return mapFakeIntent(existing);
+        }
+      }
+      if (!intent) {
+        throw new ORPCError('INTERNAL_SERVER_ERROR', { message: 'Failed to create payment intent' });
+      }
+
+      return mapFakeIntent(intent);
+    },
+
+    async retrieveIntent(intentId) {
+      return getIntent(intentId);
+    },
+
+    async confirmIntent(intentId, paymentMethod = FAKE_PAYMENT_METHOD_SUCCESS) {
+      const intent = await getIntent(intentId);
+
+      if (intent.status === 'succeeded' || intent.status === 'canceled') {
+        return intent;
+      }
+
+      const status = paymentMethod === FAKE_PAYMENT_METHOD_DECLINED ? 'requires_payment_method' : 'succeeded';
+      const updated = await updateFakePaymentIntentStatus(db, intentId, intent.status, status);
+
+      // Another confirmation got there first; report what it did
+      return updated ? mapFakeIntent(updated) : await getIntent(intentId);
+    },
+
+    async cancelIntent(intentId) {
+      const intent = await getIntent(intentId);
+
+      if (intent.status === 'succeeded' || intent.status === 'canceled') {
+        return intent;
+      }
+
+      const updated = await updateFakePaymentIntentStatus(db, intentId, intent.status, 'canceled');
+      return updated ? mapFakeIntent(updated) : await getIntent(intentId);
+    },
+
+    async createRefund(params) {
+      const intent = await getIntent(params.paymentIntentId);
+      const refunded = await refundFakePaymentIntent(db, intent.id, params.amount);
+
+      return fakeRefund(intent.id, params.amount, intent.currency, refunded ? 'succeeded' : 'failed');
+    },
+
+    // The fake provider emits Stripe-shaped events, see signWebhookPayload
+    constructWebhookEvent: constructStripeEvent,
+  };
+}
+
+export function getPaymentProvider(env: Env, db: DB): PaymentProvider {
+  const providerName = env.PAYMENT_PROVIDER || (isDevEnvironment(env) ? 'fake' : 'stripe');
+
+  switch (providerName) {
+    case 'stripe':
+      if (!env.STRIPE_SECRET_KEY) {
+        throw new ORPCError('INTERNAL_SERVER_ERROR', {
+          message: 'Stripe secret key is not configured',
+        });
+      }
+      return createStripePaymentProvider(env.STRIPE_SECRET_KEY);
+    case 'fake':
+      // Confirming a fake intent marks an order paid without charging anyone
+      if (!isDevEnvironment(env)) {
+        throw new ORPCError('INTERNAL_SERVER_ERROR', {
+          message: 'The fake payment provider is only available in development',
+        });
+      }
+      return createFakePaymentProvider(db);
+    default:
+      throw new ORPCError('INTERNAL_SERVER_ERROR', {
+        message: `Unknown payment provider: ${providerName}`,
+      });
+  }
+}
+
+export function toMinorUnits(amount: string | number, currency?: string): number {
+  return parseMoney(amount, currency).minor;
+}
@@ -0,0 +1,160 @@
+import { ORPCError } from '@orpc/server';
+import { sign, verify } from 'hono/jwt';
+import type { Env } from '../context';
+import { DB, runInTransaction } from './db.utils';
+import { findUserById, findUserRoles } from '../repositories/user.repository';
+import { getVendorByUserId } from '../repositories/vendor.repository';
+import {
+  anonymizeUserAccount,
+  countOpenUserActivity,
+  getUserExportData,
+  listAccountsDueForDeletion,
+} from '../repositories/account.repository';
+import { deleteR2Prefix, generateAccountExportKey } from './r2.utils';
+
+// Time between DELETE /me and the account being anonymized, during which it can be cancelled
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+// Download links and the export objects behind them expire together
+export const ACCOUNT_EXPORT_TTL_SECONDS = 24 * 60 * 60;
+
+// Prefixes holding a user's uploads, all filed under the user id
+const USER_R2_PREFIXES = ['avatars', 'returns', 'exports'] as const;
+
+// Download links end up in logs and browser history, so they are signed with a key access
+// tokens never use and cannot be replayed against the API
+function getAccountExportSecret(env: Env): string {
+  return env.ACCOUNT_EXPORT_SECRET || `${env.JWT_SECRET}:account-export`;
+}
+
+export function getAccountDeletionDate(now: Date = new Date()): Date {
+  return new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export async function buildAccountExport(db: DB, userId: string) {
+  const [user, roles, data] = await Promise.all([
+    findUserById(db, userId),
+    findUserRoles(db, userId),
+    getUserExportData(db, userId),
+  ]);
+
+  if (!user) {
+    throw new ORPCError('NOT_FOUND', { message: 'User not found' });
+  }
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phoneNumber: user.phoneNumber,
+      avatarUrl: user.avatarUrl,
+      roles: roles.map((role) => role.role),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    addresses: data.addresses,
+    orders: data.orders,
+    reviews: data.reviews,
+    returns: data.returns,
+    sessions: data.sessions,
+    // Fingerprints and push tokens identify the device to us, not to the user
+    devices: data.devices.map(({ fingerprint, fcmToken, ...device }) => device),
+  };
+}
+
+/**
+ * Writes the user's data export to R2 and returns a link that is valid for
+ * ACCOUNT_EXPORT_TTL_SECONDS. The object itself is removed by the scheduled cleanup.
+ */
+export async function createAccountExport(env: Env, db: DB, userId: string) {
+  const archive = await buildAccountExport(db, userId);
+  const key = generateAccountExportKey(userId);
+
+  await env.R2_BUCKET.put(key, JSON.stringify(archive, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  const exp = Math.floor(Date.now() / 1000) + ACCOUNT_EXPORT_TTL_SECONDS;
+  const token = await sign({ key, userId, type: 'export', exp }, getAccountExportSecret(env), 'HS256');
+
+  return {
+    url: `/api/me/export/download?token=${encodeURIComponent(token)}`,
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+// Resolves a download token to the export's R2 key
+export async function verifyAccountExportToken(env: Env, token: string): Promise<string> {
+  let payload: { key?: string; userId?: string; type?: string };
+  try {
+    payload = (await verify(token, getAccountExportSecret(env), 'HS256')) as typeof payload;
+  } catch (error) {
+    throw new ORPCError('UNAUTHORIZED', { message: 'Invalid or expired download link' });
+  }
+
+  if (payload.type !== 'export' || !payload.key?.startsWith(`exports/${payload.userId}/`)) {
+    throw new ORPCError('UNAUTHORIZED', { message: 'Invalid or expired download link' });
+  }
+
+  return payload.key;
+}
+
+// Vendors and buyers with orders or returns in flight have to settle them first
+export async function assertAccountDeletable(db: DB, userId: string) {
+  const vendor = await getVendorByUserId(db, userId);
+  if (vendor) {
+    throw new ORPCError('CONFLICT', {
+      message: 'Vendor accounts cannot be deleted while the store exists',
+      data: { vendorId: vendor.id },
+    });
+  }
+
+  const open = await countOpenUserActivity(db, userId);
+  if (open.orders > 0 || open.returns > 0) {
+    throw new ORPCError('CONFLICT', {
+      message: 'Complete or cancel your open orders and returns first',
+      data: { openOrders: open.orders, openReturns: open.returns },
+    });
+  }
+}
+
+/**
+ * Anonymizes accounts whose grace period has ended. Accounts that picked up open
+ * orders or returns since requesting deletion are left for a later run.
+ */
+export async function deleteDueAccounts(env: Env, db: DB, now: Date = new Date()) {
+  const due = await listAccountsDueForDeletion(db, now);
+  let deleted = 0;
+  const errors: unknown[] = [];
+
+  for (const user of due) {
+    try {
+      const open = await countOpenUserActivity(db, user.id);
+      if (open.orders > 0 || open.returns > 0 || (await getVendorByUserId(db, user.id))) {
+        continue;
+      }
+
+      await runInTransaction(env, (tx) => anonymizeUserAccount(tx, user));
+      deleted++;
+
+      for (const prefix of USER_R2_PREFIXES) {
+        await deleteR2Prefix(`${prefix}/${user.id}/`, env.R2_BUCKET);
+      }
+    } catch (error) {
+      // The account stays due, so the next run retries it; the others still go ahead
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `Failed to delete ${errors.length} of ${due.length} due accounts`);
+  }
+
+  return { due: due.length, deleted };
+}
+
+export async function deleteExpiredAccountExports(env: Env, now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() - ACCOUNT_EXPORT_TTL_SECONDS * 1000);
+  return await deleteR2Prefix('exports/', env.R2_BUCKET, cutoff);
+}
@@ -0,0 +1,25 @@
+import type { TRPCContext } from '../context';
+import type { DBExecutor } from './db.utils';
+import { createAdminAuditLog } from '../repositories/audit.repository';
+import { auditTargetTypeEnum } from '../schemas/audit.schema';
+
+export type AuditTargetType = (typeof auditTargetTypeEnum)[number];
+
+export interface AdminAction {
+  action: string;
+  targetType: AuditTargetType;
+  targetId: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Records an admin action taken by the caller. Pass `db` to write the entry in the
+ * transaction that makes the change.
+ */
+export async function recordAdminAction(ctx: TRPCContext, entry: AdminAction, db: DBExecutor = ctx.get('db')) {
+  return await createAdminAuditLog(db, {
+    ...entry,
+    actorId: ctx.get('authUser')?.id ?? null,
+    ipAddress: ctx.c.req.header('cf-connecting-ip') ?? null,
+  });
+}
@@ -1,10 +1,11 @@
 import type { PermissionString } from './permission.utils';
-import { roleMap } from './permission.utils';
 import type { HonoContext } from '../context';
 import type { DB } from './db.utils';
 import { findUserByEmail, createUser, createUserRole, isUserBanned } from '../repositories/user.repository';
 import { findDeviceById } from '../repositories/device.repository';
 import { findOtpByDeviceAndEmail } from '../repositories/otp.repository';
+import { createRefreshToken } from '../repositories/auth.repository';
+import { generateAccessToken, generateRefreshToken } from '../services/jwt.service';
 
 export interface AuthUser {
 	id: string;
@@ -13,6 +14,7 @@ export interface AuthUser {
 }
 
 export interface AuthSession {
+	authId: string;
 	userId: string;
 	email: string;
 }
@@ -25,36 +27,37 @@ export function authIsSuperAdmin(userRoles: string[]): boolean {
 	return userRoles.includes('superadmin');
 }
 
-function hasAnyOfPermission(userRoles: string[], requiredPermissions: PermissionString[]): boolean {
-	const userPermissions = userRoles.flatMap((userRole) => roleMap[userRole] || []);
-
-	const directMatch = userRoles.some((role) => requiredPermissions.includes(role as PermissionString));
-
+/**
+ * Whether the granted permissions cover `permission`. Role names count as permissions of
+ * their own, and read-write grants include the matching read-only permission.
+ */
+export function hasPermission(grantedPermissions: string[], permission: PermissionString): boolean {
 	return (
-		requiredPermissions.some((permission) => userPermissions.includes(permission)) || directMatch
+		grantedPermissions.includes(permission) ||
+		(permission.endsWith(':r') && grantedPermissions.includes(`${permission}w`))
 	);
 }
 
-function hasAllOfPermission(userRoles: string[], requiredPermissions: PermissionString[]): boolean {
-	const userPermissions = userRoles.flatMap((userRole) => roleMap[userRole] || []);
-
-	return requiredPermissions.every((permission) => userPermissions.includes(permission));
-}
-
+/**
+ * `userPermissions` are the grants of the user's roles, as stored in role_permissions.
+ */
 export function checkPermissions(
 	userRoles: string[],
+	userPermissions: string[],
 	permissions: { anyOf?: PermissionString[]; allOf?: PermissionString[] }
 ): boolean {
 	if (authIsSuperAdmin(userRoles)) {
 		return true;
 	}
 
+	const granted = [...userRoles, ...userPermissions];
+
 	if (permissions.anyOf) {
-		return hasAnyOfPermission(userRoles, permissions.anyOf);
+		return permissions.anyOf.some((permission) => hasPermission(granted, permission));
 	}
 
 	if (permissions.allOf) {
-		return hasAllOfPermission(userRoles, permissions.allOf);
+		return permissions.allOf.every((permission) => hasPermission(granted, permission));
 	}
 
 	return false;
@@ -101,3 +104,23 @@ export function isOtpExpired(otp: { expiredAt: Date | null }): boolean {
 	return new Date() > otp.expiredAt;
 }
 
+export async function issueAuthTokens(
+	db: DB,
+	jwtSecret: string,
+	user: { id: string; email: string },
+	authId: string
+): Promise<{ accessToken: string; refreshToken: string }> {
+	const accessToken = await generateAccessToken(user.id, user.email, jwtSecret, authId);
+	const refreshToken = await generateRefreshToken();
+
+	await createRefreshToken(
+		db,
+		crypto.randomUUID(),
+		authId,
+		user.id,
+		refreshToken.tokenHash,
+		refreshToken.expiresAt
+	);
+
+	return { accessToken, refreshToken: refreshToken.token };
+}
@@ -0,0 +1,76 @@
+import { ORPCError } from '@orpc/server';
+import type { DB } from './db.utils';
+import { getOrCreateCart, getCartWithItems } from '../repositories/cart.repository';
+import { getAddressById } from '../repositories/address.repository';
+import { calculateOrderTotals, toOrderLines, OrderTotals } from './order.utils';
+import { convertPromoCode, resolvePromoCodes } from './promo.utils';
+import { quoteShipping, toShippingLines } from './shipping.utils';
+import { resolveLineTaxRates } from './tax.utils';
+import { getExchangeRates, resolveChargeCurrency } from './currency.utils';
+
+export interface PriceCartOptions {
+  promoCodes?: string[];
+  shippingAddressId?: string;
+  // Currency to charge in; defaults to the cart's catalog currency
+  currency?: string;
+}
+
+/**
+ * Prices the user's current cart. Both the checkout quote and order creation go through here,
+ * so the total shown to the customer is the total that gets charged.
+ */
+export async function priceCart(db: DB, userId: string, options: PriceCartOptions = {}) {
+  const cart = await getOrCreateCart(db, userId);
+  const cartData = await getCartWithItems(db, cart.id);
+  if (!cartData || !cartData.items || cartData.items.length === 0) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Cart is empty' });
+  }
+
+  const shippingAddress = options.shippingAddressId
+    ? await getAddressById(db, options.shippingAddressId, userId)
+    : null;
+
+  if (options.shippingAddressId && !shippingAddress) {
+    throw new ORPCError('NOT_FOUND', { message: 'Shipping address not found' });
+  }
+
+  const catalogCurrencies = cartData.items.map(({ product }) => product.currency);
+  const currency = resolveChargeCurrency(options.currency, catalogCurrencies);
+
+  const { promoCodes: resolvedPromoCodes, rejected: unresolvedPromoCodes } = await resolvePromoCodes(
+    db,
+    options.promoCodes ?? [],
+    userId
+  );
+  const rates = await getExchangeRates(
+    db,
+    [...catalogCurrencies, ...resolvedPromoCodes.map((promoCode) => promoCode.currency)],
+    currency
+  );
+  const promoCodes = resolvedPromoCodes.map((promoCode) => convertPromoCode(promoCode, currency, rates));
+
+  // Shipping and tax depend on the destination, so without an address they are left out of the total
+  const shipments = shippingAddress
+    ? await quoteShipping(db, toShippingLines(cartData.items, currency, rates), shippingAddress, currency)
+    : [];
+  const lineTaxes = shippingAddress
+    ? await resolveLineTaxRates(db, cartData.items, shippingAddress)
+    : undefined;
+  const calculatedTotals = calculateOrderTotals(
+    toOrderLines(cartData.items, currency, rates),
+    promoCodes,
+    shipments,
+    lineTaxes
+  );
+  const totals: OrderTotals = {
+    ...calculatedTotals,
+    rejectedPromoCodes: [...unresolvedPromoCodes, ...calculatedTotals.rejectedPromoCodes],
+  };
+
+  // Only the rates for currencies actually in the cart are worth recording on the order
+  const exchangeRates = Object.fromEntries(
+    Array.from(new Set(catalogCurrencies)).map((catalogCurrency) => [catalogCurrency, rates.get(catalogCurrency)!])
+  );
+
+  return { cartData, shippingAddress, totals, exchangeRates };
+}
@@ -0,0 +1,83 @@
+import { ORPCError } from '@orpc/server';
+import type { DB } from './db.utils';
+import type { ExchangeRateFile } from '../schemas/currency.schema';
+import { ExchangeRateInput, listExchangeRatesTo } from '../repositories/currency.repository';
+import { DEFAULT_CURRENCY, convertMoney, formatMoney, invertRate, parseMoney } from './money.utils';
+
+export const IDENTITY_RATE = '1';
+
+/**
+ * Loads the rates needed to convert each of `fromCurrencies` into `toCurrency`.
+ * Converting a currency into itself always uses a rate of 1.
+ */
+export async function getExchangeRates(
+  db: DB,
+  fromCurrencies: string[],
+  toCurrency: string
+): Promise<Map<string, string>> {
+  const target = toCurrency.toUpperCase();
+  const sources = Array.from(new Set(fromCurrencies.map((currency) => currency.toUpperCase())));
+  const foreign = sources.filter((currency) => currency !== target);
+
+  const rows = await listExchangeRatesTo(db, foreign, target);
+  const rates = new Map<string, string>(rows.map((row) => [row.baseCurrency, row.rate]));
+
+  const missing = foreign.filter((currency) => !rates.has(currency));
+  if (missing.length > 0) {
+    throw new ORPCError('BAD_REQUEST', {
+      message: `Prices cannot be converted to ${target}`,
+      data: { currency: target, missingRates: missing },
+    });
+  }
+
+  if (sources.includes(target)) {
+    rates.set(target, IDENTITY_RATE);
+  }
+
+  return rates;
+}
+
+/**
+ * Currency to charge in when the customer did not choose one: the catalog currency if the
+ * cart only has one, otherwise the store default.
+ */
+export function resolveChargeCurrency(requested: string | undefined, catalogCurrencies: string[]): string {
+  if (requested) {
+    return requested.toUpperCase();
+  }
+
+  const unique = Array.from(new Set(catalogCurrencies.map((currency) => currency.toUpperCase())));
+  return unique.length === 1 ? unique[0]! : DEFAULT_CURRENCY;
+}
+
+export function convertPrice(value: string, fromCurrency: string, toCurrency: string, rates: Map<string, string>) {
+  return convertMoney(parseMoney(value, fromCurrency), toCurrency, rates.get(fromCurrency.toUpperCase()) ?? IDENTITY_RATE);
+}
+
+/**
+ * Adds converted display prices to product list rows. Rows keep their own basePrice and currency.
+ */
+export async function withDisplayPrices<T extends { basePrice: string; currency: string }>(
+  db: DB,
+  rows: T[],
+  currency: string
+): Promise<(T & { displayPrice: string; displayCurrency: string })[]> {
+  const rates = await getExchangeRates(db, rows.map((row) => row.currency), currency);
+
+  return rows.map((row) => ({
+    ...row,
+    displayPrice: formatMoney(convertPrice(row.basePrice, row.currency, currency, rates)),
+    displayCurrency: currency.toUpperCase(),
+  }));
+}
+
+// A rate file quotes everything against one base; the reverse direction is stored alongside
+export function expandExchangeRateFile(file: ExchangeRateFile): ExchangeRateInput[] {
+  return Object.entries(file.rates)
+    .map(([quoteCurrency, rate]) => [quoteCurrency.toUpperCase(), String(rate)] as const)
+    .filter(([quoteCurrency]) => quoteCurrency !== file.base)
+    .flatMap(([quoteCurrency, rate]) => [
+      { baseCurrency: file.base, quoteCurrency, rate, source: file.source },
+      { baseCurrency: quoteCurrency, quoteCurrency: file.base, rate: invertRate(rate), source: file.source },
+    ]);
+}
@@ -1,11 +1,45 @@
 import { drizzle } from 'drizzle-orm/neon-http';
+import { drizzle as drizzlePool } from 'drizzle-orm/neon-serverless';
+import { Pool } from '@neondatabase/serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import { Env } from '../context';
 import * as schema from '../schemas';
 
 export type DB = ReturnType<typeof getDb>;
 
+// Anything repositories can run queries against: the HTTP client or an open transaction
+export type DBExecutor = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type DBTransaction = Parameters<
+  Parameters<ReturnType<typeof getPoolDb>['transaction']>[0]
+>[0];
+
 export function getDb(env: Env) {
   return drizzle(env.POSTGRES_CONNECTION_STRING, {
     schema,
   });
-}
\ No newline at end of file
+}
+
+function getPoolDb(pool: Pool) {
+  return drizzlePool(pool, {
+    schema,
+  });
+}
+
+/**
+ * Runs `callback` inside an interactive transaction.
+ * The neon-http driver cannot hold a transaction open, so this opens a short-lived
+ * WebSocket pool for the duration of the callback and closes it afterwards.
+ */
+export async function runInTransaction<T>(
+  env: Env,
+  callback: (tx: DBTransaction) => Promise<T>
+): Promise<T> {
+  const pool = new Pool({ connectionString: env.POSTGRES_CONNECTION_STRING });
+
+  try {
+    return await getPoolDb(pool).transaction(callback);
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,108 @@
+import { OTP_TTL_MS } from './otp.utils';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(title: string, body: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; padding: 20px;">
+      <h2>${escapeHtml(title)}</h2>
+      ${body}
+    </div>
+  `;
+}
+
+export function renderOtpEmail(data: { otp: number }): RenderedEmail {
+  const minutes = Math.round(OTP_TTL_MS / 60000);
+
+  return {
+    subject: 'Your OTP Code',
+    html: layout(
+      'Your OTP Code',
+      `
+      <p>Your one-time password is:</p>
+      <h1 style="color: #4CAF50; font-size: 32px; letter-spacing: 5px;">${data.otp}</h1>
+      <p>This code will expire in ${minutes} minutes.</p>
+      <p>If you didn't request this code, please ignore this email.</p>
+      `
+    ),
+    text: `Your one-time password is ${data.otp}. This code will expire in ${minutes} minutes.`,
+  };
+}
+
+export function renderEmailChangeEmail(data: { otp: number }): RenderedEmail {
+  const minutes = Math.round(OTP_TTL_MS / 60000);
+
+  return {
+    subject: 'Confirm your new email address',
+    html: layout(
+      'Confirm your new email address',
+      `
+      <p>Enter this code to start using this address for your account:</p>
+      <h1 style="color: #4CAF50; font-size: 32px; letter-spacing: 5px;">${data.otp}</h1>
+      <p>This code will expire in ${minutes} minutes.</p>
+      <p>If you didn't ask to change your email, please ignore this email.</p>
+      `
+    ),
+    text: `Enter ${data.otp} to confirm your new email address. This code will expire in ${minutes} minutes.`,
+  };
+}
+
+export function renderOrderConfirmationEmail(data: {
+  orderNumber: string;
+  total: string;
+  itemCount: number;
+}): RenderedEmail {
+  const orderNumber = escapeHtml(data.orderNumber);
+
+  return {
+    subject: `Order ${data.orderNumber} received`,
+    html: layout(
+      'Thanks for your order',
+      `
+      <p>We have received your order <strong>${orderNumber}</strong>.</p>
+      <p>Items: ${data.itemCount}</p>
+      <p>Total: ${escapeHtml(data.total)}</p>
+      <p>We will let you know when it ships.</p>
+      `
+    ),
+    text: `We have received your order ${data.orderNumber} (${data.itemCount} items, total ${data.total}).`,
+  };
+}
+
+const VENDOR_STATUS_MESSAGES: Record<string, string> = {
+  pending: 'Your vendor application is under review.',
+  approved: 'Your vendor account has been approved. You can start listing products now.',
+  suspended: 'Your vendor account has been suspended. Please contact support for details.',
+};
+
+export function renderVendorStatusEmail(data: {
+  businessName: string;
+  status: string;
+}): RenderedEmail {
+  const message = VENDOR_STATUS_MESSAGES[data.status] ?? `Your vendor status is now ${data.status}.`;
+
+  return {
+    subject: `Vendor account update: ${data.businessName}`,
+    html: layout(
+      'Vendor account update',
+      `
+      <p>Hello ${escapeHtml(data.businessName)},</p>
+      <p>${escapeHtml(message)}</p>
+      `
+    ),
+    text: `Hello ${data.businessName}, ${message}`,
+  };
+}
@@ -0,0 +1,12 @@
+import type { Env } from '../context';
+
+const DEV_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Local stand-ins (the fake payment provider, the email outbox, the dev routes) are only
+ * allowed where ENVIRONMENT explicitly names a dev or test deployment. Anything else,
+ * including an unset ENVIRONMENT, is treated as production.
+ */
+export function isDevEnvironment(env: Pick<Env, 'ENVIRONMENT'>): boolean {
+  return DEV_ENVIRONMENTS.includes(env.ENVIRONMENT);
+}
@@ -0,0 +1,323 @@
+/**
+ * Money is held as an integer count of the currency's minor unit (cents for USD) so that
+ * sums never drift. Scaling by rates and percentages is done with exact integer arithmetic
+ * and rounded once, with an explicit rounding mode.
+ */
+
+export type RoundingMode = 'half_up' | 'half_even' | 'floor' | 'ceil';
+
+export interface Money {
+  readonly minor: number;
+  readonly currency: string;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// ISO 4217 minor unit exponents for currencies that do not use two decimals
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  XAF: 0,
+  XOF: 0,
+  BHD: 3,
+  JOD: 3,
+  KWD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+function parseDecimal(value: string | number): Decimal {
+  // Numbers go through their shortest round-trip form; exponent notation is expanded first
+  const text =
+    typeof value === 'number'
+      ? Number.isFinite(value)
+        ? value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+        : ''
+      : value.trim();
+
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal value: ${String(value)}`);
+  }
+
+  const [, sign, whole = '', fraction = ''] = match;
+  const units = BigInt(`${whole || '0'}${fraction}`);
+
+  return { units: sign === '-' ? -units : units, scale: fraction.length };
+}
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function formatDecimal(decimal: Decimal): string {
+  const negative = decimal.units < 0n;
+  const digits = (negative ? -decimal.units : decimal.units).toString().padStart(decimal.scale + 1, '0');
+  const whole = digits.slice(0, digits.length - decimal.scale);
+  const fraction = decimal.scale > 0 ? `.${digits.slice(digits.length - decimal.scale)}` : '';
+
+  return `${negative ? '-' : ''}${whole}${fraction}`;
+}
+
+// Exact sum of two decimal values such as rates, e.g. addDecimals(1, "0.0825") === "1.0825"
+export function addDecimals(a: string | number, b: string | number): string {
+  const left = parseDecimal(a);
+  const right = parseDecimal(b);
+  const scale = Math.max(left.scale, right.scale);
+
+  return formatDecimal({
+    units: left.units * pow10(scale - left.scale) + right.units * pow10(scale - right.scale),
+    scale,
+  });
+}
+
+export function isPositiveDecimal(value: string | number): boolean {
+  return parseDecimal(value).units > 0n;
+}
+
+// 1 / rate with `scale` decimals, for storing the reverse direction of an exchange rate
+export function invertRate(rate: string | number, scale: number = 8, mode: RoundingMode = 'half_up'): string {
+  const decimal = parseDecimal(rate);
+  if (decimal.units <= 0n) {
+    throw new Error(`Exchange rate must be positive, got ${String(rate)}`);
+  }
+
+  return formatDecimal({
+    units: divideRounded(pow10(scale + decimal.scale), decimal.units, mode),
+    scale,
+  });
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator === 0n) {
+    throw new Error('Division by zero');
+  }
+
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const sign = numerator < 0n ? -1n : 1n;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+
+  switch (mode) {
+    case 'floor':
+      return sign < 0n ? quotient - 1n : quotient;
+    case 'ceil':
+      return sign > 0n ? quotient + 1n : quotient;
+    case 'half_even':
+      if (twiceRemainder > denominator || (twiceRemainder === denominator && quotient % 2n !== 0n)) {
+        return quotient + sign;
+      }
+      return quotient;
+    case 'half_up':
+    default:
+      return twiceRemainder >= denominator ? quotient + sign : quotient;
+  }
+}
+
+function toSafeNumber(value: bigint): number {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+    throw new Error('Amount is out of range');
+  }
+  return Number(value);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
+
+export function money(minor: number, currency: string = DEFAULT_CURRENCY): Money {
+  if (!Number.isSafeInteger(minor)) {
+    throw new Error(`Minor units must be an integer, got ${minor}`);
+  }
+  return { minor, currency: currency.toUpperCase() };
+}
+
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+  return money(0, currency);
+}
+
+/**
+ * Reads a decimal amount such as a numeric column value. Extra decimals beyond the
+ * currency's minor unit are rounded with `mode`.
+ */
+export function parseMoney(
+  value: string | number | null | undefined,
+  currency: string = DEFAULT_CURRENCY,
+  mode: RoundingMode = 'half_up'
+): Money {
+  if (value === null || value === undefined || value === '') {
+    return zeroMoney(currency);
+  }
+
+  const decimal = parseDecimal(value);
+  const exponent = getCurrencyExponent(currency);
+  const minor =
+    decimal.scale <= exponent
+      ? decimal.units * pow10(exponent - decimal.scale)
+      : divideRounded(decimal.units, pow10(decimal.scale - exponent), mode);
+
+  return money(toSafeNumber(minor), currency);
+}
+
+// Decimal string with exactly the currency's number of decimals, as stored in numeric columns
+export function formatMoney(amount: Money): string {
+  return formatDecimal({ units: BigInt(amount.minor), scale: getCurrencyExponent(amount.currency) });
+}
+
+// For messages shown to people, e.g. "25.00 EUR"
+export function formatMoneyWithCurrency(amount: Money): string {
+  return `${formatMoney(amount)} ${amount.currency}`;
+}
+
+/**
+ * Converts into another currency at `rate` (units of `currency` per unit of the amount's
+ * currency), accounting for the two currencies' minor units and rounding once.
+ */
+export function convertMoney(
+  amount: Money,
+  currency: string,
+  rate: string | number,
+  mode: RoundingMode = 'half_up'
+): Money {
+  const target = currency.toUpperCase();
+  if (target === amount.currency) {
+    return amount;
+  }
+
+  const decimal = parseDecimal(rate);
+  const exponentShift = getCurrencyExponent(target) - getCurrencyExponent(amount.currency);
+  const numerator = BigInt(amount.minor) * decimal.units * pow10(Math.max(0, exponentShift));
+  const denominator = pow10(decimal.scale) * pow10(Math.max(0, -exponentShift));
+
+  return money(toSafeNumber(divideRounded(numerator, denominator, mode)), target);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.minor + b.minor, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.minor - b.minor, a.currency);
+}
+
+export function sumMoney(amounts: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return amounts.reduce((sum, amount) => addMoney(sum, amount), zeroMoney(currency));
+}
+
+/**
+ * Multiplies by an exact decimal factor, e.g. a quantity, a tax rate of "0.0825" or a fraction.
+ */
+export function multiplyMoney(amount: Money, factor: string | number, mode: RoundingMode = 'half_up'): Money {
+  const decimal = parseDecimal(factor);
+  return money(
+    toSafeNumber(divideRounded(BigInt(amount.minor) * decimal.units, pow10(decimal.scale), mode)),
+    amount.currency
+  );
+}
+
+/**
+ * Scales by `numerator / denominator`, rounding once. Used for percentages and for
+ * extracting tax from tax-inclusive prices.
+ */
+export function scaleMoney(
+  amount: Money,
+  numerator: string | number,
+  denominator: string | number,
+  mode: RoundingMode = 'half_up'
+): Money {
+  const top = parseDecimal(numerator);
+  const bottom = parseDecimal(denominator);
+  const scale = Math.max(top.scale, bottom.scale);
+  const topUnits = top.units * pow10(scale - top.scale);
+  const bottomUnits = bottom.units * pow10(scale - bottom.scale);
+
+  return money(toSafeNumber(divideRounded(BigInt(amount.minor) * topUnits, bottomUnits, mode)), amount.currency);
+}
+
+export function percentOfMoney(amount: Money, percent: string | number, mode: RoundingMode = 'half_up'): Money {
+  return scaleMoney(amount, percent, 100, mode);
+}
+
+/**
+ * Splits `total` across parts in proportion to `weights` so that the parts add up to
+ * `total` exactly. Leftover minor units go to the parts with the largest remainders.
+ */
+export function allocateMoney(total: Money, weights: Money[]): Money[] {
+  for (const weight of weights) {
+    assertSameCurrency(total, weight);
+  }
+
+  const weightTotal = weights.reduce((sum, weight) => sum + BigInt(weight.minor), 0n);
+  if (weights.length === 0) {
+    return [];
+  }
+  if (weightTotal <= 0n) {
+    return weights.map(() => zeroMoney(total.currency));
+  }
+
+  const totalMinor = BigInt(total.minor);
+  const shares = weights.map((weight, index) => {
+    const exact = totalMinor * BigInt(weight.minor);
+    return { index, minor: exact / weightTotal, remainder: exact % weightTotal };
+  });
+
+  let leftover = totalMinor - shares.reduce((sum, share) => sum + share.minor, 0n);
+  const step = leftover < 0n ? -1n : 1n;
+  const byRemainder = [...shares].sort((a, b) =>
+    a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+  );
+
+  for (const share of byRemainder) {
+    if (leftover === 0n) {
+      break;
+    }
+    share.minor += step;
+    leftover -= step;
+  }
+
+  return shares.map((share) => money(toSafeNumber(share.minor), total.currency));
+}
+
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return Math.sign(a.minor - b.minor);
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  return compareMoney(a, b) <= 0 ? a : b;
+}
+
+export function maxMoney(a: Money, b: Money): Money {
+  return compareMoney(a, b) >= 0 ? a : b;
+}
+
+export function isZeroMoney(amount: Money): boolean {
+  return amount.minor === 0;
+}
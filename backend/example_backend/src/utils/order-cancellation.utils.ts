@@ -0,0 +1,204 @@
+import { ORPCError } from '@orpc/server';
+import type { Env } from '../context';
+import { DB, runInTransaction } from './db.utils';
+import { addOrderCancelledAmount, getOrderById } from '../repositories/order.repository';
+import { releasePromoRedemptions } from '../repositories/promo.repository';
+import { createRefund } from '../repositories/payment.repository';
+import { listExpiredReservations } from '../repositories/reservation.repository';
+import {
+  OrderStatus,
+  OrderStatusActor,
+  SYSTEM_ACTOR,
+  canTransitionOrderStatus,
+  transitionOrderStatus,
+  transitionVendorOrderStatus,
+} from './order-status.utils';
+import { issueRefund, settleRefundedOrder } from './payment.utils';
+import { getOrderItemTotal } from './order.utils';
+import { convertOrderReservations, releaseReservation, restockOrderItem } from './reservation.utils';
+import { addMoney, formatMoney, isZeroMoney, parseMoney, subtractMoney, zeroMoney } from './money.utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How long after placing an order a buyer may still cancel a vendor's part of it, by the
+ * status that part is in. null means no limit; statuses that are not listed cannot be
+ * cancelled by the buyer. Admins and vendors are only bound by the state machine.
+ */
+export const CANCELLATION_WINDOWS: Partial<Record<OrderStatus, number | null>> = {
+  pending: null,
+  confirmed: 24 * HOUR_MS,
+};
+
+export function isWithinCancellationWindow(status: string, placedAt: Date, now: Date = new Date()): boolean {
+  const window = CANCELLATION_WINDOWS[status as OrderStatus];
+  if (window === undefined) {
+    return false;
+  }
+  return window === null || now.getTime() - new Date(placedAt).getTime() <= window;
+}
+
+export interface CancelOrderOptions {
+  actor: OrderStatusActor;
+  // Vendor parts to cancel; every part that is still open when omitted
+  vendorIds?: string[];
+  reason?: string;
+  // Hold the caller to CANCELLATION_WINDOWS, for buyers
+  enforceWindows?: boolean;
+}
+
+/**
+ * Cancels an order, or some vendors' parts of it: moves the parts and their items to
+ * cancelled, releases or restocks the items' units and records the amount no longer owed. Cancelling
+ * the last open part cancels the order and releases its promo redemptions. Paid orders are
+ * refunded for the cancelled amount once the cancellation is committed.
+ */
+export async function cancelOrder(env: Env, db: DB, orderId: string, options: CancelOrderOptions) {
+  const { actor, reason } = options;
+
+  const order = await getOrderById(db, orderId);
+  if (!order) {
+    throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+  }
+
+  const openParts = order.vendorTracking.filter((tracking) => tracking.status !== 'cancelled');
+  let parts = openParts;
+
+  if (options.vendorIds) {
+    const vendorIds = options.vendorIds;
+    const unknownVendorIds = vendorIds.filter(
+      (vendorId) => !order.vendorTracking.some((tracking) => tracking.vendorId === vendorId)
+    );
+    if (unknownVendorIds.length > 0) {
+      throw new ORPCError('NOT_FOUND', {
+        message: 'Vendor order not found',
+        data: { vendorIds: unknownVendorIds },
+      });
+    }
+    parts = order.vendorTracking.filter((tracking) => vendorIds.includes(tracking.vendorId));
+  }
+
+  const cancelsWholeOrder = openParts.every((tracking) => parts.includes(tracking));
+  const cancelsOrder = cancelsWholeOrder && canTransitionOrderStatus('order', order.status, 'cancelled');
+
+  if (parts.length === 0 && !cancelsOrder) {
+    throw new ORPCError('CONFLICT', { message: 'Order has nothing left to cancel' });
+  }
+
+  if (options.enforceWindows) {
+    const closedVendorIds = parts
+      .filter((tracking) => !isWithinCancellationWindow(tracking.status, order.createdAt))
+      .map((tracking) => tracking.vendorId);
+
+    if (closedVendorIds.length > 0) {
+      throw new ORPCError('CONFLICT', {
+        message: 'This order can no longer be cancelled',
+        data: { vendorIds: closedVendorIds },
+      });
+    }
+  }
+
+  const { cancelledAmount, refund } = await runInTransaction(env, async (tx) => {
+    let cancelledAmount = zeroMoney(order.currency);
+
+    for (const part of parts) {
+      const { items } = await transitionVendorOrderStatus(tx, part, 'cancelled', { actor, reason });
+
+      for (const item of items) {
+        await restockOrderItem(tx, item);
+        cancelledAmount = addMoney(cancelledAmount, getOrderItemTotal(item, order.currency));
+      }
+      cancelledAmount = addMoney(cancelledAmount, parseMoney(part.shippingCost, order.currency));
+    }
+
+    if (cancelsWholeOrder) {
+      // Whatever is still owed, so the order's amounts reconcile to the cent
+      cancelledAmount = subtractMoney(
+        parseMoney(order.total, order.currency),
+        parseMoney(order.cancelledAmount, order.currency)
+      );
+
+      if (cancelsOrder) {
+        await transitionOrderStatus(tx, order, 'cancelled', { actor, reason });
+        await releasePromoRedemptions(tx, order.id);
+      }
+    }
+
+    await addOrderCancelledAmount(tx, order.id, formatMoney(cancelledAmount));
+
+    const refund =
+      order.paymentStatus === 'completed' && order.paymentIntentId && !isZeroMoney(cancelledAmount)
+        ? await createRefund(tx, {
+            orderId: order.id,
+            vendorId: parts.length === 1 ? parts[0]!.vendorId : null,
+            amount: formatMoney(cancelledAmount),
+            currency: order.currency,
+            reason: reason ?? 'Order cancelled',
+          })
+        : null;
+
+    return { cancelledAmount, refund };
+  });
+
+  const issuedRefund = refund ? await issueRefund(env, db, refund, order.paymentIntentId!) : null;
+
+  if (issuedRefund?.status === 'succeeded') {
+    await settleRefundedOrder(env, db, order);
+  }
+
+  return {
+    orderId: order.id,
+    status: cancelsOrder ? 'cancelled' : order.status,
+    cancelledVendorIds: parts.map((tracking) => tracking.vendorId),
+    cancelledAmount: formatMoney(cancelledAmount),
+    currency: order.currency,
+    refund: issuedRefund,
+  };
+}
+
+/**
+ * Cancels unpaid orders whose stock reservations have expired, handing the stock back.
+ * Meant to run on a schedule, like cleanupExpiredCarts. Orders that turn out to be paid
+ * only had their conversion missed and are converted instead.
+ */
+export async function releaseExpiredReservations(env: Env, db: DB, now: Date = new Date()) {
+  const expired = await listExpiredReservations(db, now);
+  const orderIds = Array.from(new Set(expired.map((reservation) => reservation.orderId)));
+  let cancelledOrders = 0;
+  const errors: unknown[] = [];
+
+  for (const orderId of orderIds) {
+    try {
+      const order = await getOrderById(db, orderId);
+
+      if (order?.paymentStatus === 'completed') {
+        await runInTransaction(env, (tx) => convertOrderReservations(tx, orderId));
+        continue;
+      }
+
+      if (order && canTransitionOrderStatus('order', order.status, 'cancelled')) {
+        await cancelOrder(env, db, orderId, {
+          actor: SYSTEM_ACTOR,
+          reason: 'Payment not completed in time',
+        });
+        cancelledOrders++;
+      }
+
+      // Whatever the cancellation did not free, e.g. items of parts that are past cancelling
+      await runInTransaction(env, async (tx) => {
+        for (const reservation of expired.filter((reservation) => reservation.orderId === orderId)) {
+          await releaseReservation(tx, reservation);
+        }
+      });
+    } catch (error) {
+      // One stuck order must not hold back the others
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `Failed to release reservations of ${errors.length} orders`);
+  }
+
+  return { orders: orderIds.length, cancelledOrders };
+}
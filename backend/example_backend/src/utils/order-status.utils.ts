@@ -0,0 +1,194 @@
+import { ORPCError } from '@orpc/server';
+import type { DBExecutor } from './db.utils';
+import {
+  orderStatusEnum,
+  orderStatusEntityEnum,
+  orderStatusActorRoleEnum,
+} from '../schemas/order.schema';
+import {
+  createOrderStatusHistory,
+  getOrderItems,
+  updateOrderItemStatus,
+  updateOrderStatus,
+  updateVendorOrderStatus,
+} from '../repositories/order.repository';
+
+export type OrderStatus = (typeof orderStatusEnum)[number];
+export type OrderStatusEntity = (typeof orderStatusEntityEnum)[number];
+export type OrderStatusActorRole = (typeof orderStatusActorRoleEnum)[number];
+
+export interface OrderStatusActor {
+  // Null for changes made by the system, e.g. payment webhooks
+  id: string | null;
+  role: OrderStatusActorRole;
+}
+
+export const SYSTEM_ACTOR: OrderStatusActor = { id: null, role: 'system' };
+
+// Statuses only move forward; delivered and cancelled are final
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// A vendor may ship straight from confirmed by adding a tracking number
+const VENDOR_ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'shipped', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_MACHINES: Record<OrderStatusEntity, Record<OrderStatus, OrderStatus[]>> = {
+  order: ORDER_STATUS_TRANSITIONS,
+  vendor_order: VENDOR_ORDER_STATUS_TRANSITIONS,
+  order_item: VENDOR_ORDER_STATUS_TRANSITIONS,
+};
+
+// `data` of the CONFLICT error thrown for illegal transitions
+export interface InvalidStatusTransitionData {
+  entityType: OrderStatusEntity;
+  entityId: string;
+  from: string;
+  to: OrderStatus;
+  allowed: OrderStatus[];
+}
+
+export function getAllowedStatusTransitions(entityType: OrderStatusEntity, from: string): OrderStatus[] {
+  return ORDER_STATUS_MACHINES[entityType][from as OrderStatus] ?? [];
+}
+
+export function canTransitionOrderStatus(entityType: OrderStatusEntity, from: string, to: OrderStatus): boolean {
+  return getAllowedStatusTransitions(entityType, from).includes(to);
+}
+
+export function assertStatusTransition(
+  entityType: OrderStatusEntity,
+  entityId: string,
+  from: string,
+  to: OrderStatus
+): void {
+  if (canTransitionOrderStatus(entityType, from, to)) {
+    return;
+  }
+
+  const allowed = getAllowedStatusTransitions(entityType, from);
+  throw new ORPCError<'CONFLICT', InvalidStatusTransitionData>('CONFLICT', {
+    message: `Cannot change ${entityType.replace('_', ' ')} status from ${from} to ${to}`,
+    data: { entityType, entityId, from, to, allowed },
+  });
+}
+
+// Another request changed the status between our read and our write
+function concurrentStatusChange(entityType: OrderStatusEntity): ORPCError<'CONFLICT', undefined> {
+  return new ORPCError('CONFLICT', {
+    message: `The ${entityType.replace('_', ' ')} status was changed by another request, please retry`,
+  });
+}
+
+export interface StatusChangeOptions {
+  actor: OrderStatusActor;
+  reason?: string;
+}
+
+/**
+ * Moves an order to `to` if its state machine allows it and records the change.
+ */
+export async function transitionOrderStatus(
+  db: DBExecutor,
+  order: { id: string; status: string },
+  to: OrderStatus,
+  { actor, reason }: StatusChangeOptions
+) {
+  assertStatusTransition('order', order.id, order.status, to);
+
+  const updated = await updateOrderStatus(db, order.id, to, order.status);
+  if (!updated) {
+    throw concurrentStatusChange('order');
+  }
+
+  await createOrderStatusHistory(db, {
+    orderId: order.id,
+    entityType: 'order',
+    entityId: order.id,
+    fromStatus: order.status,
+    toStatus: to,
+    actorId: actor.id,
+    actorRole: actor.role,
+    reason,
+  });
+
+  return updated;
+}
+
+/**
+ * Moves one vendor's part of an order to `to` and brings along that vendor's items
+ * that can make the same move. Items that cannot (e.g. already cancelled) are left alone.
+ * Returns the updated tracking row and the items that moved, as they were before the move.
+ */
+export async function transitionVendorOrderStatus(
+  db: DBExecutor,
+  tracking: { id: string; orderId: string; vendorId: string; status: string },
+  to: OrderStatus,
+  { actor, reason, trackingNumber }: StatusChangeOptions & { trackingNumber?: string }
+) {
+  assertStatusTransition('vendor_order', tracking.id, tracking.status, to);
+
+  const updated = await updateVendorOrderStatus(
+    db,
+    tracking.orderId,
+    tracking.vendorId,
+    to,
+    tracking.status,
+    trackingNumber
+  );
+  if (!updated) {
+    throw concurrentStatusChange('vendor_order');
+  }
+
+  await createOrderStatusHistory(db, {
+    orderId: tracking.orderId,
+    entityType: 'vendor_order',
+    entityId: tracking.id,
+    vendorId: tracking.vendorId,
+    fromStatus: tracking.status,
+    toStatus: to,
+    actorId: actor.id,
+    actorRole: actor.role,
+    reason,
+  });
+
+  const items = await getOrderItems(db, tracking.orderId, tracking.vendorId);
+  const transitionedItems: typeof items = [];
+  for (const item of items) {
+    if (!canTransitionOrderStatus('order_item', item.status, to)) {
+      continue;
+    }
+
+    const updatedItem = await updateOrderItemStatus(db, item.id, to, item.status);
+    if (!updatedItem) {
+      continue;
+    }
+    transitionedItems.push(item);
+
+    await createOrderStatusHistory(db, {
+      orderId: tracking.orderId,
+      entityType: 'order_item',
+      entityId: item.id,
+      vendorId: tracking.vendorId,
+      fromStatus: item.status,
+      toStatus: to,
+      actorId: actor.id,
+      actorRole: actor.role,
+      reason,
+    });
+  }
+
+  return { tracking: updated, items: transitionedItems };
+}
@@ -1,74 +1,172 @@
-import { SelectPromoCode } from '../schemas/promo.schema';
-import { SelectCartItem } from '../schemas/cart.schema';
 import { SelectOrderItem } from '../schemas/order.schema';
+import { applyPromotions, getLineSubtotal, PromoCode, PromotionLine, RejectedPromotion } from './promo.utils';
+import type { VendorShipment } from './shipping.utils';
+import { calculateLineTax, LineTaxRate, NO_TAX } from './tax.utils';
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  addMoney,
+  formatMoney,
+  minMoney,
+  parseMoney,
+  subtractMoney,
+  sumMoney,
+  zeroMoney,
+} from './money.utils';
+import { convertPrice } from './currency.utils';
+
+export interface OrderLineTotal {
+  lineId: string;
+  productId: string;
+  variantId: string;
+  vendorId: string;
+  quantity: number;
+  unitPrice: string;
+  subtotal: string;
+  discountAmount: string;
+  taxName: string | null;
+  taxRate: string;
+  taxAmount: string;
+  priceIncludesTax: boolean;
+  total: string;
+}
+
+export interface OrderDiscount {
+  promoCodeId: string;
+  code: string;
+  discountType: string;
+  amount: string;
+  freeShipping: boolean;
+}
+
+export interface OrderShipment {
+  vendorId: string;
+  zoneId: string | null;
+  subtotal: string;
+  shippingCost: string;
+}
 
 export interface OrderTotals {
+  currency: string;
   subtotal: string;
   discountAmount: string;
   shippingCost: string;
   taxAmount: string;
   total: string;
+  lines: OrderLineTotal[];
+  discounts: OrderDiscount[];
+  shipments: OrderShipment[];
+  rejectedPromoCodes: RejectedPromotion[];
+}
+
+export interface CartLineSource {
+  item: { id: string; productId: string; variantId: string; quantity: number };
+  product: {
+    vendorId: string;
+    categoryId: string | null;
+    currency?: string;
+    taxClass?: string;
+    priceIncludesTax?: boolean;
+  };
+  variant: { price: string; weight?: string | null };
 }
 
-export interface CartItemWithPrice extends SelectCartItem {
-  price: string;
+/**
+ * Cart lines are priced at the variant's current price, the same price the order items are created with,
+ * converted from the product's currency with `rates` (see getExchangeRates).
+ */
+export function toOrderLines(
+  items: CartLineSource[],
+  currency: string = DEFAULT_CURRENCY,
+  rates: Map<string, string> = new Map()
+): PromotionLine[] {
+  return items.map(({ item, product, variant }) => ({
+    id: item.id,
+    productId: item.productId,
+    variantId: item.variantId,
+    vendorId: product.vendorId,
+    categoryId: product.categoryId,
+    quantity: item.quantity,
+    unitPrice: convertPrice(variant.price, product.currency ?? DEFAULT_CURRENCY, currency, rates),
+  }));
 }
 
+/**
+ * Single source of truth for order pricing: line totals, promotions, shipping and tax.
+ * Promo codes that do not apply are reported in `rejectedPromoCodes` instead of throwing.
+ */
 export function calculateOrderTotals(
-  cartItems: CartItemWithPrice[],
-  promoCode: SelectPromoCode | null,
-  shippingCost: number = 0,
-  taxRate: number = 0
+  lines: PromotionLine[],
+  promoCodes: PromoCode[] = [],
+  shipments: VendorShipment[] = [],
+  lineTaxes: Map<string, LineTaxRate> = new Map()
 ): OrderTotals {
-  const subtotal = cartItems.reduce((sum, item) => {
-    const itemPrice = parseFloat(item.priceAtAdd);
-    return sum + itemPrice * item.quantity;
-  }, 0);
-
-  let discountAmount = 0;
-
-  if (promoCode && promoCode.isActive) {
-    const now = new Date();
-    const validFrom = new Date(promoCode.validFrom);
-    const validUntil = new Date(promoCode.validUntil);
-
-    if (now >= validFrom && now <= validUntil) {
-      if (promoCode.minOrderValue) {
-        const minOrderValue = parseFloat(promoCode.minOrderValue);
-        if (subtotal < minOrderValue) {
-          promoCode = null;
-        }
-      }
-
-      if (promoCode) {
-        const discountValue = parseFloat(promoCode.discountValue);
-
-        if (promoCode.discountType === 'percentage') {
-          discountAmount = (subtotal * discountValue) / 100;
-        } else if (promoCode.discountType === 'fixed') {
-          discountAmount = discountValue;
-        }
-
-        if (promoCode.maxDiscountAmount) {
-          const maxDiscount = parseFloat(promoCode.maxDiscountAmount);
-          discountAmount = Math.min(discountAmount, maxDiscount);
-        }
-
-        discountAmount = Math.min(discountAmount, subtotal);
-      }
-    }
-  }
-
-  const subtotalAfterDiscount = subtotal - discountAmount;
-  const taxAmount = subtotalAfterDiscount * taxRate;
-  const total = subtotalAfterDiscount + shippingCost + taxAmount;
+  const currency = lines[0]?.unitPrice.currency ?? DEFAULT_CURRENCY;
+  const subtotal = sumMoney(lines.map(getLineSubtotal), currency);
+  const promotions = applyPromotions(lines, promoCodes);
+
+  const discountAmount = minMoney(promotions.discountAmount, subtotal);
+  const effectiveShipments = shipments.map((shipment) => ({
+    ...shipment,
+    shippingCost: promotions.freeShippingVendorIds.has(shipment.vendorId)
+      ? zeroMoney(currency)
+      : shipment.shippingCost,
+  }));
+  const effectiveShippingCost = sumMoney(
+    effectiveShipments.map((shipment) => shipment.shippingCost),
+    currency
+  );
+
+  // Tax is charged on what is left of each line after its discount
+  const lineTotals = lines.map((line) => {
+    const lineSubtotal = getLineSubtotal(line);
+    const lineDiscount = promotions.lineDiscounts.get(line.id) ?? zeroMoney(currency);
+    const tax = lineTaxes.get(line.id) ?? NO_TAX;
+    const lineTax = calculateLineTax(subtractMoney(lineSubtotal, lineDiscount), tax);
+    // Tax already contained in tax-inclusive prices is reported but not added again
+    const addedTax = tax.priceIncludesTax ? zeroMoney(currency) : lineTax;
+    const lineTotal = addMoney(subtractMoney(lineSubtotal, lineDiscount), addedTax);
+
+    return { line, lineSubtotal, lineDiscount, tax, lineTax, addedTax, lineTotal };
+  });
+
+  const taxAmount = sumMoney(lineTotals.map(({ lineTax }) => lineTax), currency);
+  const addedTax = sumMoney(lineTotals.map(({ addedTax }) => addedTax), currency);
+  const total = addMoney(addMoney(subtractMoney(subtotal, discountAmount), effectiveShippingCost), addedTax);
 
   return {
-    subtotal: subtotal.toFixed(2),
-    discountAmount: discountAmount.toFixed(2),
-    shippingCost: shippingCost.toFixed(2),
-    taxAmount: taxAmount.toFixed(2),
-    total: total.toFixed(2),
+    currency,
+    subtotal: formatMoney(subtotal),
+    discountAmount: formatMoney(discountAmount),
+    shippingCost: formatMoney(effectiveShippingCost),
+    taxAmount: formatMoney(taxAmount),
+    total: formatMoney(total),
+    lines: lineTotals.map(({ line, lineSubtotal, lineDiscount, tax, lineTax, lineTotal }) => ({
+      lineId: line.id,
+      productId: line.productId,
+      variantId: line.variantId,
+      vendorId: line.vendorId,
+      quantity: line.quantity,
+      unitPrice: formatMoney(line.unitPrice),
+      subtotal: formatMoney(lineSubtotal),
+      discountAmount: formatMoney(lineDiscount),
+      taxName: tax.name,
+      taxRate: tax.rate,
+      taxAmount: formatMoney(lineTax),
+      priceIncludesTax: tax.priceIncludesTax,
+      total: formatMoney(lineTotal),
+    })),
+    discounts: promotions.applied.map((promotion) => ({
+      ...promotion,
+      amount: formatMoney(promotion.amount),
+    })),
+    shipments: effectiveShipments.map((shipment) => ({
+      vendorId: shipment.vendorId,
+      zoneId: shipment.zoneId,
+      subtotal: formatMoney(shipment.subtotal),
+      shippingCost: formatMoney(shipment.shippingCost),
+    })),
+    rejectedPromoCodes: promotions.rejected,
   };
 }
 
@@ -78,13 +176,28 @@ export function generateOrderNumber(): string {
   return `ORD-${timestamp}-${random}`;
 }
 
+/**
+ * What the buyer paid for an order item: its subtotal less its discount, plus its tax unless
+ * the price already included it. Matches `total` of the OrderLineTotal it was created from.
+ */
+export function getOrderItemTotal(
+  item: Pick<SelectOrderItem, 'totalPrice' | 'discountAmount' | 'taxAmount' | 'priceIncludesTax'>,
+  currency: string = DEFAULT_CURRENCY
+): Money {
+  const net = subtractMoney(parseMoney(item.totalPrice, currency), parseMoney(item.discountAmount, currency));
+  return item.priceIncludesTax ? net : addMoney(net, parseMoney(item.taxAmount, currency));
+}
+
 export interface VendorOrderGroup {
   vendorId: string;
   items: SelectOrderItem[];
-  subtotal: number;
+  subtotal: Money;
 }
 
-export function groupOrderItemsByVendor(orderItems: SelectOrderItem[]): VendorOrderGroup[] {
+export function groupOrderItemsByVendor(
+  orderItems: SelectOrderItem[],
+  currency: string = DEFAULT_CURRENCY
+): VendorOrderGroup[] {
   const vendorGroups = new Map<string, VendorOrderGroup>();
 
   for (const item of orderItems) {
@@ -94,13 +207,13 @@ export function groupOrderItemsByVendor(orderItems: SelectOrderItem[]): VendorOr
       vendorGroups.set(vendorId, {
         vendorId,
         items: [],
-        subtotal: 0,
+        subtotal: zeroMoney(currency),
       });
     }
 
     const group = vendorGroups.get(vendorId)!;
     group.items.push(item);
-    group.subtotal += parseFloat(item.totalPrice);
+    group.subtotal = addMoney(group.subtotal, parseMoney(item.totalPrice, currency));
   }
 
   return Array.from(vendorGroups.values());
@@ -1,6 +1,136 @@
+import { ORPCError } from '@orpc/server';
+import type { DB } from './db.utils';
+import {
+  consumeOtpAttempt,
+  deleteOtpLockouts,
+  findOtpByDeviceAndEmail,
+  findOtpLockouts,
+  incrementOtpFailures,
+  lockOtpKey,
+} from '../repositories/otp.repository';
+
+export const OTP_LENGTH = 5;
+export const OTP_TTL_MS = 5 * 60 * 1000;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_DEVICE_RESEND_COOLDOWN_MS = 60 * 1000;
+export const OTP_EMAIL_RESEND_COOLDOWN_MS = 30 * 1000;
+// Failures are also counted per email+device pair and per device across codes, since requesting
+// a new code resets the per-code counter. This many within the window locks both out. The email
+// alone is not a key: anyone who knows an address could then lock its owner out.
+export const OTP_LOCKOUT_THRESHOLD = 10;
+export const OTP_LOCKOUT_WINDOW_MS = 60 * 60 * 1000;
+export const OTP_LOCKOUT_MS = 60 * 60 * 1000;
+
 export function generateOtp(length: number): string {
   const min = Math.pow(10, length - 1);
-  const max = Math.pow(10, length) - 1;
-  return Math.floor(Math.random() * (max - min + 1) + min).toString();
+  const range = Math.pow(10, length) - min;
+  // Largest multiple of `range` that fits in a uint32, so every code is equally likely
+  const limit = Math.floor(0x100000000 / range) * range;
+  const buffer = new Uint32Array(1);
+
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return (min + (buffer[0] % range)).toString();
+}
+
+/**
+ * Seconds until another OTP may be sent, or 0 when a resend is allowed.
+ */
+export function getOtpRetryAfter(lastSentAt: Date | null | undefined, cooldownMs: number): number {
+  if (!lastSentAt) {
+    return 0;
+  }
+
+  const remainingMs = lastSentAt.getTime() + cooldownMs - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
 }
 
+function getOtpLockoutKeys(email: string, deviceId: string): string[] {
+  return [`email:${email}:device:${deviceId}`, `device:${deviceId}`];
+}
+
+/**
+ * Seconds until the email may verify or request codes again from this device, or 0 when not locked.
+ */
+export async function getOtpLockoutRetryAfter(
+  db: DB,
+  email: string,
+  deviceId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const lockouts = await findOtpLockouts(db, getOtpLockoutKeys(email, deviceId));
+  const lockedUntil = Math.max(0, ...lockouts.map((lockout) => lockout.lockedUntil?.getTime() ?? 0));
+
+  return lockedUntil > now.getTime() ? Math.ceil((lockedUntil - now.getTime()) / 1000) : 0;
+}
+
+export async function assertOtpNotLocked(db: DB, email: string, deviceId: string, now: Date = new Date()) {
+  const retryAfter = await getOtpLockoutRetryAfter(db, email, deviceId, now);
+  if (retryAfter > 0) {
+    throw new ORPCError('TOO_MANY_REQUESTS', {
+      message: 'Too many failed attempts, try again later',
+      data: { retryAfter },
+    });
+  }
+}
+
+async function recordOtpFailure(db: DB, email: string, deviceId: string, now: Date) {
+  const windowStart = new Date(now.getTime() - OTP_LOCKOUT_WINDOW_MS);
+
+  for (const key of getOtpLockoutKeys(email, deviceId)) {
+    const lockout = await incrementOtpFailures(db, key, windowStart, now);
+    if (lockout.failures >= OTP_LOCKOUT_THRESHOLD) {
+      await lockOtpKey(db, key, new Date(now.getTime() + OTP_LOCKOUT_MS));
+    }
+  }
+}
+
+/**
+ * Checks a submitted code against the device's current OTP. Every wrong guess uses up one of the
+ * code's attempts and counts towards the email+device and device lockout; a correct one clears the lockout
+ * counters. Throws the error to send back when the code is not accepted.
+ */
+export async function verifyOtpCode(
+  db: DB,
+  params: { email: string; deviceId: string; otp: number },
+  now: Date = new Date()
+) {
+  await assertOtpNotLocked(db, params.email, params.deviceId, now);
+
+  const otp = await findOtpByDeviceAndEmail(db, params.deviceId, params.email);
+
+  if (!otp) {
+    throw new ORPCError('NOT_FOUND', {
+      message: 'OTP not found',
+    });
+  }
+
+  if (!otp.expiredAt || now > otp.expiredAt) {
+    throw new ORPCError('BAD_REQUEST', {
+      message: 'OTP expired',
+    });
+  }
+
+  // Count the attempt before comparing so parallel guesses cannot exceed the limit
+  const attempt = await consumeOtpAttempt(db, otp.id, OTP_MAX_ATTEMPTS);
+
+  if (!attempt) {
+    throw new ORPCError('TOO_MANY_REQUESTS', {
+      message: 'Too many failed attempts, request a new OTP',
+      data: { attemptsRemaining: 0 },
+    });
+  }
+
+  if (otp.otp !== params.otp) {
+    await recordOtpFailure(db, params.email, params.deviceId, now);
+    throw new ORPCError('BAD_REQUEST', {
+      message: 'Invalid OTP',
+      data: { attemptsRemaining: OTP_MAX_ATTEMPTS - attempt.attempts },
+    });
+  }
+
+  await deleteOtpLockouts(db, getOtpLockoutKeys(params.email, params.deviceId));
+  return otp;
+}
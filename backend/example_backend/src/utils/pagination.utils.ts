@@ -1,16 +1,35 @@
 import z from "zod/v3";
+import { ORPCError } from "@orpc/server";
+import { SQL, sql, asc, desc, type AnyColumn } from "drizzle-orm";
 
 export const paginationQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
-export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
+// For lists that also support keyset pagination
+export const cursorPaginationQuerySchema = paginationQuerySchema.extend({
+  // Opaque `nextCursor` from a previous response. When set, `page` is ignored and no total is counted.
+  cursor: z.string().optional(),
+});
+
+export type PaginationQuery = z.infer<typeof cursorPaginationQuerySchema>;
+
+export const paginationMetaSchema = z.object({
+  total: z.number().optional(),
+  page: z.number().optional(),
+  limit: z.number(),
+  totalPages: z.number().optional(),
+  hasNextPage: z.boolean(),
+  hasPreviousPage: z.boolean(),
+  nextCursor: z.string().nullable().optional(),
+});
 
 export interface PaginationParams {
   page: number;
   limit: number;
   offset: number;
+  cursor?: string;
 }
 
 export interface PaginationMeta {
@@ -20,11 +39,31 @@ export interface PaginationMeta {
   totalPages: number;
   hasNextPage: boolean;
   hasPreviousPage: boolean;
+  nextCursor?: string | null;
+}
+
+export interface CursorPaginationMeta {
+  limit: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  nextCursor: string | null;
 }
 
-export interface PaginatedResponse<T> {
+export interface PaginatedResponse<T, M = PaginationMeta> {
   data: T[];
-  meta: PaginationMeta;
+  meta: M;
+}
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Position of the last row of a page. `key` names the list and sort order the cursor
+ * was issued for, so a cursor cannot be replayed against a differently sorted query.
+ */
+export interface CursorPayload {
+  key: string;
+  value: string | number;
+  id: string;
 }
 
 export function getPaginationParams(query: PaginationQuery): PaginationParams {
@@ -32,16 +71,19 @@ export function getPaginationParams(query: PaginationQuery): PaginationParams {
   const limit = query.limit || 20;
   const offset = (page - 1) * limit;
 
-  return { page, limit, offset };
+  return { page, limit, offset, cursor: query.cursor || undefined };
 }
 
 export function formatPaginatedResponse<T>(
   data: T[],
   total: number,
   page: number,
-  limit: number
+  limit: number,
+  getCursor?: (row: T) => string
 ): PaginatedResponse<T> {
   const totalPages = Math.ceil(total / limit);
+  const hasNextPage = page < totalPages;
+  const lastRow = data[data.length - 1];
 
   return {
     data,
@@ -50,9 +92,89 @@ export function formatPaginatedResponse<T>(
       page,
       limit,
       totalPages,
-      hasNextPage: page < totalPages,
+      hasNextPage,
       hasPreviousPage: page > 1,
+      ...(getCursor ? { nextCursor: hasNextPage && lastRow ? getCursor(lastRow) : null } : {}),
     },
   };
 }
 
+/**
+ * Builds a cursor page from rows fetched with `limit + 1`; the extra row only signals a next page.
+ */
+export function formatCursorPaginatedResponse<T>(
+  rows: T[],
+  limit: number,
+  getCursor: (row: T) => string
+): PaginatedResponse<T, CursorPaginationMeta> {
+  const hasNextPage = rows.length > limit;
+  const data = hasNextPage ? rows.slice(0, limit) : rows;
+  const lastRow = data[data.length - 1];
+
+  return {
+    data,
+    meta: {
+      limit,
+      hasNextPage,
+      hasPreviousPage: true,
+      nextCursor: hasNextPage && lastRow ? getCursor(lastRow) : null,
+    },
+  };
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string, key: string): CursorPayload {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes)) as CursorPayload;
+
+    if (
+      payload?.key === key &&
+      typeof payload.id === "string" &&
+      (typeof payload.value === "string" || typeof payload.value === "number")
+    ) {
+      return payload;
+    }
+  } catch {
+    // fall through to the error below
+  }
+
+  throw new ORPCError("BAD_REQUEST", { message: "Invalid pagination cursor" });
+}
+
+/**
+ * Keyset condition for rows after `cursor` when ordering by `(sortExpression, idColumn)`.
+ * The id acts as a tiebreaker so rows sharing a sort value are neither skipped nor repeated.
+ */
+export function buildKeysetCondition(
+  sortExpression: SQL | AnyColumn,
+  idColumn: AnyColumn,
+  cursor: CursorPayload,
+  direction: SortDirection
+): SQL {
+  const operator = direction === "asc" ? sql`>` : sql`<`;
+  return sql`(${sortExpression}, ${idColumn}) ${operator} (${cursor.value}, ${cursor.id})`;
+}
+
+export function getKeysetOrderBy(
+  sortExpression: SQL | AnyColumn,
+  idColumn: AnyColumn,
+  direction: SortDirection
+): SQL[] {
+  const orderFn = direction === "asc" ? asc : desc;
+  return [orderFn(sortExpression), orderFn(idColumn)];
+}
+
+// Postgres keeps microseconds but JS dates only milliseconds, so timestamps are compared at millisecond precision
+export function timestampSortExpression(column: AnyColumn): SQL {
+  return sql`date_trunc('milliseconds', ${column})`;
+}
@@ -0,0 +1,269 @@
+import { DB, runInTransaction } from './db.utils';
+import type { Env } from '../context';
+import {
+  getPaymentProvider,
+  toMinorUnits,
+  type PaymentWebhookEvent,
+  type PaymentWebhookEventType,
+} from '../services/payment.service';
+import {
+  claimFailedRefund,
+  createRefund,
+  getSucceededRefundTotal,
+  listFailedRefunds,
+  updateRefund,
+} from '../repositories/payment.repository';
+import { markReturnRefunded } from '../repositories/return.repository';
+import {
+  getOrderById,
+  getOrderByPaymentIntentId,
+  updateOrderPaymentStatus,
+} from '../repositories/order.repository';
+import { SYSTEM_ACTOR, transitionOrderStatus } from './order-status.utils';
+import { convertOrderReservations } from './reservation.utils';
+import { formatMoney, money } from './money.utils';
+
+// A webhook delivery holding a claim longer than this is assumed dead and its event is reprocessed.
+// Applying an event only moves payment status forward, so running it twice is harmless.
+export const PAYMENT_EVENT_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+// The scheduled retry gives up on refunds that failed longer ago; those are left to an admin
+export const FAILED_REFUND_RETRY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+const EVENT_PAYMENT_STATUS: Record<Exclude<PaymentWebhookEventType, 'unknown'>, PaymentStatus> = {
+  'payment.succeeded': 'completed',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+};
+
+// Provider events can arrive out of order, so only forward transitions are applied
+const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['completed', 'failed'],
+  failed: ['completed'],
+  completed: ['refunded'],
+  refunded: [],
+};
+
+export function canTransitionPaymentStatus(from: string, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from as PaymentStatus]?.includes(to) ?? false;
+}
+
+/**
+ * What the buyer owes for an order in minor units: vendor parts cancelled before payment are not charged.
+ */
+export function getOrderAmountDue(order: { total: string; cancelledAmount: string; currency: string }): number {
+  return toMinorUnits(order.total, order.currency) - toMinorUnits(order.cancelledAmount, order.currency);
+}
+
+export async function applyPaymentWebhookEvent(
+  env: Env,
+  db: DB,
+  event: PaymentWebhookEvent
+): Promise<{ orderId: string | null; applied: boolean }> {
+  if (event.type === 'unknown') {
+    return { orderId: event.orderId, applied: false };
+  }
+
+  let order = event.paymentIntentId
+    ? await getOrderByPaymentIntentId(db, event.paymentIntentId)
+    : null;
+
+  if (!order && event.orderId) {
+    order = await getOrderById(db, event.orderId);
+  }
+
+  if (!order) {
+    return { orderId: null, applied: false };
+  }
+
+  const nextStatus = EVENT_PAYMENT_STATUS[event.type];
+
+  // An intent replaced after a partial cancellation is cancelled, which says nothing about the current one
+  const supersededIntent =
+    event.paymentIntentId !== null && order.paymentIntentId !== null && event.paymentIntentId !== order.paymentIntentId;
+  if (supersededIntent && nextStatus === 'failed') {
+    return { orderId: order.id, applied: false };
+  }
+
+  if (!canTransitionPaymentStatus(order.paymentStatus, nextStatus)) {
+    return { orderId: order.id, applied: false };
+  }
+
+  const paymentIntentId = event.paymentIntentId ?? order.paymentIntentId ?? undefined;
+
+  if (nextStatus !== 'completed') {
+    await updateOrderPaymentStatus(db, order.id, nextStatus, paymentIntentId);
+    return { orderId: order.id, applied: true };
+  }
+
+  // The order was cancelled, e.g. its reservation expired, before the payment came through
+  if (order.status === 'cancelled') {
+    if (paymentIntentId) {
+      const intent = await getPaymentProvider(env, db).retrieveIntent(paymentIntentId);
+      await refundCancelledOrderPayment(env, db, order, intent);
+    }
+    return { orderId: order.id, applied: true };
+  }
+
+  // Paid, stock converted and confirmed together, so a failure cannot leave a paid order pending
+  const paidOrder = order;
+  await runInTransaction(env, async (tx) => {
+    await updateOrderPaymentStatus(tx, paidOrder.id, 'completed', paymentIntentId);
+    await convertOrderReservations(tx, paidOrder.id);
+    if (paidOrder.status === 'pending') {
+      await transitionOrderStatus(tx, paidOrder, 'confirmed', {
+        actor: SYSTEM_ACTOR,
+        reason: `Payment webhook: ${event.type}`,
+      });
+    }
+  });
+
+  return { orderId: order.id, applied: true };
+}
+
+/**
+ * Sends a refund recorded with createRefund to the payment provider and stores the outcome.
+ * Provider errors mark the refund as failed rather than throwing, since the cancellation or
+ * return that caused it has already been committed.
+ */
+export async function issueRefund(
+  env: Env,
+  db: DB,
+  refund: { id: string; orderId: string; amount: string; currency: string },
+  paymentIntentId: string
+) {
+  try {
+    const providerRefund = await getPaymentProvider(env, db).createRefund({
+      paymentIntentId,
+      amount: toMinorUnits(refund.amount, refund.currency),
+      metadata: { orderId: refund.orderId, refundId: refund.id },
+      idempotencyKey: `refund-${refund.id}`,
+    });
+
+    return await updateRefund(db, refund.id, {
+      status: providerRefund.status,
+      providerRefundId: providerRefund.id,
+    });
+  } catch (error) {
+    // The refund row records the failure, and the caller gets it back with status 'failed'
+    return await updateRefund(db, refund.id, {
+      status: 'failed',
+      failureReason: error instanceof Error ? error.message : 'Refund failed',
+    });
+  }
+}
+
+/**
+ * Marks a paid order as refunded once its succeeded refunds add up to what the payment
+ * provider charged. Partial refunds leave the payment completed.
+ */
+export async function settleRefundedOrder(
+  env: Env,
+  db: DB,
+  order: { id: string; paymentStatus: string; paymentIntentId: string | null; currency: string }
+): Promise<boolean> {
+  if (!order.paymentIntentId || !canTransitionPaymentStatus(order.paymentStatus, 'refunded')) {
+    return false;
+  }
+
+  try {
+    const intent = await getPaymentProvider(env, db).retrieveIntent(order.paymentIntentId);
+    const refunded = toMinorUnits(await getSucceededRefundTotal(db, order.id), order.currency);
+
+    if (refunded < intent.amount) {
+      return false;
+    }
+  } catch {
+    // The refunds themselves are recorded; the status can catch up with the provider's webhook
+    return false;
+  }
+
+  await updateOrderPaymentStatus(db, order.id, 'refunded');
+  return true;
+}
+
+/**
+ * Records a payment that succeeded after its order was cancelled and refunds all of it. The
+ * order's stock was already released by the cancellation, so its reservations are not converted.
+ */
+export async function refundCancelledOrderPayment(
+  env: Env,
+  db: DB,
+  order: { id: string; paymentStatus: string; currency: string },
+  intent: { id: string; amount: number }
+) {
+  const refund = await runInTransaction(env, async (tx) => {
+    await updateOrderPaymentStatus(tx, order.id, 'completed', intent.id);
+    return createRefund(tx, {
+      orderId: order.id,
+      vendorId: null,
+      amount: formatMoney(money(intent.amount, order.currency)),
+      currency: order.currency,
+      reason: 'Paid after the order was cancelled',
+    });
+  });
+
+  const issuedRefund = refund ? await issueRefund(env, db, refund, intent.id) : null;
+
+  if (issuedRefund?.status === 'succeeded') {
+    await settleRefundedOrder(env, db, { ...order, paymentStatus: 'completed', paymentIntentId: intent.id });
+  }
+
+  return issuedRefund;
+}
+
+/**
+ * Sends a failed refund to the payment provider again. Its idempotency key is the refund's id, so
+ * a refund the provider made before the failure is not made twice. Once it succeeds, the return it
+ * belongs to is marked refunded and a fully refunded order settled. Returns null when the refund
+ * is not failed (any more), e.g. because another retry took it.
+ */
+export async function retryRefund(env: Env, db: DB, refundId: string) {
+  const refund = await claimFailedRefund(db, refundId);
+  if (!refund) {
+    return null;
+  }
+
+  const order = await getOrderById(db, refund.orderId);
+  if (!order?.paymentIntentId) {
+    return await updateRefund(db, refund.id, { status: 'failed', failureReason: 'Order has no payment to refund' });
+  }
+
+  const issuedRefund = await issueRefund(env, db, refund, order.paymentIntentId);
+
+  if (issuedRefund?.status === 'succeeded') {
+    await markReturnRefunded(db, refund.id);
+    await settleRefundedOrder(env, db, order);
+  }
+
+  return issuedRefund;
+}
+
+/**
+ * Retries refunds that failed within FAILED_REFUND_RETRY_WINDOW_MS, e.g. while the payment
+ * provider was down. Meant to run on a schedule, like releaseExpiredReservations.
+ */
+export async function retryFailedRefunds(env: Env, db: DB, now: Date = new Date()) {
+  const failed = await listFailedRefunds(db, new Date(now.getTime() - FAILED_REFUND_RETRY_WINDOW_MS));
+  let succeeded = 0;
+  const errors: unknown[] = [];
+
+  for (const refund of failed) {
+    try {
+      const retried = await retryRefund(env, db, refund.id);
+      if (retried?.status === 'succeeded') {
+        succeeded++;
+      }
+    } catch (error) {
+      // One stuck refund must not hold back the others
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `Failed to retry ${errors.length} refunds`);
+  }
+
+  return { refunds: failed.length, succeeded };
+}
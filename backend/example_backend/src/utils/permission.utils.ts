@@ -1,17 +1,26 @@
-const MODULES = ["post", "auth", "vendor", "product", "category", "order", "review", "promo", "promotional"] as const;
-const ACTIONS = ["r", "rw"] as const;
+export const MODULES = ["post", "auth", "vendor", "product", "category", "order", "review", "promo", "promotional", "role", "user"] as const;
+export const ACTIONS = ["r", "rw"] as const;
+
+// Roles every deployment has; they cannot be deleted
+export const BUILT_IN_ROLES = ["user", "vendor", "admin", "superadmin"] as const;
 
 export type PermissionString =
-  | "user"
-  | "vendor"
-  | "admin"
-  | "superadmin"
+  | (typeof BUILT_IN_ROLES)[number]
   | `admin:${(typeof MODULES)[number]}:${(typeof ACTIONS)[number]}`
   | `vendor:${(typeof MODULES)[number]}:${(typeof ACTIONS)[number]}`;
 
-export const roleMap: Record<string, PermissionString[]> = {
-  user: ["user"],
-  vendor: ["vendor", "vendor:product:rw", "vendor:order:r"],
-  admin: ["admin", "admin:product:rw", "admin:category:rw", "admin:order:rw", "admin:review:rw", "admin:promo:rw", "admin:promotional:rw", "admin:vendor:rw"],
-  superadmin: ["superadmin"],
-};
+// Everything a role can be granted. Grants are stored in role_permissions, so they are checked against this list.
+export const PERMISSION_STRINGS: PermissionString[] = [
+  ...BUILT_IN_ROLES,
+  ...(["admin", "vendor"] as const).flatMap((scope) =>
+    MODULES.flatMap((module) => ACTIONS.map((action) => `${scope}:${module}:${action}` as const))
+  ),
+];
+
+export function isPermissionString(value: string): value is PermissionString {
+  return (PERMISSION_STRINGS as string[]).includes(value);
+}
+
+export function isBuiltInRole(role: string): boolean {
+  return (BUILT_IN_ROLES as readonly string[]).includes(role);
+}
@@ -0,0 +1,294 @@
+import type { DB } from './db.utils';
+import { promoCodes } from '../schemas/promo.schema';
+import { getPromoCodeByCode, getPromoCodeLimitError } from '../repositories/promo.repository';
+import {
+  Money,
+  addMoney,
+  allocateMoney,
+  compareMoney,
+  formatMoney,
+  formatMoneyWithCurrency,
+  minMoney,
+  multiplyMoney,
+  parseMoney,
+  percentOfMoney,
+  subtractMoney,
+  sumMoney,
+  zeroMoney,
+} from './money.utils';
+import { convertPrice } from './currency.utils';
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+export const MAX_PROMO_CODES_PER_ORDER = 3;
+
+export interface PromotionLine {
+  id: string;
+  productId: string;
+  variantId: string;
+  vendorId: string;
+  categoryId: string | null;
+  quantity: number;
+  unitPrice: Money;
+}
+
+export interface AppliedPromotion {
+  promoCodeId: string;
+  code: string;
+  discountType: string;
+  amount: Money;
+  freeShipping: boolean;
+}
+
+export interface RejectedPromotion {
+  code: string;
+  reason: string;
+}
+
+export interface PromotionResult {
+  // Discount per line id, summed over all applied promotions
+  lineDiscounts: Map<string, Money>;
+  applied: AppliedPromotion[];
+  rejected: RejectedPromotion[];
+  discountAmount: Money;
+  freeShipping: boolean;
+  // Vendors whose shipping is waived, i.e. those with lines eligible for a free shipping code
+  freeShippingVendorIds: Set<string>;
+}
+
+export function getLineSubtotal(line: PromotionLine): Money {
+  return multiplyMoney(line.unitPrice, line.quantity);
+}
+
+export function isLineEligible(promoCode: PromoCode, line: PromotionLine): boolean {
+  const categories = promoCode.applicableCategories ?? [];
+  const vendors = promoCode.applicableVendors ?? [];
+
+  if (categories.length > 0 && (!line.categoryId || !categories.includes(line.categoryId))) {
+    return false;
+  }
+
+  if (vendors.length > 0 && !vendors.includes(line.vendorId)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Checks everything about a code that does not depend on the ledger.
+ * Ledger-based usage limits are checked by getPromoCodeLimitError.
+ */
+export function getPromoCodeIneligibility(
+  promoCode: PromoCode,
+  eligibleLines: PromotionLine[],
+  now: Date = new Date()
+): string | null {
+  if (!promoCode.isActive) {
+    return 'Promo code is not active';
+  }
+
+  if (now < new Date(promoCode.validFrom)) {
+    return 'Promo code is not yet valid';
+  }
+
+  if (now > new Date(promoCode.validUntil)) {
+    return 'Promo code has expired';
+  }
+
+  if (promoCode.usageLimit && promoCode.usedCount >= promoCode.usageLimit) {
+    return 'Promo code usage limit reached';
+  }
+
+  if (eligibleLines.length === 0) {
+    return 'Promo code not applicable to cart items';
+  }
+
+  if (promoCode.minOrderValue) {
+    const currency = eligibleLines[0]!.unitPrice.currency;
+    const minValue = parseMoney(promoCode.minOrderValue, currency);
+    const eligibleSubtotal = sumMoney(eligibleLines.map(getLineSubtotal), currency);
+    if (compareMoney(eligibleSubtotal, minValue) < 0) {
+      return `Minimum order value of ${formatMoneyWithCurrency(minValue)} required`;
+    }
+  }
+
+  return null;
+}
+
+function calculateLineDiscounts(
+  promoCode: PromoCode,
+  lines: PromotionLine[],
+  remaining: Map<string, Money>,
+  currency: string
+): Map<string, Money> {
+  const discounts = new Map<string, Money>();
+  const lineRemaining = lines.map((line) => remaining.get(line.id) ?? zeroMoney(currency));
+  const eligibleTotal = sumMoney(lineRemaining, currency);
+
+  // Order-level amounts are rounded once and then allocated, so line discounts add up to the cent
+  const allocate = (amount: Money) =>
+    allocateMoney(amount, lineRemaining).forEach((share, index) => discounts.set(lines[index]!.id, share));
+
+  switch (promoCode.discountType) {
+    case 'percentage': {
+      allocate(percentOfMoney(eligibleTotal, promoCode.discountValue));
+      break;
+    }
+    case 'fixed': {
+      allocate(minMoney(parseMoney(promoCode.discountValue, currency), eligibleTotal));
+      break;
+    }
+    case 'bogo': {
+      const buyQuantity = promoCode.buyQuantity ?? 1;
+      const getQuantity = promoCode.getQuantity ?? 1;
+      for (const line of lines) {
+        const discountedUnits = Math.floor(line.quantity / (buyQuantity + getQuantity)) * getQuantity;
+        discounts.set(
+          line.id,
+          percentOfMoney(multiplyMoney(line.unitPrice, discountedUnits), promoCode.discountValue)
+        );
+      }
+      break;
+    }
+    case 'free_shipping':
+    default:
+      break;
+  }
+
+  if (promoCode.maxDiscountAmount) {
+    const maxDiscount = parseMoney(promoCode.maxDiscountAmount, currency);
+    const lineDiscounts = lines.map((line) => discounts.get(line.id) ?? zeroMoney(currency));
+    if (compareMoney(sumMoney(lineDiscounts, currency), maxDiscount) > 0) {
+      allocateMoney(maxDiscount, lineDiscounts).forEach((share, index) =>
+        discounts.set(lines[index]!.id, share)
+      );
+    }
+  }
+
+  for (const [lineId, amount] of discounts) {
+    discounts.set(lineId, minMoney(amount, remaining.get(lineId) ?? zeroMoney(currency)));
+  }
+
+  return discounts;
+}
+
+/**
+ * Applies promo codes line by line, in the order given. Each code only discounts the lines it is
+ * eligible for and never more than what earlier codes left on a line.
+ */
+export function applyPromotions(
+  lines: PromotionLine[],
+  codes: PromoCode[],
+  now: Date = new Date()
+): PromotionResult {
+  const currency = lines[0]?.unitPrice.currency;
+  const result: PromotionResult = {
+    lineDiscounts: new Map(lines.map((line) => [line.id, zeroMoney(currency)])),
+    applied: [],
+    rejected: [],
+    discountAmount: zeroMoney(currency),
+    freeShipping: false,
+    freeShippingVendorIds: new Set(),
+  };
+
+  if (codes.length > 1) {
+    const nonStackable = codes.filter((promoCode) => !promoCode.stackable);
+    if (nonStackable.length > 0) {
+      result.rejected = nonStackable.map((promoCode) => ({
+        code: promoCode.code,
+        reason: 'Promo code cannot be combined with other codes',
+      }));
+      return result;
+    }
+  }
+
+  const remaining = new Map(lines.map((line) => [line.id, getLineSubtotal(line)]));
+
+  for (const promoCode of codes) {
+    const eligibleLines = lines.filter((line) => isLineEligible(promoCode, line));
+    const reason = getPromoCodeIneligibility(promoCode, eligibleLines, now);
+
+    if (reason) {
+      result.rejected.push({ code: promoCode.code, reason });
+      continue;
+    }
+
+    const discounts = calculateLineDiscounts(promoCode, eligibleLines, remaining, result.discountAmount.currency);
+    let amount = zeroMoney(result.discountAmount.currency);
+
+    for (const [lineId, lineDiscount] of discounts) {
+      remaining.set(lineId, subtractMoney(remaining.get(lineId)!, lineDiscount));
+      result.lineDiscounts.set(lineId, addMoney(result.lineDiscounts.get(lineId)!, lineDiscount));
+      amount = addMoney(amount, lineDiscount);
+    }
+
+    const freeShipping = promoCode.discountType === 'free_shipping';
+    result.freeShipping = result.freeShipping || freeShipping;
+    if (freeShipping) {
+      for (const line of eligibleLines) {
+        result.freeShippingVendorIds.add(line.vendorId);
+      }
+    }
+    result.discountAmount = addMoney(result.discountAmount, amount);
+    result.applied.push({
+      promoCodeId: promoCode.id,
+      code: promoCode.code,
+      discountType: promoCode.discountType,
+      amount,
+      freeShipping,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Restates a code's fixed amounts in the order currency so the promotion engine only sees
+ * one currency. Percentages and quantities do not depend on currency.
+ */
+export function convertPromoCode(promoCode: PromoCode, currency: string, rates: Map<string, string>): PromoCode {
+  const convert = (value: string | null) =>
+    value === null ? null : formatMoney(convertPrice(value, promoCode.currency, currency, rates));
+
+  return {
+    ...promoCode,
+    currency: currency.toUpperCase(),
+    discountValue: promoCode.discountType === 'fixed' ? convert(promoCode.discountValue)! : promoCode.discountValue,
+    minOrderValue: convert(promoCode.minOrderValue),
+    maxDiscountAmount: convert(promoCode.maxDiscountAmount),
+  };
+}
+
+/**
+ * Loads the codes a customer entered, ignoring case and duplicates. Unknown codes and codes the
+ * user has used up are rejected here with the same checks redemption applies, so a quote never
+ * promises a discount that order creation would refuse.
+ */
+export async function resolvePromoCodes(
+  db: DB,
+  codes: string[],
+  userId: string
+): Promise<{ promoCodes: PromoCode[]; rejected: RejectedPromotion[] }> {
+  const uniqueCodes = Array.from(new Set(codes.map((code) => code.trim().toUpperCase()))).filter(Boolean);
+  const resolved: PromoCode[] = [];
+  const rejected: RejectedPromotion[] = [];
+
+  for (const code of uniqueCodes) {
+    const promoCode = await getPromoCodeByCode(db, code);
+    if (!promoCode) {
+      rejected.push({ code, reason: 'Promo code not found' });
+      continue;
+    }
+
+    const limitError = await getPromoCodeLimitError(db, promoCode, userId);
+    if (limitError) {
+      rejected.push({ code: promoCode.code, reason: limitError });
+      continue;
+    }
+
+    resolved.push(promoCode);
+  }
+
+  return { promoCodes: resolved, rejected };
+}
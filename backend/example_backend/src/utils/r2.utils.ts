@@ -69,6 +69,32 @@ export function generatePromotionalImageKey(
   return `promotional/${promotionalId}/${timestamp}-${sanitizedFilename}`;
 }
 
+// Return photos are filed under the buyer so uploads can be checked against the caller
+export function generateReturnPhotoKey(
+  userId: string,
+  filename: string
+): string {
+  const timestamp = Date.now();
+  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+  return `returns/${userId}/${timestamp}-${sanitizedFilename}`;
+}
+
+// Avatars are filed under their user, like return photos
+export function generateAvatarKey(
+  userId: string,
+  filename: string
+): string {
+  const timestamp = Date.now();
+  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+  return `avatars/${userId}/${timestamp}-${sanitizedFilename}`;
+}
+
+// Data exports are private: they are only served through a signed download link
+export function generateAccountExportKey(userId: string): string {
+  const timestamp = Date.now();
+  return `exports/${userId}/${timestamp}-${crypto.randomUUID()}.json`;
+}
+
 export async function generateUploadToken(
   key: string,
   expiresIn: number = 3600
@@ -98,6 +124,42 @@ export async function deleteFromR2(
   }
 }
 
+/**
+ * Deletes every object under a key prefix, optionally only those uploaded before a cutoff.
+ * Uses the same minimal bucket shape as `deleteFromR2` so it works without the R2Bucket type.
+ * @returns Number of objects deleted.
+ */
+export async function deleteR2Prefix(
+  prefix: string,
+  bucket: {
+    list(options: { prefix: string; cursor?: string }): Promise<{
+      objects: { key: string; uploaded: Date }[];
+      truncated: boolean;
+      cursor?: string;
+    }>;
+    delete(keys: string | string[]): Promise<void>;
+  },
+  uploadedBefore?: Date
+): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  do {
+    const listing = await bucket.list({ prefix, cursor });
+    const keys = listing.objects
+      .filter((object) => !uploadedBefore || object.uploaded < uploadedBefore)
+      .map((object) => object.key);
+
+    if (keys.length > 0) {
+      await bucket.delete(keys);
+      deleted += keys.length;
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
+
 export function getPublicUrl(r2PublicUrl: string, key: string): string {
   return `${r2PublicUrl}/${key}`;
 }
@@ -0,0 +1,78 @@
+import type { DBExecutor } from './db.utils';
+import {
+  closeReservation,
+  createInventoryReservation,
+  getActiveOrderItemReservation,
+  listActiveOrderReservations,
+} from '../repositories/reservation.repository';
+import {
+  commitReservedInventory,
+  updateInventory,
+  updateReservedInventory,
+} from '../repositories/product.repository';
+
+// How long an unpaid order holds its stock before the sweeper gives it back
+export const RESERVATION_TTL_MINUTES = 30;
+
+export function getReservationExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + RESERVATION_TTL_MINUTES * 60 * 1000);
+}
+
+/**
+ * Holds stock for an order item until the order is paid. The variant's inventoryQuantity
+ * is left alone; the units only stop counting as available.
+ */
+export async function reserveOrderItem(
+  db: DBExecutor,
+  item: { id: string; orderId: string; variantId: string; quantity: number },
+  expiresAt: Date = getReservationExpiry()
+) {
+  const reservation = await createInventoryReservation(db, {
+    orderId: item.orderId,
+    orderItemId: item.id,
+    variantId: item.variantId,
+    quantity: item.quantity,
+    status: 'active',
+    expiresAt,
+  });
+  await updateReservedInventory(db, item.variantId, item.quantity);
+  return reservation;
+}
+
+// Payment went through: the order's reserved units are sold and leave the stock
+export async function convertOrderReservations(db: DBExecutor, orderId: string) {
+  const reservations = await listActiveOrderReservations(db, orderId);
+
+  for (const reservation of reservations) {
+    const converted = await closeReservation(db, reservation.id, 'converted');
+    if (converted) {
+      await commitReservedInventory(db, converted.variantId, converted.quantity);
+    }
+  }
+}
+
+export async function releaseReservation(
+  db: DBExecutor,
+  reservation: { id: string; variantId: string; quantity: number }
+) {
+  const released = await closeReservation(db, reservation.id, 'released');
+  if (released) {
+    await updateReservedInventory(db, released.variantId, -released.quantity);
+  }
+  return released;
+}
+
+/**
+ * Gives a cancelled order item's units back: frees the reservation while the order is
+ * unpaid, or puts sold units back in stock.
+ */
+export async function restockOrderItem(
+  db: DBExecutor,
+  item: { id: string; variantId: string; quantity: number }
+) {
+  const reservation = await getActiveOrderItemReservation(db, item.id);
+  if (reservation && (await releaseReservation(db, reservation))) {
+    return;
+  }
+  await updateInventory(db, item.variantId, item.quantity);
+}
@@ -0,0 +1,271 @@
+import { ORPCError } from '@orpc/server';
+import type { Env } from '../context';
+import { DB, runInTransaction } from './db.utils';
+import { returnReasonEnum, returnStatusEnum } from '../schemas/return.schema';
+import { getOrderById, lockOrderItemsForUpdate } from '../repositories/order.repository';
+import { updateInventory } from '../repositories/product.repository';
+import { createRefund } from '../repositories/payment.repository';
+import {
+  createReturnItem,
+  createReturnRequest,
+  getReturnRequestById,
+  getReturnedQuantities,
+  setReturnItemRestockedQuantity,
+  updateReturnRequest,
+} from '../repositories/return.repository';
+import { getOrderItemTotal } from './order.utils';
+import { issueRefund, settleRefundedOrder } from './payment.utils';
+import { extractKeyFromUrl } from './r2.utils';
+import { formatMoney, isZeroMoney, parseMoney, scaleMoney, subtractMoney, sumMoney } from './money.utils';
+
+export type ReturnStatus = (typeof returnStatusEnum)[number];
+export type ReturnReason = (typeof returnReasonEnum)[number];
+
+export const RETURN_WINDOW_DAYS = 30;
+export const MAX_RETURN_PHOTOS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected', 'cancelled'],
+  approved: ['received', 'cancelled'],
+  received: ['refunded'],
+  rejected: [],
+  refunded: [],
+  cancelled: [],
+};
+
+export function canTransitionReturnStatus(from: string, to: ReturnStatus): boolean {
+  return RETURN_STATUS_TRANSITIONS[from as ReturnStatus]?.includes(to) ?? false;
+}
+
+export function assertReturnTransition(from: string, to: ReturnStatus): void {
+  if (!canTransitionReturnStatus(from, to)) {
+    throw new ORPCError('CONFLICT', {
+      message: `Cannot change return status from ${from} to ${to}`,
+      data: { from, to, allowed: RETURN_STATUS_TRANSITIONS[from as ReturnStatus] ?? [] },
+    });
+  }
+}
+
+export function generateRmaNumber(): string {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `RMA-${timestamp}-${random}`;
+}
+
+/**
+ * Refund for returning `quantity` more units of an item of which `alreadyReturned` units were
+ * returned before. Taken as the difference of cumulative shares, so returning an item in several
+ * parts never adds up to more than was paid for it.
+ */
+export function calculateReturnRefund(
+  item: {
+    quantity: number;
+    totalPrice: string;
+    discountAmount: string;
+    taxAmount: string;
+    priceIncludesTax: boolean;
+  },
+  alreadyReturned: number,
+  quantity: number,
+  currency: string
+) {
+  const paid = getOrderItemTotal(item, currency);
+  return subtractMoney(
+    scaleMoney(paid, alreadyReturned + quantity, item.quantity),
+    scaleMoney(paid, alreadyReturned, item.quantity)
+  );
+}
+
+export interface OpenReturnInput {
+  orderId: string;
+  items: { orderItemId: string; quantity: number; reason: ReturnReason }[];
+  description?: string;
+  photos?: string[];
+}
+
+/**
+ * Opens a return for delivered items of one vendor's part of an order. Items from several
+ * vendors need one return each, since each vendor decides on their own.
+ */
+export async function openReturnRequest(env: Env, db: DB, userId: string, input: OpenReturnInput) {
+  const order = await getOrderById(db, input.orderId);
+  if (!order || order.userId !== userId) {
+    throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+  }
+
+  const orderItemIds = Array.from(new Set(input.items.map((item) => item.orderItemId)));
+  if (orderItemIds.length !== input.items.length) {
+    throw new ORPCError('BAD_REQUEST', { message: 'Each order item can only be listed once' });
+  }
+
+  const orderItemsById = new Map(order.items.map(({ item }) => [item.id, item]));
+  const unknownItemIds = orderItemIds.filter((id) => !orderItemsById.has(id));
+  if (unknownItemIds.length > 0) {
+    throw new ORPCError('NOT_FOUND', {
+      message: 'Order item not found',
+      data: { orderItemIds: unknownItemIds },
+    });
+  }
+
+  const selectedItems = orderItemIds.map((id) => orderItemsById.get(id)!);
+  const undeliveredItemIds = selectedItems.filter((item) => item.status !== 'delivered').map((item) => item.id);
+  if (undeliveredItemIds.length > 0) {
+    throw new ORPCError('BAD_REQUEST', {
+      message: 'Only delivered items can be returned',
+      data: { orderItemIds: undeliveredItemIds },
+    });
+  }
+
+  const vendorIds = new Set(selectedItems.map((item) => item.vendorId));
+  if (vendorIds.size > 1) {
+    throw new ORPCError('BAD_REQUEST', {
+      message: 'Items from different vendors must be returned separately',
+      data: { vendorIds: Array.from(vendorIds) },
+    });
+  }
+
+  const vendorId = selectedItems[0]!.vendorId;
+  const tracking = order.vendorTracking.find((vendorTracking) => vendorTracking.vendorId === vendorId);
+  const deliveredAt = tracking?.deliveredAt ?? tracking?.updatedAt;
+  if (!deliveredAt || Date.now() - new Date(deliveredAt).getTime() > RETURN_WINDOW_DAYS * DAY_MS) {
+    throw new ORPCError('CONFLICT', {
+      message: `Items can only be returned within ${RETURN_WINDOW_DAYS} days of delivery`,
+    });
+  }
+
+  const photos = input.photos ?? [];
+  const foreignPhotos = photos.filter(
+    (url) => !extractKeyFromUrl(env.R2_PUBLIC_URL, url)?.startsWith(`returns/${userId}/`)
+  );
+  if (foreignPhotos.length > 0) {
+    throw new ORPCError('BAD_REQUEST', {
+      message: 'Photos must be uploaded through the return photo upload',
+      data: { photos: foreignPhotos },
+    });
+  }
+
+  return await runInTransaction(env, async (tx) => {
+    // Locking the items serializes concurrent returns of the same units
+    await lockOrderItemsForUpdate(tx, orderItemIds);
+    const returnedQuantities = await getReturnedQuantities(tx, orderItemIds);
+
+    const lines = input.items.map((line) => {
+      const item = orderItemsById.get(line.orderItemId)!;
+      const alreadyReturned = returnedQuantities.get(item.id) ?? 0;
+      return { line, item, alreadyReturned, returnable: item.quantity - alreadyReturned };
+    });
+
+    const overReturned = lines.filter(({ line, returnable }) => line.quantity > returnable);
+    if (overReturned.length > 0) {
+      throw new ORPCError('BAD_REQUEST', {
+        message: 'Cannot return more units than were delivered',
+        data: {
+          lines: overReturned.map(({ line, returnable }) => ({
+            orderItemId: line.orderItemId,
+            requestedQuantity: line.quantity,
+            returnableQuantity: returnable,
+          })),
+        },
+      });
+    }
+
+    const refunds = lines.map(({ line, item, alreadyReturned }) =>
+      calculateReturnRefund(item, alreadyReturned, line.quantity, order.currency)
+    );
+
+    const returnRequest = await createReturnRequest(tx, {
+      rmaNumber: generateRmaNumber(),
+      orderId: order.id,
+      userId,
+      vendorId,
+      status: 'requested',
+      description: input.description,
+      photos,
+      refundAmount: formatMoney(sumMoney(refunds, order.currency)),
+      currency: order.currency,
+    });
+
+    for (const [index, { line }] of lines.entries()) {
+      await createReturnItem(tx, {
+        returnRequestId: returnRequest.id,
+        orderItemId: line.orderItemId,
+        quantity: line.quantity,
+        reason: line.reason,
+        refundAmount: formatMoney(refunds[index]!),
+      });
+    }
+
+    return (await getReturnRequestById(tx, returnRequest.id))!;
+  });
+}
+
+/**
+ * Records that the vendor got the items back: restocks them (all units unless `restockQuantities`
+ * says otherwise, e.g. for damaged goods) and refunds the return's amount on paid orders.
+ */
+export async function receiveReturn(
+  env: Env,
+  db: DB,
+  returnRequestId: string,
+  restockQuantities: Map<string, number> = new Map()
+) {
+  const returnRequest = await getReturnRequestById(db, returnRequestId);
+  if (!returnRequest) {
+    throw new ORPCError('NOT_FOUND', { message: 'Return request not found' });
+  }
+  assertReturnTransition(returnRequest.status, 'received');
+
+  const order = await getOrderById(db, returnRequest.orderId);
+  if (!order) {
+    throw new ORPCError('NOT_FOUND', { message: 'Order not found' });
+  }
+
+  const refundAmount = parseMoney(returnRequest.refundAmount, returnRequest.currency);
+
+  const refund = await runInTransaction(env, async (tx) => {
+    const received = await updateReturnRequest(tx, returnRequest.id, returnRequest.status, {
+      status: 'received',
+      receivedAt: new Date(),
+    });
+    if (!received) {
+      throw new ORPCError('CONFLICT', {
+        message: 'The return was changed by another request, please retry',
+      });
+    }
+
+    for (const item of returnRequest.items) {
+      const restockQuantity = Math.min(Math.max(restockQuantities.get(item.id) ?? item.quantity, 0), item.quantity);
+      if (restockQuantity > 0) {
+        await updateInventory(tx, item.orderItem.variantId, restockQuantity);
+      }
+      await setReturnItemRestockedQuantity(tx, item.id, restockQuantity);
+    }
+
+    if (order.paymentStatus !== 'completed' || !order.paymentIntentId || isZeroMoney(refundAmount)) {
+      return null;
+    }
+
+    const refund = await createRefund(tx, {
+      orderId: order.id,
+      vendorId: returnRequest.vendorId,
+      amount: formatMoney(refundAmount),
+      currency: returnRequest.currency,
+      reason: `Return ${returnRequest.rmaNumber}`,
+    });
+    await updateReturnRequest(tx, returnRequest.id, 'received', { refundId: refund.id });
+
+    return refund;
+  });
+
+  if (refund) {
+    const issuedRefund = await issueRefund(env, db, refund, order.paymentIntentId!);
+    if (issuedRefund?.status === 'succeeded') {
+      await updateReturnRequest(db, returnRequest.id, 'received', { status: 'refunded' });
+      await settleRefundedOrder(env, db, order);
+    }
+  }
+
+  return (await getReturnRequestById(db, returnRequest.id))!;
+}
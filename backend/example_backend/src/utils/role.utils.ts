@@ -0,0 +1,28 @@
+import { ORPCError } from '@orpc/server';
+import type { TRPCContext } from '../context';
+import { hasPermission } from './auth.utils';
+import { isBuiltInRole, isPermissionString } from './permission.utils';
+
+// Nobody can hand out more than they hold themselves; superadmins hold everything
+export function assertCanGrant(ctx: TRPCContext, permissions: string[]) {
+  if (ctx.get('authIsSuperAdmin')) {
+    return;
+  }
+
+  const granted = [...(ctx.get('authUserRoles') || []), ...(ctx.get('authUserPermissions') || [])];
+  const notHeld = permissions.filter(
+    (permission) => !isPermissionString(permission) || !hasPermission(granted, permission)
+  );
+
+  if (notHeld.length > 0) {
+    throw new ORPCError('FORBIDDEN', {
+      message: 'Cannot grant permissions you do not hold',
+      data: { permissions: notHeld },
+    });
+  }
+}
+
+// What holding a role gives: its grants, plus the role name itself for built-in roles
+export function getRoleGrants(role: { name: string; permissions: string[] }) {
+  return isBuiltInRole(role.name) ? [role.name, ...role.permissions] : role.permissions;
+}
@@ -1,5 +1,6 @@
-import { SQL, and, or, gte, lte, eq, ilike, asc, desc, sql } from 'drizzle-orm';
+import { SQL, or, gte, lte, eq, sql, type AnyColumn } from 'drizzle-orm';
 import { products } from '../schemas/product.schema';
+import { timestampSortExpression } from './pagination.utils';
 import z from "zod/v3";
 import { sortBySchema, sortOrderSchema } from "../schemas/common.schema";
 
@@ -51,8 +52,9 @@ export function buildProductSearchConditions(
   if (search) {
     conditions.push(
       or(
-        ilike(products.name, `%${search}%`),
-        ilike(products.description, `%${search}%`),
+        sql`${products.searchVector} @@ ${getProductSearchQuery(search)}`,
+        // Trigram word similarity lets misspelled names still match
+        sql`${search} <% ${products.name}`,
         sql`EXISTS (
           SELECT 1 FROM unnest(${products.tags}) AS tag
           WHERE LOWER(tag) LIKE LOWER(${`%${search}%`})
@@ -74,20 +76,92 @@ export function buildProductSearchConditions(
   return conditions;
 }
 
-export function getProductSortColumn(
-  sortBy: string,
-  sortOrder: 'asc' | 'desc'
-): SQL<unknown> {
-  const orderFn = sortOrder === 'asc' ? asc : desc;
+export function getProductSearchQuery(search: string): SQL {
+  return sql`websearch_to_tsquery('english', ${search})`;
+}
+
+export function getProductRelevanceExpression(search: string): SQL<number> {
+  return sql<number>`(ts_rank_cd(${products.searchVector}, ${getProductSearchQuery(search)}) + word_similarity(${search}, ${products.name}) * 0.5)::float8`;
+}
+
+// Escapes vendor-supplied text so the only markup in a highlight is the <mark> tags we add
+function escapeHtmlSql(text: SQL): SQL {
+  return sql`replace(replace(replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+}
+
+// HTML-escaped description excerpt with matches wrapped in <mark>, falling back to the name for products without one
+export function getProductHighlightExpression(search: string): SQL<string> {
+  const source = escapeHtmlSql(sql`coalesce(${products.description}, ${products.name})`);
+  return sql<string>`ts_headline('english', ${source}, ${getProductSearchQuery(search)}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2')`;
+}
+
+export type ProductSortRow = Omit<typeof products.$inferSelect, 'searchVector'> & { relevance?: number };
+
+export interface ProductSortKey {
+  expression: SQL | AnyColumn;
+  // The row's value for `expression`, as stored in pagination cursors
+  getValue: (product: ProductSortRow) => string | number;
+}
+
+/**
+ * Sorting by relevance needs a search term; without one it falls back to newest first.
+ */
+export function getProductSortKey(sortBy: string, search?: string): ProductSortKey {
+  if (sortBy === 'relevance' && search) {
+    return {
+      expression: getProductRelevanceExpression(search),
+      getValue: (product) => product.relevance ?? 0,
+    };
+  }
 
   switch (sortBy) {
     case 'price':
-      return orderFn(products.basePrice);
+      return { expression: products.basePrice, getValue: (product) => product.basePrice };
     case 'name':
-      return orderFn(products.name);
+      return { expression: products.name, getValue: (product) => product.name };
     case 'createdAt':
     default:
-      return orderFn(products.createdAt);
+      return {
+        expression: timestampSortExpression(products.createdAt),
+        getValue: (product) => product.createdAt.toISOString(),
+      };
   }
 }
 
+export interface PriceBucket {
+  key: string;
+  min: number;
+  max: number | null;
+}
+
+export const PRODUCT_PRICE_BUCKETS: PriceBucket[] = [
+  { key: '0-25', min: 0, max: 25 },
+  { key: '25-50', min: 25, max: 50 },
+  { key: '50-100', min: 50, max: 100 },
+  { key: '100-250', min: 100, max: 250 },
+  { key: '250+', min: 250, max: null },
+];
+
+export const productFacetValueSchema = z.object({
+  value: z.string(),
+  label: z.string().nullable(),
+  count: z.number(),
+});
+
+export const productFacetsSchema = z.object({
+  categories: z.array(productFacetValueSchema),
+  vendors: z.array(productFacetValueSchema),
+  priceBuckets: z.array(
+    z.object({
+      // Prices in different currencies aren't comparable, so each currency gets its own set of buckets
+      currency: z.string(),
+      key: z.string(),
+      min: z.number(),
+      max: z.number().nullable(),
+      count: z.number(),
+    })
+  ),
+  tags: z.array(productFacetValueSchema),
+});
+
+export type ProductFacets = z.infer<typeof productFacetsSchema>;
@@ -0,0 +1,194 @@
+import { ORPCError } from '@orpc/server';
+import z from 'zod/v3';
+import type { Env } from '../context';
+import type { DB } from './db.utils';
+import {
+	findLiveAuthsByUserId,
+	findTrustedDevicesByUserId,
+	deleteAuthById,
+} from '../repositories/auth.repository';
+import { findUserRoles } from '../repositories/user.repository';
+
+export type SessionLimitStrategy = 'evict_oldest' | 'reject';
+
+export interface SessionPolicy {
+	maxDevices: number;
+	onLimit: SessionLimitStrategy;
+	// Trusted devices stay signed in and do not take up one of the `maxDevices` slots
+	trustedDevicesExempt: boolean;
+	maxTrustedDevices: number;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+	maxDevices: 3,
+	onLimit: 'evict_oldest',
+	trustedDevicesExempt: true,
+	maxTrustedDevices: 5,
+};
+
+// Defaults per role; a deployment can override them through the SESSION_POLICIES variable.
+// Evicting keeps admins from being locked out by a lost device that still holds a slot.
+export const sessionPolicies: Record<string, SessionPolicy> = {
+	user: DEFAULT_SESSION_POLICY,
+	vendor: { maxDevices: 5, onLimit: 'evict_oldest', trustedDevicesExempt: true, maxTrustedDevices: 5 },
+	admin: { maxDevices: 2, onLimit: 'evict_oldest', trustedDevicesExempt: false, maxTrustedDevices: 2 },
+	superadmin: { maxDevices: 1, onLimit: 'evict_oldest', trustedDevicesExempt: false, maxTrustedDevices: 1 },
+};
+
+const sessionPolicyOverridesSchema = z.record(
+	z
+		.object({
+			maxDevices: z.number().int().min(1),
+			onLimit: z.enum(['evict_oldest', 'reject']),
+			trustedDevicesExempt: z.boolean(),
+			maxTrustedDevices: z.number().int().min(0),
+		})
+		.partial()
+);
+
+/**
+ * The per-role policies with the overrides from SESSION_POLICIES applied, e.g.
+ * `{"admin":{"maxDevices":3},"support":{"maxDevices":1,"onLimit":"reject"}}`.
+ */
+export function getSessionPolicies(env: Pick<Env, 'SESSION_POLICIES'>): Record<string, SessionPolicy> {
+	if (!env.SESSION_POLICIES) {
+		return sessionPolicies;
+	}
+
+	let overrides: z.infer<typeof sessionPolicyOverridesSchema>;
+	try {
+		overrides = sessionPolicyOverridesSchema.parse(JSON.parse(env.SESSION_POLICIES));
+	} catch (error) {
+		throw new Error(`Invalid SESSION_POLICIES: ${(error as Error).message}`);
+	}
+
+	const policies = { ...sessionPolicies };
+	for (const [role, override] of Object.entries(overrides)) {
+		policies[role] = { ...(policies[role] ?? DEFAULT_SESSION_POLICY), ...override };
+	}
+	return policies;
+}
+
+/**
+ * Combines the policies of all roles a user holds, keeping the strictest value of each setting.
+ */
+export function resolveSessionPolicy(
+	userRoles: string[],
+	policiesByRole: Record<string, SessionPolicy> = sessionPolicies
+): SessionPolicy {
+	const policies = userRoles
+		.map((role) => policiesByRole[role])
+		.filter((policy): policy is SessionPolicy => !!policy);
+
+	if (!policies.length) {
+		return DEFAULT_SESSION_POLICY;
+	}
+
+	return {
+		maxDevices: Math.min(...policies.map((policy) => policy.maxDevices)),
+		onLimit: policies.some((policy) => policy.onLimit === 'reject') ? 'reject' : 'evict_oldest',
+		trustedDevicesExempt: policies.every((policy) => policy.trustedDevicesExempt),
+		maxTrustedDevices: Math.min(...policies.map((policy) => policy.maxTrustedDevices)),
+	};
+}
+
+async function getSessionPolicyForUser(env: Env, db: DB, userId: string): Promise<SessionPolicy> {
+	const roles = await findUserRoles(db, userId);
+	return resolveSessionPolicy(
+		roles.map((role) => role.role),
+		getSessionPolicies(env)
+	);
+}
+
+/**
+ * Frees slots for one more session among `sessions`, which hold at most `max`.
+ * Rejects instead when the policy says so.
+ */
+async function makeRoom(
+	db: DB,
+	policy: SessionPolicy,
+	sessions: { id: string; lastRefresh: Date | null }[],
+	max: number,
+	error: { message: string; data: Record<string, number> }
+): Promise<void> {
+	if (sessions.length < max) {
+		return;
+	}
+
+	if (policy.onLimit === 'reject') {
+		throw new ORPCError('CONFLICT', error);
+	}
+
+	const oldestFirst = [...sessions].sort(
+		(a, b) => (a.lastRefresh?.getTime() ?? 0) - (b.lastRefresh?.getTime() ?? 0)
+	);
+
+	for (const session of oldestFirst.slice(0, sessions.length - max + 1)) {
+		await deleteAuthById(db, session.id);
+	}
+}
+
+async function makeRoomForTrustedDevice(db: DB, policy: SessionPolicy, userId: string, deviceId: string) {
+	const trusted = await findTrustedDevicesByUserId(db, userId);
+
+	await makeRoom(
+		db,
+		policy,
+		trusted.filter((session) => session.deviceId !== deviceId),
+		policy.maxTrustedDevices,
+		{
+			message: 'Maximum number of trusted devices reached',
+			data: { maxTrustedDevices: policy.maxTrustedDevices },
+		}
+	);
+}
+
+/**
+ * Makes room for a new session on `deviceId` according to the user's session policy.
+ * Existing sessions on the same device are replaced by the caller and are not counted,
+ * and only sessions that can still be refreshed hold a device slot.
+ */
+export async function enforceSessionPolicy(
+	env: Env,
+	db: DB,
+	userId: string,
+	deviceId: string,
+	isTrusted: boolean
+): Promise<void> {
+	const policy = await getSessionPolicyForUser(env, db, userId);
+
+	if (isTrusted) {
+		await makeRoomForTrustedDevice(db, policy, userId, deviceId);
+
+		if (policy.trustedDevicesExempt) {
+			return;
+		}
+	}
+
+	const sessions = await findLiveAuthsByUserId(db, userId);
+
+	await makeRoom(
+		db,
+		policy,
+		sessions.filter(
+			(session) =>
+				session.deviceId !== deviceId && !(policy.trustedDevicesExempt && session.isTrusted)
+		),
+		policy.maxDevices,
+		{
+			message: 'Maximum number of active devices reached',
+			data: { maxDevices: policy.maxDevices },
+		}
+	);
+}
+
+// Makes room for trusting the session on `deviceId`, see enforceSessionPolicy
+export async function enforceTrustedDevicePolicy(
+	env: Env,
+	db: DB,
+	userId: string,
+	deviceId: string
+): Promise<void> {
+	const policy = await getSessionPolicyForUser(env, db, userId);
+	await makeRoomForTrustedDevice(db, policy, userId, deviceId);
+}
@@ -0,0 +1,194 @@
+import { ORPCError } from '@orpc/server';
+import type { DB } from './db.utils';
+import type { CartLineSource } from './order.utils';
+import {
+  listActiveShippingZonesForVendors,
+  listVendorIdsWithShippingZones,
+  ShippingRate,
+  ShippingZoneWithRates,
+} from '../repositories/shipping.repository';
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  addMoney,
+  compareMoney,
+  multiplyMoney,
+  sumMoney,
+  zeroMoney,
+} from './money.utils';
+import { convertPrice, getExchangeRates } from './currency.utils';
+
+export interface ShippingLine {
+  vendorId: string;
+  quantity: number;
+  unitPrice: Money;
+  // Per unit, in kilograms
+  weight: number;
+}
+
+export interface ShippingDestination {
+  country: string;
+  state: string;
+  postalCode: string;
+}
+
+export interface VendorShipment {
+  vendorId: string;
+  zoneId: string | null;
+  subtotal: Money;
+  shippingCost: Money;
+}
+
+export function toShippingLines(
+  items: CartLineSource[],
+  currency: string = DEFAULT_CURRENCY,
+  rates: Map<string, string> = new Map()
+): ShippingLine[] {
+  return items.map(({ item, product, variant }) => ({
+    vendorId: product.vendorId,
+    quantity: item.quantity,
+    unitPrice: convertPrice(variant.price, product.currency ?? DEFAULT_CURRENCY, currency, rates),
+    weight: variant.weight ? parseFloat(variant.weight) : 0,
+  }));
+}
+
+function getShippingSubtotal(lines: ShippingLine[], currency: string): Money {
+  return sumMoney(
+    lines.map((line) => multiplyMoney(line.unitPrice, line.quantity)),
+    currency
+  );
+}
+
+function normalize(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+function normalizePostalCode(value: string): string {
+  return normalize(value).replace(/[\s-]/g, '');
+}
+
+export function matchesShippingZone(zone: ShippingZoneWithRates, destination: ShippingDestination): boolean {
+  const countries = (zone.countries ?? []).map(normalize);
+  const states = (zone.states ?? []).map(normalize);
+  const postalCodePrefixes = (zone.postalCodePrefixes ?? []).map(normalizePostalCode);
+
+  if (countries.length > 0 && !countries.includes(normalize(destination.country))) {
+    return false;
+  }
+
+  if (states.length > 0 && !states.includes(normalize(destination.state))) {
+    return false;
+  }
+
+  const postalCode = normalizePostalCode(destination.postalCode);
+  if (postalCodePrefixes.length > 0 && !postalCodePrefixes.some((prefix) => postalCode.startsWith(prefix))) {
+    return false;
+  }
+
+  return true;
+}
+
+function findRateBracket(rates: ShippingRate[], measure: number): ShippingRate | null {
+  return (
+    rates.find((rate) => {
+      const min = parseFloat(rate.minValue);
+      const max = rate.maxValue === null ? null : parseFloat(rate.maxValue);
+      return measure >= min && (max === null || measure < max);
+    }) ?? null
+  );
+}
+
+/**
+ * Shipping for one vendor's lines in a zone, or null when no bracket of the rate table covers them.
+ * The free shipping threshold is checked against the vendor subtotal before promotions.
+ * Zone amounts are in the zone's currency and converted with `rates`, like the lines.
+ */
+export function calculateZoneShipping(
+  zone: ShippingZoneWithRates,
+  lines: ShippingLine[],
+  currency: string = DEFAULT_CURRENCY,
+  rates: Map<string, string> = new Map()
+): Money | null {
+  const subtotal = getShippingSubtotal(lines, currency);
+  const toCurrency = (value: string) => convertPrice(value, zone.currency, currency, rates);
+
+  if (
+    zone.freeShippingThreshold !== null &&
+    compareMoney(subtotal, toCurrency(zone.freeShippingThreshold)) >= 0
+  ) {
+    return zeroMoney(currency);
+  }
+
+  const measure =
+    zone.rateType === 'weight'
+      ? lines.reduce((sum, line) => sum + line.weight * line.quantity, 0)
+      : lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const rate = findRateBracket(zone.rates, measure);
+  if (!rate) {
+    return null;
+  }
+
+  const extra = Math.max(0, Math.ceil(measure - parseFloat(rate.minValue)));
+  return addMoney(toCurrency(rate.price), multiplyMoney(toCurrency(rate.pricePerUnit), extra));
+}
+
+/**
+ * Prices shipping separately for every vendor in the order. Vendors that have not set up any
+ * shipping zones ship for free; vendors whose zones do not cover the address cannot ship there.
+ */
+export async function quoteShipping(
+  db: DB,
+  lines: ShippingLine[],
+  destination: ShippingDestination,
+  currency: string = DEFAULT_CURRENCY
+): Promise<VendorShipment[]> {
+  const vendorIds = Array.from(new Set(lines.map((line) => line.vendorId)));
+  const [zones, configuredVendorIds] = await Promise.all([
+    listActiveShippingZonesForVendors(db, vendorIds),
+    listVendorIdsWithShippingZones(db, vendorIds),
+  ]);
+  const rates = await getExchangeRates(db, zones.map((zone) => zone.currency), currency);
+
+  const shipments: VendorShipment[] = [];
+  const unavailableVendorIds: string[] = [];
+
+  for (const vendorId of vendorIds) {
+    const vendorLines = lines.filter((line) => line.vendorId === vendorId);
+    const subtotal = getShippingSubtotal(vendorLines, currency);
+
+    if (!configuredVendorIds.includes(vendorId)) {
+      shipments.push({ vendorId, zoneId: null, subtotal, shippingCost: zeroMoney(currency) });
+      continue;
+    }
+
+    // Zones come ordered by priority, so the first one that matches and can price the lines wins
+    let shipment: VendorShipment | null = null;
+    for (const zone of zones) {
+      if (zone.vendorId !== vendorId || !matchesShippingZone(zone, destination)) {
+        continue;
+      }
+
+      const shippingCost = calculateZoneShipping(zone, vendorLines, currency, rates);
+      if (shippingCost !== null) {
+        shipment = { vendorId, zoneId: zone.id, subtotal, shippingCost };
+        break;
+      }
+    }
+
+    if (shipment) {
+      shipments.push(shipment);
+    } else {
+      unavailableVendorIds.push(vendorId);
+    }
+  }
+
+  if (unavailableVendorIds.length > 0) {
+    throw new ORPCError('BAD_REQUEST', {
+      message: 'Some items cannot be shipped to this address',
+      data: { vendorIds: unavailableVendorIds },
+    });
+  }
+
+  return shipments;
+}
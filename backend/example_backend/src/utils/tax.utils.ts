@@ -0,0 +1,124 @@
+import type { DB } from './db.utils';
+import type { CartLineSource } from './order.utils';
+import type { ShippingDestination } from './shipping.utils';
+import type { SelectOrderItem } from '../schemas/order.schema';
+import { DEFAULT_TAX_CLASS, TaxBreakdown } from '../schemas/tax.schema';
+import { listApplicableTaxRules, TaxRule } from '../repositories/tax.repository';
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  addDecimals,
+  addMoney,
+  formatMoney,
+  isPositiveDecimal,
+  multiplyMoney,
+  parseMoney,
+  scaleMoney,
+  subtractMoney,
+  zeroMoney,
+} from './money.utils';
+
+export interface LineTaxRate {
+  taxRuleId: string | null;
+  name: string | null;
+  // Decimal fraction as stored on the rule, e.g. "0.0825"
+  rate: string;
+  priceIncludesTax: boolean;
+}
+
+export const NO_TAX: LineTaxRate = { taxRuleId: null, name: null, rate: '0.0000', priceIncludesTax: false };
+
+/**
+ * Picks the rule for a destination and tax class. A rule for the destination's region wins
+ * over a country-wide rule; regions that have no rule of their own fall back to the country.
+ */
+export function findTaxRule(rules: TaxRule[], destination: ShippingDestination, taxClass: string): TaxRule | null {
+  const region = destination.state.trim().toUpperCase();
+  const candidates = rules.filter((rule) => rule.taxClass === taxClass);
+
+  return (
+    candidates.find((rule) => rule.region !== null && rule.region.trim().toUpperCase() === region) ??
+    candidates.find((rule) => rule.region === null) ??
+    null
+  );
+}
+
+/**
+ * Tax on a line amount that has already had its discount taken off. For tax-inclusive prices
+ * the tax is the part of the amount that is tax; otherwise it is charged on top.
+ */
+export function calculateLineTax(amount: Money, tax: LineTaxRate): Money {
+  if (!isPositiveDecimal(tax.rate) || amount.minor <= 0) {
+    return zeroMoney(amount.currency);
+  }
+
+  // Inclusive: amount * rate / (1 + rate), computed exactly and rounded once
+  return tax.priceIncludesTax
+    ? scaleMoney(amount, tax.rate, addDecimals(1, tax.rate))
+    : multiplyMoney(amount, tax.rate);
+}
+
+/**
+ * Resolves the tax rate for every cart line, keyed by cart item id.
+ */
+export async function resolveLineTaxRates(
+  db: DB,
+  items: CartLineSource[],
+  destination: ShippingDestination
+): Promise<Map<string, LineTaxRate>> {
+  const taxClasses = Array.from(new Set(items.map(({ product }) => product.taxClass ?? DEFAULT_TAX_CLASS)));
+  const rules = await listApplicableTaxRules(db, destination.country.trim(), taxClasses);
+
+  return new Map(
+    items.map(({ item, product }) => {
+      const rule = findTaxRule(rules, destination, product.taxClass ?? DEFAULT_TAX_CLASS);
+      const priceIncludesTax = product.priceIncludesTax ?? false;
+
+      return [
+        item.id,
+        rule
+          ? { taxRuleId: rule.id, name: rule.name, rate: rule.rate, priceIncludesTax }
+          : { ...NO_TAX, priceIncludesTax },
+      ];
+    })
+  );
+}
+
+/**
+ * Groups the persisted line taxes of an order by name and rate for invoices.
+ * The taxable amount is always net of tax, whether or not prices included it.
+ */
+export function summarizeOrderTaxes(
+  items: SelectOrderItem[],
+  currency: string = DEFAULT_CURRENCY
+): TaxBreakdown {
+  const groups = new Map<string, { name: string; rate: string; taxableAmount: Money; taxAmount: Money }>();
+
+  for (const item of items) {
+    const taxAmount = parseMoney(item.taxAmount, currency);
+    if (!item.taxName || taxAmount.minor === 0) {
+      continue;
+    }
+
+    const lineAmount = subtractMoney(parseMoney(item.totalPrice, currency), parseMoney(item.discountAmount, currency));
+    const taxableAmount = item.priceIncludesTax ? subtractMoney(lineAmount, taxAmount) : lineAmount;
+    const key = `${item.taxName}:${item.taxRate}`;
+    const group = groups.get(key) ?? {
+      name: item.taxName,
+      rate: item.taxRate,
+      taxableAmount: zeroMoney(currency),
+      taxAmount: zeroMoney(currency),
+    };
+
+    group.taxableAmount = addMoney(group.taxableAmount, taxableAmount);
+    group.taxAmount = addMoney(group.taxAmount, taxAmount);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map((group) => ({
+    name: group.name,
+    rate: group.rate,
+    taxableAmount: formatMoney(group.taxableAmount),
+    taxAmount: formatMoney(group.taxAmount),
+  }));
+}
@@ -0,0 +1,49 @@
+import { bench, describe } from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { DB } from '../src/utils/db.utils';
+import { users } from '../src/schemas/user.schema';
+import { createAuthSession, findAuthById, findAuthContext } from '../src/repositories/auth.repository';
+import { findUserRolePermissions } from '../src/repositories/role.repository';
+import { checkUserBanStatus, createUser, createUserRole, isUserBanned } from '../src/repositories/user.repository';
+import { createTestDb } from './helpers/db';
+
+let queries = 0;
+const db: DB = await createTestDb({ logger: { logQuery: () => queries++ } });
+
+const userId = crypto.randomUUID();
+const authId = crypto.randomUUID();
+await createUser(db, userId, `${userId}@example.com`);
+await createUserRole(db, crypto.randomUUID(), userId, 'user');
+await createAuthSession(db, authId, userId, crypto.randomUUID());
+
+// What protectedProcedure looked up per request before findAuthContext: four round-trips
+async function legacyAuthLookup() {
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  const banned = await isUserBanned(db, userId);
+  const session = await findAuthById(db, authId);
+  const { roles, permissions } = await findUserRolePermissions(db, userId);
+  return { user, banned, session, roles, permissions };
+}
+
+async function authContextLookup() {
+  const authContext = await findAuthContext(db, userId, authId);
+  const banned = await checkUserBanStatus(db, authContext?.user);
+  return { authContext, banned };
+}
+
+async function countQueries(lookup: () => Promise<unknown>) {
+  queries = 0;
+  await lookup();
+  return queries;
+}
+
+// In-process Postgres has no network latency, so this understates the gain: on Neon
+// every query is a separate HTTP round-trip
+describe(`auth lookup per request (legacy: ${await countQueries(legacyAuthLookup)} queries, findAuthContext: ${await countQueries(authContextLookup)})`, () => {
+  bench('legacy lookup', async () => {
+    await legacyAuthLookup();
+  });
+  bench('findAuthContext', async () => {
+    await authContextLookup();
+  });
+});
@@ -0,0 +1,220 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { call } from '@orpc/server';
+import { sign } from 'hono/jwt';
+import type { Env, TRPCContext } from '../src/context';
+import type { DB } from '../src/utils/db.utils';
+import { protectedProcedure } from '../src/procedures/protected.procedure';
+import { authRoutes } from '../src/routes/auth.route';
+import { createAuthSession, deleteAuthById, findAuthById, findAuthContext } from '../src/repositories/auth.repository';
+import { createRole, setRolePermissions } from '../src/repositories/role.repository';
+import { banUser, createUser, createUserRole, findUserById, unbanUser } from '../src/repositories/user.repository';
+import { generateAccessToken } from '../src/services/jwt.service';
+import { createAccountExport, verifyAccountExportToken } from '../src/utils/account.utils';
+import { createTestDb } from './helpers/db';
+import { createTestContext } from './helpers/context';
+
+const JWT_SECRET = 'test-secret';
+const env = { JWT_SECRET } as Env;
+
+let db: DB;
+let queries: string[] = [];
+
+beforeAll(async () => {
+  db = await createTestDb({ logger: { logQuery: (query) => queries.push(query) } });
+});
+
+beforeEach(() => {
+  queries = [];
+});
+
+const whoAmI = protectedProcedure({ anyOf: ['user'] }).handler(({ context }) =>
+  (context as TRPCContext).c.get('authUser')
+);
+
+async function newSession() {
+  const userId = crypto.randomUUID();
+  const email = `${userId}@example.com`;
+  await createUser(db, userId, email);
+  await createUserRole(db, crypto.randomUUID(), userId, 'user');
+
+  const role = await createRole(db, { name: `tester-${userId}` });
+  await setRolePermissions(db, role!.id, ['product:read', 'order:read']);
+  await createUserRole(db, crypto.randomUUID(), userId, role!.name);
+
+  const authId = crypto.randomUUID();
+  await createAuthSession(db, authId, userId, crypto.randomUUID());
+  const token = await generateAccessToken(userId, email, JWT_SECRET, authId);
+
+  queries = [];
+  return { userId, email, authId, roleName: role!.name, token };
+}
+
+// The slice of a Hono context that protectedProcedure reads and writes
+function callWithToken(token: string) {
+  const variables = new Map<string, unknown>([['db', db]]);
+  const c = {
+    env,
+    req: { header: (name: string) => (name === 'Authorization' ? `Bearer ${token}` : undefined) },
+    get: (key: string) => variables.get(key),
+    set: (key: string, value: unknown) => variables.set(key, value),
+  };
+
+  return call(whoAmI, undefined, { context: { env, c, get: c.get, set: c.set } as unknown as TRPCContext });
+}
+
+describe('findAuthContext', () => {
+  it('loads the user, the bound session, roles and permissions in one query', async () => {
+    const session = await newSession();
+
+    const authContext = await findAuthContext(db, session.userId, session.authId);
+
+    expect(queries).toHaveLength(1);
+    expect(authContext?.user).toMatchObject({ id: session.userId, email: session.email, isBanned: false });
+    expect(authContext?.authId).toBe(session.authId);
+    expect(authContext?.roles.sort()).toEqual(['user', session.roleName].sort());
+    expect(authContext?.permissions).toEqual(expect.arrayContaining(['order:read', 'product:read']));
+  });
+
+  it('does not resolve a session that belongs to another user', async () => {
+    const session = await newSession();
+    const other = await newSession();
+
+    const authContext = await findAuthContext(db, session.userId, other.authId);
+
+    expect(authContext?.user.id).toBe(session.userId);
+    expect(authContext?.authId).toBeNull();
+  });
+
+  it('returns undefined for a user that does not exist', async () => {
+    expect(await findAuthContext(db, crypto.randomUUID(), crypto.randomUUID())).toBeUndefined();
+  });
+});
+
+describe('protectedProcedure', () => {
+  it('authenticates a request with a single database round-trip', async () => {
+    const session = await newSession();
+
+    await expect(callWithToken(session.token)).resolves.toMatchObject({ id: session.userId });
+    expect(queries).toHaveLength(1);
+  });
+
+  it('rejects the next request once the user is banned, and accepts it again after unbanning', async () => {
+    const session = await newSession();
+    await expect(callWithToken(session.token)).resolves.toBeDefined();
+
+    await banUser(db, session.userId, 'Abuse');
+    await expect(callWithToken(session.token)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    await unbanUser(db, session.userId);
+    await expect(callWithToken(session.token)).resolves.toBeDefined();
+  });
+
+  it('lifts an expired timed ban with one extra query', async () => {
+    const session = await newSession();
+    await banUser(db, session.userId, 'Cooling off', new Date(Date.now() - 1000));
+    queries = [];
+
+    await expect(callWithToken(session.token)).resolves.toBeDefined();
+    expect(queries).toHaveLength(2);
+    expect((await findUserById(db, session.userId))?.isBanned).toBe(false);
+  });
+
+  it('rejects the next request once its session is revoked', async () => {
+    const session = await newSession();
+    await expect(callWithToken(session.token)).resolves.toBeDefined();
+
+    await deleteAuthById(db, session.authId);
+
+    await expect(callWithToken(session.token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('keeps other sessions of the user working when one is revoked', async () => {
+    const session = await newSession();
+    const secondAuthId = crypto.randomUUID();
+    await createAuthSession(db, secondAuthId, session.userId, crypto.randomUUID());
+    const secondToken = await generateAccessToken(session.userId, session.email, JWT_SECRET, secondAuthId);
+
+    await deleteAuthById(db, session.authId);
+
+    await expect(callWithToken(session.token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(callWithToken(secondToken)).resolves.toMatchObject({ id: session.userId });
+  });
+});
+
+describe('logout', () => {
+  // A session on its own device, trusted or not
+  async function newDeviceSession(isTrusted: boolean) {
+    const session = await newSession();
+    const deviceId = crypto.randomUUID();
+    const authId = crypto.randomUUID();
+    await createAuthSession(db, authId, session.userId, deviceId, isTrusted);
+    const token = await generateAccessToken(session.userId, session.email, JWT_SECRET, authId);
+
+    return { ...session, authId, deviceId, token };
+  }
+
+  function logout(session: { token: string; deviceId: string }) {
+    return call(
+      authRoutes.logout,
+      { deviceId: session.deviceId },
+      { context: createTestContext(db, { token: session.token, env }) }
+    );
+  }
+
+  it('rejects the access token on the next request', async () => {
+    const session = await newDeviceSession(false);
+    await expect(callWithToken(session.token)).resolves.toBeDefined();
+
+    await expect(logout(session)).resolves.toEqual({ success: true });
+
+    await expect(callWithToken(session.token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('rejects the access token of a trusted device, which stays trusted', async () => {
+    const session = await newDeviceSession(true);
+    await expect(callWithToken(session.token)).resolves.toBeDefined();
+
+    await expect(logout(session)).resolves.toEqual({ success: true });
+
+    await expect(callWithToken(session.token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    expect(await findAuthById(db, session.authId)).toMatchObject({ isTrusted: true });
+  });
+});
+
+describe('token types', () => {
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  it('rejects tokens that are not access tokens, even when signed with the JWT secret', async () => {
+    const session = await newSession();
+    const token = await sign(
+      { userId: session.userId, email: session.email, sid: session.authId, type: 'export', exp: nowSeconds() + 60 },
+      JWT_SECRET,
+      'HS256'
+    );
+
+    await expect(callWithToken(token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('rejects access tokens that are not bound to a session', async () => {
+    const session = await newSession();
+    const token = await sign(
+      { userId: session.userId, email: session.email, type: 'access', exp: nowSeconds() + 60 },
+      JWT_SECRET,
+      'HS256'
+    );
+
+    await expect(callWithToken(token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('keeps account export links from working as API credentials, and the reverse', async () => {
+    const session = await newSession();
+    const exportEnv = { ...env, R2_BUCKET: { put: async () => null } } as unknown as Env;
+
+    const { url } = await createAccountExport(exportEnv, db, session.userId);
+    const exportToken = new URL(url, 'https://example.com').searchParams.get('token')!;
+
+    await expect(verifyAccountExportToken(exportEnv, exportToken)).resolves.toMatch(`exports/${session.userId}/`);
+    await expect(callWithToken(exportToken)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(verifyAccountExportToken(exportEnv, session.token)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
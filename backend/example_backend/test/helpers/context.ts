@@ -0,0 +1,30 @@
+import type { Env, TRPCContext } from '../../src/context';
+import type { DB } from '../../src/utils/db.utils';
+
+export const TEST_JWT_SECRET = 'test-secret';
+
+export const testEnv = { ENVIRONMENT: 'test', JWT_SECRET: TEST_JWT_SECRET } as Env;
+
+/**
+ * The slice of a Hono context that procedures read and write, for calling them with
+ * oRPC's `call`. `token` is sent as the bearer token.
+ */
+export function createTestContext(
+  db: DB,
+  options: { token?: string; env?: Env; headers?: Record<string, string> } = {}
+): TRPCContext {
+  const env = options.env ?? testEnv;
+  const headers: Record<string, string> = {
+    ...options.headers,
+    ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+  };
+  const variables = new Map<string, unknown>([['db', db]]);
+  const c = {
+    env,
+    req: { header: (name: string) => headers[name] },
+    get: (key: string) => variables.get(key),
+    set: (key: string, value: unknown) => variables.set(key, value),
+  };
+
+  return { env, c, get: c.get, set: c.set } as unknown as TRPCContext;
+}
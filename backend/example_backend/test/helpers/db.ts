@@ -0,0 +1,45 @@
+import { fileURLToPath } from 'node:url';
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import type { Logger } from 'drizzle-orm';
+import { drizzle, type PgliteDatabase } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '../../src/schemas';
+import type { DB, DBTransaction } from '../../src/utils/db.utils';
+
+let latestDb: PgliteDatabase<typeof schema> | undefined;
+
+/**
+ * An in-memory Postgres with all migrations applied. Repositories are typed against the
+ * Neon HTTP client, but only use the query builder both drivers share.
+ * `logger` sees every query sent after the migrations, e.g. to count round-trips.
+ */
+export async function createTestDb(options: { logger?: Logger } = {}): Promise<DB> {
+  const client = new PGlite({ extensions: { pg_trgm } });
+  const db = drizzle(client, { schema });
+
+  await migrate(db, { migrationsFolder: fileURLToPath(new URL('../../drizzle', import.meta.url)) });
+
+  // The migrations are not logged
+  latestDb = drizzle(client, { schema, logger: options.logger });
+  return latestDb as unknown as DB;
+}
+
+/**
+ * Stands in for runInTransaction, which opens a Neon WebSocket pool, by running the callback
+ * in a transaction on the database of the latest createTestDb. Test files swap it in with
+ *
+ *   vi.mock('../src/utils/db.utils', async (importOriginal) => ({
+ *     ...(await importOriginal<typeof import('../src/utils/db.utils')>()),
+ *     runInTransaction: (await import('./helpers/db')).runInTestTransaction,
+ *   }));
+ */
+export async function runInTestTransaction<T>(
+  _env: unknown,
+  callback: (tx: DBTransaction) => Promise<T>
+): Promise<T> {
+  if (!latestDb) {
+    throw new Error('createTestDb has not been called');
+  }
+  return latestDb.transaction((tx) => callback(tx as unknown as DBTransaction));
+}
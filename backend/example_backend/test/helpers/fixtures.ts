@@ -0,0 +1,98 @@
+import type { DB } from '../../src/utils/db.utils';
+import { createAuthSession } from '../../src/repositories/auth.repository';
+import { createUser, createUserRole } from '../../src/repositories/user.repository';
+import { addItemToCart, getOrCreateCart } from '../../src/repositories/cart.repository';
+import { createAddress } from '../../src/repositories/address.repository';
+import { vendors } from '../../src/schemas/vendor.schema';
+import { products, productVariants } from '../../src/schemas/product.schema';
+import { generateAccessToken } from '../../src/services/jwt.service';
+import { TEST_JWT_SECRET } from './context';
+
+export interface TestUser {
+  id: string;
+  email: string;
+  authId: string;
+  // Access token for the user's session, signed with TEST_JWT_SECRET
+  token: string;
+}
+
+export async function createTestUser(db: DB, roles: string[] = ['user']): Promise<TestUser> {
+  const id = crypto.randomUUID();
+  const email = `${id}@example.com`;
+  await createUser(db, id, email);
+  for (const role of roles) {
+    await createUserRole(db, crypto.randomUUID(), id, role);
+  }
+
+  const authId = crypto.randomUUID();
+  await createAuthSession(db, authId, id, crypto.randomUUID());
+
+  return { id, email, authId, token: await generateAccessToken(id, email, TEST_JWT_SECRET, authId) };
+}
+
+export async function createTestVendor(db: DB) {
+  const owner = await createTestUser(db, ['user', 'vendor']);
+  const [vendor] = await db
+    .insert(vendors)
+    .values({ id: crypto.randomUUID(), userId: owner.id, businessName: `Vendor ${owner.id}`, status: 'approved' })
+    .returning();
+
+  return { vendor: vendor!, owner };
+}
+
+// A published product with one variant priced at `price` (catalog currency USD)
+export async function createTestVariant(
+  db: DB,
+  vendorId: string,
+  options: { price?: string; stock?: number } = {}
+) {
+  const id = crypto.randomUUID();
+  const price = options.price ?? '10.00';
+  const [product] = await db
+    .insert(products)
+    .values({ id, vendorId, name: `Product ${id}`, slug: id, basePrice: price, status: 'published' })
+    .returning();
+  const [variant] = await db
+    .insert(productVariants)
+    .values({
+      id: crypto.randomUUID(),
+      productId: id,
+      sku: id,
+      name: 'Default',
+      price,
+      inventoryQuantity: options.stock ?? 100,
+    })
+    .returning();
+
+  return { product: product!, variant: variant! };
+}
+
+export async function addTestCartItem(
+  db: DB,
+  userId: string,
+  variant: { id: string; productId: string; price: string },
+  quantity: number = 1
+) {
+  const cart = await getOrCreateCart(db, userId);
+  return addItemToCart(db, cart!.id, {
+    productId: variant.productId,
+    variantId: variant.id,
+    quantity,
+    priceAtAdd: variant.price,
+  });
+}
+
+export async function createTestAddress(db: DB, userId: string) {
+  const address = await createAddress(db, {
+    userId,
+    fullName: 'Test Buyer',
+    phoneNumber: '+15555550100',
+    addressLine1: '1 Test Street',
+    city: 'Springfield',
+    state: 'IL',
+    postalCode: '62701',
+    country: 'US',
+    isDefault: true,
+  });
+  return address!;
+}
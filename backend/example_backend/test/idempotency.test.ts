@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { call } from '@orpc/server';
+import { eq } from 'drizzle-orm';
+import z from 'zod/v3';
+import type { DB } from '../src/utils/db.utils';
+import { publicProcedure, idempotencyMiddleware, IDEMPOTENCY_KEY_HEADER } from '../src/procedures';
+import { idempotencyKeys } from '../src/schemas/idempotency.schema';
+import { createTestDb } from './helpers/db';
+import { createTestContext } from './helpers/context';
+
+let db: DB;
+
+beforeAll(async () => {
+  db = await createTestDb();
+});
+
+// Counts its runs, and logs the caller in when asked to, like requestOtp on a trusted device
+function countingProcedure() {
+  let runs = 0;
+  const procedure = publicProcedure
+    .use(idempotencyMiddleware)
+    .input(z.object({ email: z.string(), trusted: z.boolean() }))
+    .handler(({ input }) => {
+      runs++;
+      return input.trusted
+        ? { success: true, accessToken: `access-${runs}`, refreshToken: `refresh-${runs}` }
+        : { success: true };
+    });
+
+  return { procedure, runs: () => runs };
+}
+
+function callWithKey(procedure: ReturnType<typeof countingProcedure>['procedure'], key: string, trusted: boolean) {
+  const context = createTestContext(db, { headers: { [IDEMPOTENCY_KEY_HEADER]: key } });
+  return call(procedure, { email: 'buyer@example.com', trusted }, { context, path: ['auth', 'requestOtp'] });
+}
+
+describe('idempotencyMiddleware', () => {
+  it('replays the first response for a retried key', async () => {
+    const { procedure, runs } = countingProcedure();
+    const key = crypto.randomUUID();
+
+    const first = await callWithKey(procedure, key, false);
+    const retry = await callWithKey(procedure, key, false);
+
+    expect(retry).toEqual(first);
+    expect(runs()).toBe(1);
+  });
+
+  it('never stores or replays responses that carry tokens', async () => {
+    const { procedure, runs } = countingProcedure();
+    const key = crypto.randomUUID();
+
+    const first = await callWithKey(procedure, key, true);
+    expect(await db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, key))).toHaveLength(0);
+
+    const retry = await callWithKey(procedure, key, true);
+    expect(runs()).toBe(2);
+    expect(retry.accessToken).not.toBe(first.accessToken);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  Money,
+  RoundingMode,
+  allocateMoney,
+  convertMoney,
+  formatMoney,
+  money,
+  parseMoney,
+  percentOfMoney,
+  scaleMoney,
+  sumMoney,
+} from '../src/utils/money.utils';
+
+const ROUNDING_MODES: RoundingMode[] = ['half_up', 'half_even', 'floor', 'ceil'];
+
+// Large enough to cover real order totals while scaled results stay within safe integers
+const minorArb = fc.integer({ min: -100_000_000, max: 100_000_000 });
+const nonNegativeMinorArb = fc.integer({ min: 0, max: 100_000_000 });
+const weightsArb = fc.array(fc.integer({ min: 0, max: 10_000_000 }), { minLength: 1, maxLength: 20 });
+const currencyArb = fc.constantFrom('USD', 'EUR', 'JPY', 'KWD');
+const modeArb = fc.constantFrom(...ROUNDING_MODES);
+
+// Decimal strings such as "0.0825" or "1.5", as stored for rates and percentages
+const decimalArb = (minScale: number, maxScale: number) =>
+  fc
+    .tuple(fc.integer({ min: 1, max: 1_000_000 }), fc.integer({ min: minScale, max: maxScale }))
+    .map(([units, scale]) => ({ units: BigInt(units), scale, text: toDecimalString(BigInt(units), scale) }));
+// Between 0.000001 and 10000
+const factorArb = decimalArb(2, 6);
+// At least 0.01, so dividing by it stays in range
+const divisorArb = decimalArb(0, 2);
+
+function toDecimalString(units: bigint, scale: number): string {
+  const digits = units.toString().padStart(scale + 1, '0');
+  return scale === 0 ? digits : `${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+function floorDiv(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  return numerator % denominator !== 0n && numerator < 0n ? quotient - 1n : quotient;
+}
+
+/**
+ * The expected result of rounding numerator / denominator (denominator > 0), worked out
+ * from the floor independently of the implementation.
+ */
+function expectedRounding(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const floor = floorDiv(numerator, denominator);
+  const remainder = numerator - floor * denominator;
+  if (remainder === 0n) {
+    return floor;
+  }
+
+  const ceil = floor + 1n;
+  switch (mode) {
+    case 'floor':
+      return floor;
+    case 'ceil':
+      return ceil;
+    case 'half_even':
+      if (remainder * 2n === denominator) {
+        return floor % 2n === 0n ? floor : ceil;
+      }
+      return remainder * 2n > denominator ? ceil : floor;
+    case 'half_up':
+      // Ties round away from zero
+      if (remainder * 2n === denominator) {
+        return numerator < 0n ? floor : ceil;
+      }
+      return remainder * 2n > denominator ? ceil : floor;
+  }
+}
+
+function totalOf(amounts: Money[]): number {
+  return amounts.reduce((sum, amount) => sum + amount.minor, 0);
+}
+
+describe('allocateMoney', () => {
+  it('splits a total into parts that add up to it exactly', () => {
+    fc.assert(
+      fc.property(minorArb, weightsArb, currencyArb, (totalMinor, weightMinors, currency) => {
+        fc.pre(weightMinors.some((weight) => weight > 0));
+        const total = money(totalMinor, currency);
+        const parts = allocateMoney(total, weightMinors.map((weight) => money(weight, currency)));
+
+        expect(parts).toHaveLength(weightMinors.length);
+        expect(parts.every((part) => part.currency === total.currency)).toBe(true);
+        expect(totalOf(parts)).toBe(totalMinor);
+        expect(sumMoney(parts, currency)).toEqual(total);
+      })
+    );
+  });
+
+  it('keeps every part within one minor unit of its exact proportional share', () => {
+    fc.assert(
+      fc.property(nonNegativeMinorArb, weightsArb, (totalMinor, weightMinors) => {
+        const weightTotal = BigInt(weightMinors.reduce((sum, weight) => sum + weight, 0));
+        fc.pre(weightTotal > 0n);
+        const parts = allocateMoney(money(totalMinor), weightMinors.map((weight) => money(weight)));
+
+        parts.forEach((part, index) => {
+          const exact = BigInt(totalMinor) * BigInt(weightMinors[index]!);
+          const floor = exact / weightTotal;
+          const ceil = exact % weightTotal === 0n ? floor : floor + 1n;
+          expect(BigInt(part.minor) >= floor && BigInt(part.minor) <= ceil).toBe(true);
+        });
+      })
+    );
+  });
+
+  it('gives nothing to parts without weight', () => {
+    fc.assert(
+      fc.property(nonNegativeMinorArb, weightsArb, (totalMinor, weightMinors) => {
+        const parts = allocateMoney(money(totalMinor), weightMinors.map((weight) => money(weight)));
+
+        weightMinors.forEach((weight, index) => {
+          if (weight === 0) {
+            expect(parts[index]!.minor).toBe(0);
+          }
+        });
+      })
+    );
+  });
+
+  it('reconciles a rounded order discount with its line discounts to the cent', () => {
+    fc.assert(
+      fc.property(weightsArb, fc.integer({ min: 0, max: 100 }), (lineMinors, percent) => {
+        const lines = lineMinors.map((line) => money(line));
+        const orderTotal = sumMoney(lines);
+        const discount = percentOfMoney(orderTotal, percent);
+        const lineDiscounts = allocateMoney(discount, lines);
+
+        expect(sumMoney(lineDiscounts)).toEqual(discount);
+        lineDiscounts.forEach((lineDiscount, index) => {
+          expect(lineDiscount.minor).toBeLessThanOrEqual(lines[index]!.minor);
+        });
+      })
+    );
+  });
+});
+
+describe('scaleMoney', () => {
+  it('rounds once, as the rounding mode specifies', () => {
+    fc.assert(
+      fc.property(minorArb, factorArb, divisorArb, modeArb, (amountMinor, numerator, denominator, mode) => {
+        const scale = Math.max(numerator.scale, denominator.scale);
+        const top = numerator.units * 10n ** BigInt(scale - numerator.scale);
+        const bottom = denominator.units * 10n ** BigInt(scale - denominator.scale);
+        const result = scaleMoney(money(amountMinor), numerator.text, denominator.text, mode);
+
+        expect(BigInt(result.minor)).toBe(expectedRounding(BigInt(amountMinor) * top, bottom, mode));
+      })
+    );
+  });
+
+  it('brackets the exact value between floor and ceil, at most one minor unit apart', () => {
+    fc.assert(
+      fc.property(minorArb, factorArb, divisorArb, (amountMinor, numerator, denominator) => {
+        const amount = money(amountMinor);
+        const [floor, ceil, halfUp, halfEven] = (['floor', 'ceil', 'half_up', 'half_even'] as const).map(
+          (mode) => scaleMoney(amount, numerator.text, denominator.text, mode).minor
+        );
+
+        expect(ceil! - floor!).toBeGreaterThanOrEqual(0);
+        expect(ceil! - floor!).toBeLessThanOrEqual(1);
+        expect([floor, ceil]).toContain(halfUp);
+        expect([floor, ceil]).toContain(halfEven);
+      })
+    );
+  });
+
+  it('breaks exact ties away from zero for half_up and to the even neighbour for half_even', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1_000_000, max: 1_000_000 }), (halfUnits) => {
+        fc.pre(halfUnits % 2 !== 0);
+        // halfUnits / 2 always lands exactly halfway between two minor units
+        const amount = money(halfUnits);
+        const halfUp = scaleMoney(amount, 1, 2, 'half_up').minor;
+        const halfEven = scaleMoney(amount, 1, 2, 'half_even').minor;
+
+        expect(Math.abs(halfUp)).toBe(Math.ceil(Math.abs(halfUnits) / 2));
+        expect(Math.abs(halfEven % 2)).toBe(0);
+        expect(Math.abs(halfEven * 2 - halfUnits)).toBe(1);
+      })
+    );
+  });
+});
+
+describe('convertMoney', () => {
+  it('accounts for both currencies\' minor units and rounds as specified', () => {
+    fc.assert(
+      fc.property(minorArb, currencyArb, currencyArb, factorArb, modeArb, (amountMinor, from, to, rate, mode) => {
+        fc.pre(from !== to);
+        const exponentOf = (currency: string) => formatMoney(money(1, currency)).split('.')[1]?.length ?? 0;
+        const shift = exponentOf(to) - exponentOf(from);
+        const numerator = BigInt(amountMinor) * rate.units * 10n ** BigInt(Math.max(0, shift));
+        const denominator = 10n ** BigInt(rate.scale) * 10n ** BigInt(Math.max(0, -shift));
+        const result = convertMoney(money(amountMinor, from), to, rate.text, mode);
+
+        expect(result.currency).toBe(to);
+        expect(BigInt(result.minor)).toBe(expectedRounding(numerator, denominator, mode));
+      })
+    );
+  });
+
+  it('leaves amounts already in the target currency untouched', () => {
+    fc.assert(
+      fc.property(minorArb, currencyArb, factorArb, (amountMinor, currency, rate) => {
+        const amount = money(amountMinor, currency);
+        expect(convertMoney(amount, currency.toLowerCase(), rate.text)).toEqual(amount);
+      })
+    );
+  });
+});
+
+describe('sumMoney', () => {
+  it('adds minor units exactly, in any order', () => {
+    fc.assert(
+      fc.property(fc.array(minorArb, { maxLength: 50 }), currencyArb, (minors, currency) => {
+        const amounts = minors.map((minor) => money(minor, currency));
+        const total = sumMoney(amounts, currency);
+
+        expect(total).toEqual(money(totalOf(amounts), currency));
+        expect(sumMoney([...amounts].reverse(), currency)).toEqual(total);
+      })
+    );
+  });
+
+  it('reconciles with the stored decimal strings it was summed from', () => {
+    fc.assert(
+      fc.property(fc.array(minorArb, { maxLength: 50 }), currencyArb, (minors, currency) => {
+        const stored = minors.map((minor) => formatMoney(money(minor, currency)));
+        const total = sumMoney(stored.map((value) => parseMoney(value, currency)), currency);
+
+        expect(total.minor).toBe(minors.reduce((sum, minor) => sum + minor, 0));
+      })
+    );
+  });
+
+  it('rejects amounts in another currency', () => {
+    expect(() => sumMoney([money(100, 'USD'), money(100, 'EUR')], 'USD')).toThrow('Currency mismatch');
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { call } from '@orpc/server';
+import type { DB } from '../src/utils/db.utils';
+import { orderRoutes } from '../src/routes/order.route';
+import { getOrderItems } from '../src/repositories/order.repository';
+import { getCartWithItems, getOrCreateCart } from '../src/repositories/cart.repository';
+import { createTestDb } from './helpers/db';
+import { createTestContext } from './helpers/context';
+import {
+  addTestCartItem,
+  createTestAddress,
+  createTestUser,
+  createTestVariant,
+  createTestVendor,
+} from './helpers/fixtures';
+
+vi.mock('../src/utils/db.utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/db.utils')>()),
+  runInTransaction: (await import('./helpers/db')).runInTestTransaction,
+}));
+
+// Lets a test change the cart between pricing and the order transaction
+const hooks = vi.hoisted(() => ({ afterPricing: undefined as (() => Promise<void>) | undefined }));
+
+vi.mock('../src/utils/checkout.utils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/utils/checkout.utils')>();
+  return {
+    ...actual,
+    priceCart: async (...args: Parameters<typeof actual.priceCart>) => {
+      const priced = await actual.priceCart(...args);
+      await hooks.afterPricing?.();
+      return priced;
+    },
+  };
+});
+
+let db: DB;
+
+beforeAll(async () => {
+  db = await createTestDb();
+});
+
+describe('createOrder', () => {
+  it('keeps items added to the cart while the order was being placed', async () => {
+    const buyer = await createTestUser(db);
+    const { vendor } = await createTestVendor(db);
+    const { variant: priced } = await createTestVariant(db, vendor.id);
+    const { variant: late } = await createTestVariant(db, vendor.id);
+    const address = await createTestAddress(db, buyer.id);
+    await addTestCartItem(db, buyer.id, priced, 2);
+
+    hooks.afterPricing = async () => {
+      await addTestCartItem(db, buyer.id, late, 1);
+    };
+    try {
+      const { orderId } = await call(
+        orderRoutes.createOrder,
+        { shippingAddressId: address.id },
+        { context: createTestContext(db, { token: buyer.token }) }
+      );
+
+      const items = await getOrderItems(db, orderId);
+      expect(items.map((item) => item.variantId)).toEqual([priced.id]);
+    } finally {
+      hooks.afterPricing = undefined;
+    }
+
+    const cart = await getCartWithItems(db, (await getOrCreateCart(db, buyer.id))!.id);
+    expect(cart?.items.map(({ item }) => item.variantId)).toEqual([late.id]);
+  });
+});
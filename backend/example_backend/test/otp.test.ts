@@ -0,0 +1,175 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DB } from '../src/utils/db.utils';
+import { createOtp, findOtpByDeviceAndEmail, updateOtp } from '../src/repositories/otp.repository';
+import {
+  OTP_LENGTH,
+  OTP_LOCKOUT_MS,
+  OTP_LOCKOUT_THRESHOLD,
+  OTP_LOCKOUT_WINDOW_MS,
+  OTP_MAX_ATTEMPTS,
+  OTP_TTL_MS,
+  assertOtpNotLocked,
+  generateOtp,
+  getOtpRetryAfter,
+  verifyOtpCode,
+} from '../src/utils/otp.utils';
+import { createTestDb } from './helpers/db';
+
+const CODE = 12345;
+const WRONG_CODE = 54321;
+
+let db: DB;
+
+beforeAll(async () => {
+  db = await createTestDb();
+});
+
+// Each test gets its own email and device, so counters never leak between tests
+function newLogin() {
+  const id = crypto.randomUUID();
+  return { email: `${id}@example.com`, deviceId: id };
+}
+
+async function sendCode(login: { email: string; deviceId: string }, now: Date, otp: number = CODE) {
+  const existing = await findOtpByDeviceAndEmail(db, login.deviceId, login.email);
+  const expiredAt = new Date(now.getTime() + OTP_TTL_MS);
+
+  if (existing) {
+    await updateOtp(db, existing.id, otp, expiredAt, true);
+  } else {
+    await createOtp(db, crypto.randomUUID(), otp, login.email, login.deviceId, expiredAt);
+  }
+}
+
+function guess(login: { email: string; deviceId: string }, otp: number, now: Date) {
+  return verifyOtpCode(db, { ...login, otp }, now);
+}
+
+describe('generateOtp', () => {
+  it('returns codes of the requested length without a leading zero', () => {
+    for (let i = 0; i < 200; i++) {
+      expect(generateOtp(OTP_LENGTH)).toMatch(/^[1-9]\d{4}$/);
+    }
+  });
+});
+
+describe('getOtpRetryAfter', () => {
+  it('reports the remaining cooldown in whole seconds', () => {
+    expect(getOtpRetryAfter(null, 30_000)).toBe(0);
+    expect(getOtpRetryAfter(new Date(Date.now() - 29_500), 30_000)).toBe(1);
+    expect(getOtpRetryAfter(new Date(Date.now() - 31_000), 30_000)).toBe(0);
+  });
+});
+
+describe('verifyOtpCode', () => {
+  it('accepts the current code', async () => {
+    const login = newLogin();
+    const now = new Date();
+    await sendCode(login, now);
+
+    await expect(guess(login, CODE, now)).resolves.toMatchObject({ otp: CODE });
+  });
+
+  it('rejects a code once it has expired', async () => {
+    const login = newLogin();
+    const sentAt = new Date();
+    await sendCode(login, sentAt);
+
+    await expect(guess(login, CODE, new Date(sentAt.getTime() + OTP_TTL_MS - 1000))).resolves.toBeTruthy();
+
+    await sendCode(login, sentAt);
+    await expect(guess(login, CODE, new Date(sentAt.getTime() + OTP_TTL_MS + 1000))).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'OTP expired',
+    });
+  });
+
+  it('invalidates a code after the maximum number of wrong guesses', async () => {
+    const login = newLogin();
+    const now = new Date();
+    await sendCode(login, now);
+
+    for (let attempt = 1; attempt <= OTP_MAX_ATTEMPTS; attempt++) {
+      await expect(guess(login, WRONG_CODE, now)).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        data: { attemptsRemaining: OTP_MAX_ATTEMPTS - attempt },
+      });
+    }
+
+    await expect(guess(login, CODE, now)).rejects.toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+      data: { attemptsRemaining: 0 },
+    });
+  });
+
+  it('locks the email+device pair and the device out when failures pile up across new codes', async () => {
+    const login = newLogin();
+    const now = new Date();
+
+    // A fresh code resets the per-code counter but not the lockout count
+    for (let failures = 0; failures < OTP_LOCKOUT_THRESHOLD; failures++) {
+      if (failures % OTP_MAX_ATTEMPTS === 0) {
+        await sendCode(login, now);
+      }
+      await expect(guess(login, WRONG_CODE, now)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    }
+
+    await sendCode(login, now);
+    await expect(guess(login, CODE, now)).rejects.toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+      data: { retryAfter: OTP_LOCKOUT_MS / 1000 },
+    });
+    await expect(assertOtpNotLocked(db, login.email, login.deviceId, now)).rejects.toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+    });
+
+    // The lockout applies to the device for any email, but not to the email on the owner's device,
+    // so guessing someone else's codes cannot lock them out
+    const otherEmail = { email: `${crypto.randomUUID()}@example.com`, deviceId: login.deviceId };
+    const ownerDevice = { email: login.email, deviceId: crypto.randomUUID() };
+    await expect(assertOtpNotLocked(db, otherEmail.email, otherEmail.deviceId, now)).rejects.toBeTruthy();
+    await sendCode(ownerDevice, now);
+    await expect(guess(ownerDevice, CODE, now)).resolves.toBeTruthy();
+
+    const later = new Date(now.getTime() + OTP_LOCKOUT_MS + 1000);
+    await sendCode(login, later);
+    await expect(guess(login, CODE, later)).resolves.toBeTruthy();
+  });
+
+  it('forgets failures older than the lockout window', async () => {
+    const login = newLogin();
+    const start = new Date();
+    await sendCode(login, start);
+
+    for (let failures = 0; failures < OTP_LOCKOUT_THRESHOLD - 1; failures++) {
+      if (failures % OTP_MAX_ATTEMPTS === 0) {
+        await sendCode(login, start);
+      }
+      await expect(guess(login, WRONG_CODE, start)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    }
+
+    const later = new Date(start.getTime() + OTP_LOCKOUT_WINDOW_MS + 1000);
+    await sendCode(login, later);
+    await expect(guess(login, WRONG_CODE, later)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(assertOtpNotLocked(db, login.email, login.deviceId, later)).resolves.toBeUndefined();
+  });
+
+  it('clears the failure count after a successful verification', async () => {
+    const login = newLogin();
+    const now = new Date();
+
+    for (let failures = 0; failures < OTP_LOCKOUT_THRESHOLD - 1; failures++) {
+      if (failures % OTP_MAX_ATTEMPTS === 0) {
+        await sendCode(login, now);
+      }
+      await expect(guess(login, WRONG_CODE, now)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    }
+
+    await sendCode(login, now);
+    await expect(guess(login, CODE, now)).resolves.toBeTruthy();
+
+    await sendCode(login, now);
+    await expect(guess(login, WRONG_CODE, now)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(assertOtpNotLocked(db, login.email, login.deviceId, now)).resolves.toBeUndefined();
+  });
+});
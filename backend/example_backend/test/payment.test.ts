@@ -0,0 +1,247 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { call } from '@orpc/server';
+import type { DB } from '../src/utils/db.utils';
+import { orderRoutes } from '../src/routes/order.route';
+import { paymentRoutes } from '../src/routes/payment.route';
+import { getOrderById } from '../src/repositories/order.repository';
+import { getVariantById } from '../src/repositories/product.repository';
+import { getCartWithItems, getOrCreateCart } from '../src/repositories/cart.repository';
+import { listOrderRefunds } from '../src/repositories/payment.repository';
+import { FAKE_PAYMENT_METHOD_DECLINED, getPaymentProvider } from '../src/services/payment.service';
+import { cancelOrder } from '../src/utils/order-cancellation.utils';
+import { SYSTEM_ACTOR } from '../src/utils/order-status.utils';
+import { applyPaymentWebhookEvent, retryFailedRefunds } from '../src/utils/payment.utils';
+import { createTestDb } from './helpers/db';
+import { createTestContext, testEnv } from './helpers/context';
+import {
+  addTestCartItem,
+  createTestAddress,
+  createTestUser,
+  createTestVariant,
+  createTestVendor,
+} from './helpers/fixtures';
+
+vi.mock('../src/utils/db.utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/db.utils')>()),
+  runInTransaction: (await import('./helpers/db')).runInTestTransaction,
+}));
+
+// Makes the fake provider's refunds fail, as if the provider were down
+const providerState = vi.hoisted(() => ({ refundsFail: false }));
+
+vi.mock('../src/repositories/payment.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/repositories/payment.repository')>();
+  return {
+    ...actual,
+    refundFakePaymentIntent: (...args: Parameters<typeof actual.refundFakePaymentIntent>) => {
+      if (providerState.refundsFail) {
+        throw new Error('Payment provider unavailable');
+      }
+      return actual.refundFakePaymentIntent(...args);
+    },
+  };
+});
+
+let db: DB;
+
+beforeAll(async () => {
+  db = await createTestDb();
+});
+
+// A buyer with an unpaid order for fresh $10.00 variants, one vendor per entry of `quantities`
+async function placeOrder(quantities: number[] = [2]) {
+  const buyer = await createTestUser(db);
+  const address = await createTestAddress(db, buyer.id);
+  const lines = [];
+  for (const quantity of quantities) {
+    const { vendor, owner } = await createTestVendor(db);
+    const { variant } = await createTestVariant(db, vendor.id, { price: '10.00', stock: 5 });
+    await addTestCartItem(db, buyer.id, variant, quantity);
+    lines.push({ vendor, owner, variant });
+  }
+
+  const context = createTestContext(db, { token: buyer.token });
+  const { orderId } = await call(orderRoutes.createOrder, { shippingAddressId: address.id }, { context });
+
+  return { buyer, lines, variant: lines[0]!.variant, orderId, context };
+}
+
+describe('paying for an order with the fake provider', () => {
+  it('creates the order, charges it and confirms it', async () => {
+    const { buyer, variant, orderId, context } = await placeOrder([2]);
+
+    const placed = await getOrderById(db, orderId);
+    expect(placed).toMatchObject({ status: 'pending', paymentStatus: 'pending', total: '20.00' });
+    expect(await getVariantById(db, variant.id)).toMatchObject({ inventoryQuantity: 5, reservedQuantity: 2 });
+    const cart = await getCartWithItems(db, (await getOrCreateCart(db, buyer.id))!.id);
+    expect(cart?.items).toHaveLength(0);
+
+    const intent = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+    expect(intent.paymentIntentId).toMatch(/^pi_fake_/);
+
+    const confirmed = await call(paymentRoutes.confirmPayment, { orderId }, { context });
+    expect(confirmed).toEqual({
+      paymentIntentId: intent.paymentIntentId,
+      paymentStatus: 'completed',
+      orderStatus: 'confirmed',
+    });
+
+    expect(await getOrderById(db, orderId)).toMatchObject({
+      status: 'confirmed',
+      paymentStatus: 'completed',
+      paymentIntentId: intent.paymentIntentId,
+    });
+    // The reservation turned into a sale
+    expect(await getVariantById(db, variant.id)).toMatchObject({ inventoryQuantity: 3, reservedQuantity: 0 });
+  });
+
+  it('reuses the open intent when asked again', async () => {
+    const { orderId, context } = await placeOrder();
+
+    const first = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+    const second = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+
+    expect(second.paymentIntentId).toBe(first.paymentIntentId);
+  });
+
+  it('leaves a declined order pending with its stock still reserved', async () => {
+    const { variant, orderId, context } = await placeOrder([1]);
+    await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+
+    const declined = await call(
+      paymentRoutes.confirmPayment,
+      { orderId, paymentMethod: FAKE_PAYMENT_METHOD_DECLINED },
+      { context }
+    );
+
+    expect(declined).toMatchObject({ paymentStatus: 'failed', orderStatus: 'pending' });
+    expect(await getVariantById(db, variant.id)).toMatchObject({ inventoryQuantity: 5, reservedQuantity: 1 });
+  });
+
+  it('rejects confirming an order that has no intent yet', async () => {
+    const { orderId, context } = await placeOrder();
+
+    await expect(call(paymentRoutes.confirmPayment, { orderId }, { context })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+  });
+
+  it('charges only what is left after part of the order was cancelled', async () => {
+    const { buyer, lines, orderId, context } = await placeOrder([1, 1]);
+    const provider = getPaymentProvider(testEnv, db);
+    const stale = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+
+    await cancelOrder(testEnv, db, orderId, {
+      actor: { id: buyer.id, role: 'customer' },
+      vendorIds: [lines[0]!.vendor.id],
+    });
+
+    // The old intent still asks for both parts, so it cannot be confirmed any more
+    await expect(call(paymentRoutes.confirmPayment, { orderId }, { context })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+
+    const intent = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+    expect(intent.paymentIntentId).not.toBe(stale.paymentIntentId);
+    expect(await provider.retrieveIntent(stale.paymentIntentId)).toMatchObject({ status: 'canceled' });
+    expect(await provider.retrieveIntent(intent.paymentIntentId)).toMatchObject({ amount: 1000 });
+
+    await expect(call(paymentRoutes.confirmPayment, { orderId }, { context })).resolves.toMatchObject({
+      paymentStatus: 'completed',
+      orderStatus: 'confirmed',
+    });
+    expect(await provider.retrieveIntent(intent.paymentIntentId)).toMatchObject({ status: 'succeeded', amount: 1000 });
+  });
+});
+
+describe('payments for cancelled orders', () => {
+  it('voids the intent instead of charging for an order that was cancelled', async () => {
+    const { variant, orderId, context } = await placeOrder([1]);
+    const provider = getPaymentProvider(testEnv, db);
+    const { paymentIntentId } = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+    await cancelOrder(testEnv, db, orderId, { actor: SYSTEM_ACTOR, reason: 'Reservation expired' });
+
+    await expect(call(paymentRoutes.confirmPayment, { orderId }, { context })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'Order is cancelled',
+    });
+
+    expect(await provider.retrieveIntent(paymentIntentId)).toMatchObject({ status: 'canceled' });
+    expect(await getOrderById(db, orderId)).toMatchObject({ status: 'cancelled', paymentStatus: 'pending' });
+    expect(await getVariantById(db, variant.id)).toMatchObject({ inventoryQuantity: 5, reservedQuantity: 0 });
+  });
+
+  it('refunds a payment that succeeds after the order was cancelled', async () => {
+    const { variant, orderId, context } = await placeOrder([2]);
+    const provider = getPaymentProvider(testEnv, db);
+    const { paymentIntentId } = await call(paymentRoutes.createPaymentIntent, { orderId }, { context });
+    await cancelOrder(testEnv, db, orderId, { actor: SYSTEM_ACTOR, reason: 'Reservation expired' });
+
+    // The buyer paid on the provider's side, and its webhook arrives afterwards
+    await provider.confirmIntent(paymentIntentId);
+    const result = await applyPaymentWebhookEvent(testEnv, db, {
+      id: `evt_${crypto.randomUUID()}`,
+      type: 'payment.succeeded',
+      providerType: 'payment_intent.succeeded',
+      paymentIntentId,
+      orderId,
+      payload: {},
+    });
+
+    expect(result).toEqual({ orderId, applied: true });
+    expect(await getOrderById(db, orderId)).toMatchObject({ status: 'cancelled', paymentStatus: 'refunded' });
+    expect(await listOrderRefunds(db, orderId)).toEqual([
+      expect.objectContaining({ amount: '20.00', status: 'succeeded' }),
+    ]);
+    // The cancellation already released the stock, so nothing was sold
+    expect(await getVariantById(db, variant.id)).toMatchObject({ inventoryQuantity: 5, reservedQuantity: 0 });
+  });
+});
+
+describe('retrying failed refunds', () => {
+  // A paid order, and the refund the provider failed to make for cancelling the vendors at
+  // `vendorIndexes`, or the whole order
+  async function failedRefund(quantities: number[], vendorIndexes?: number[]) {
+    const placed = await placeOrder(quantities);
+    await call(paymentRoutes.createPaymentIntent, { orderId: placed.orderId }, { context: placed.context });
+    await call(paymentRoutes.confirmPayment, { orderId: placed.orderId }, { context: placed.context });
+
+    providerState.refundsFail = true;
+    try {
+      const { refund } = await cancelOrder(testEnv, db, placed.orderId, {
+        actor: { id: placed.buyer.id, role: 'customer' },
+        vendorIds: vendorIndexes?.map((index) => placed.lines[index]!.vendor.id),
+      });
+      expect(refund).toMatchObject({ status: 'failed', failureReason: 'Payment provider unavailable' });
+      return { ...placed, refund: refund! };
+    } finally {
+      providerState.refundsFail = false;
+    }
+  }
+
+  it('lets the vendor whose part was cancelled retry the refund', async () => {
+    const { lines, orderId, refund } = await failedRefund([1, 1], [0]);
+    const retry = (token: string) =>
+      call(paymentRoutes.retryRefund, { id: refund.id }, { context: createTestContext(db, { token }) });
+
+    await expect(retry(lines[1]!.owner.token)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    await expect(retry(lines[0]!.owner.token)).resolves.toMatchObject({ amount: '10.00', status: 'succeeded' });
+    // The other vendor's part is still paid for
+    expect(await getOrderById(db, orderId)).toMatchObject({ paymentStatus: 'completed' });
+
+    await expect(retry(lines[0]!.owner.token)).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('retries failed refunds on schedule and settles the refunded order', async () => {
+    const { orderId, refund } = await failedRefund([2]);
+    expect(await getOrderById(db, orderId)).toMatchObject({ status: 'cancelled', paymentStatus: 'completed' });
+
+    await expect(retryFailedRefunds(testEnv, db)).resolves.toEqual({ refunds: 1, succeeded: 1 });
+
+    expect(await listOrderRefunds(db, orderId)).toEqual([
+      expect.objectContaining({ id: refund.id, amount: '20.00', status: 'succeeded', failureReason: null }),
+    ]);
+    expect(await getOrderById(db, orderId)).toMatchObject({ paymentStatus: 'refunded' });
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Every test file migrates its own in-memory Postgres, which takes a few seconds
+    hookTimeout: 120_000,
+    testTimeout: 30_000,
+  },
+});